@@ -5,16 +5,40 @@ import { StoryboardPhase } from './components/StoryboardPhase';
 import { SetupPhase } from './components/SetupPhase';
 import { VideoEditor } from './components/VideoEditor';
 import SettingsModal from './components/SettingsModal';
+import ProjectListModal from './components/ProjectListModal';
+import StoryboardPdfModal from './components/StoryboardPdfModal';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ShotQueuePanel } from './components/ShotQueuePanel';
+import { useHistory } from './hooks/useHistory';
+import { useShotQueue } from './hooks/useShotQueue';
 import { 
   analyzeScript, 
   generateShotImage, 
+  generateCharacterImage,
+  generateSceneImage,
+  generateModelSheetImage,
+  suggestShot,
+  suggestSoundCues,
   analyzeCharacters, 
   analyzeScenes, 
-  expandScript, 
-  getPollinationsUrl, 
-  QUALITY_CONFIG 
+  expandScript 
 } from './services/geminiService';
-import { Shot, VisualStyle, AspectRatio, Character, Scene, AppStep, Genre, QualityMode, AISettings } from './types';
+import { saveProject, loadProject, loadLastProject, sweepUnusedMedia, createProjectId, deriveProjectName, putMedia, listSounds, resolveMediaUrl } from './services/projectStore';
+import { submitVideoJob, waitForVideo, getVideoSettings } from './services/videoProviders';
+import { MODEL_SHEET_ENTRIES } from './services/modelSheet';
+import { createBlankShot, createShotId, splitShot, mergeShots } from './services/shotEditing';
+import { suggestTransitions } from './services/transitions';
+import { needsSpeech, synthesizeShotAudio } from './services/dialogueAudio';
+import { DEFAULT_NARRATOR_VOICE, VoiceCast } from './services/voiceCasting';
+import { DEFAULT_AUDIO_MIX } from './services/soundtrack';
+import { suggestCue } from './services/soundLibrary';
+import { SUBTITLE_FORMATS, buildSubtitleFile } from './services/subtitles';
+import { getExportSize } from './services/frameRenderer';
+import { applyShotList, getShotFileName, readShotListFile, toShotListCsv, toShotListXlsx } from './services/shotList';
+import { TIMELINE_FORMATS, TimelineMedia, buildTimelineFile, buildTimelineSequence, readVideoDuration } from './services/timelineExport';
+import { SCREENPLAY_FILE_ACCEPT, describeScreenplay, importScreenplayFile, parseScreenplay } from './services/screenplay';
+import { exportProjectArchive, importProjectArchive, ARCHIVE_EXTENSION } from './services/projectArchive';
+import { Shot, VisualStyle, AspectRatio, Character, Scene, AppStep, Genre, QualityMode, AISettings, ProjectData, VideoJob, VoiceProfile, AudioMix, SoundCue, SoundTrack } from './types';
 import JSZip from 'jszip';
 import { 
   Clapperboard, 
@@ -28,6 +52,8 @@ import {
   BookOpen,
   Wand2,
   Undo2,
+  Redo2,
+  History,
   Loader2,
   ArrowLeft,
   Download,
@@ -37,9 +63,40 @@ import {
   Zap,
   Scale,
   Gem,
-  Settings
+  Settings,
+  FolderOpen,
+  Upload
 } from 'lucide-react';
 
+const DEFAULT_SCRIPT = '一个赛博朋克侦探走在霓虹闪烁的雨夜小巷里寻找线索。突然，他在水坑里发现了一个发光的微芯片。';
+const AUTOSAVE_DELAY = 800;
+const VIDEO_CLIP_SECONDS = 5;
+
+// Generation state a re-delivered shot keeps from the copy already on screen
+const SHOT_RUNTIME_FIELDS = ['imageUrl', 'videoUrl', 'videoJob', 'isLoading', 'isError'] as const;
+// Fields the shot image is generated from (see generateShotImage)
+const SHOT_IMAGE_FIELDS = ['sceneId', 'visualAction', 'dialogue', 'cameraAngle', 'img2vidPrompt', 'characterIds'] as const;
+
+// Project slices covered by undo/redo
+interface EditableState {
+  script: string;
+  characters: Character[];
+  scenes: Scene[];
+  shots: Shot[];
+}
+
+// Generation results that landed after a snapshot was taken should survive undo:
+// `fillKeys` are taken from the live item when the snapshot has none, `liveKeys` always are.
+const keepGenerated = <T extends { id: string; isLoading?: boolean }>(restored: T[], current: T[], fillKeys: (keyof T)[], liveKeys: (keyof T)[] = []): T[] =>
+  restored.map(item => {
+    const live = current.find(c => c.id === item.id);
+    if (!live) return { ...item, isLoading: false };
+    const merged: T = { ...item, isLoading: live.isLoading };
+    fillKeys.forEach(key => { if (merged[key] === undefined) merged[key] = live[key]; });
+    liveKeys.forEach(key => { merged[key] = live[key]; });
+    return merged;
+  });
+
 const App: React.FC = () => {
   const [step, setStep] = useState<AppStep>('IDLE');
   const [isLoading, setIsLoading] = useState(false);
@@ -47,10 +104,19 @@ const App: React.FC = () => {
   const [isZipping, setIsZipping] = useState(false);
   const [isSidebarOpen, setSidebarOpen] = useState(true);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isProjectListOpen, setIsProjectListOpen] = useState(false);
+  const [isPdfOpen, setIsPdfOpen] = useState(false);
+  const shotListInputRef = useRef<HTMLInputElement>(null);
+
+  const [projectId, setProjectId] = useState<string>(() => createProjectId());
+  const [projectCreatedAt, setProjectCreatedAt] = useState<number>(() => Date.now());
+  const [isHydrated, setIsHydrated] = useState(false);
   
-  const [script, setScript] = useState('一个赛博朋克侦探走在霓虹闪烁的雨夜小巷里寻找线索。突然，他在水坑里发现了一个发光的微芯片。');
-  const [previousScript, setPreviousScript] = useState<string | null>(null);
+  const [script, setScript] = useState(DEFAULT_SCRIPT);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isExpanding, setIsExpanding] = useState(false);
+  const scriptRef = useRef<HTMLTextAreaElement>(null);
+  const scriptInputRef = useRef<HTMLInputElement>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
@@ -58,18 +124,98 @@ const App: React.FC = () => {
   const [characters, setCharacters] = useState<Character[]>([]);
   const [scenes, setScenes] = useState<Scene[]>([]);
   const [shots, setShots] = useState<Shot[]>([]);
+  // Model sheet entries being generated, as `${characterId}:${key}`
+  const [sheetLoading, setSheetLoading] = useState<Set<string>>(new Set());
   
   const [currentGenre, setCurrentGenre] = useState<Genre>(Genre.CYBERPUNK);
   const [currentStyle, setCurrentStyle] = useState<VisualStyle>(VisualStyle.CINEMATIC_REALISM);
   const [currentRatio, setCurrentRatio] = useState<AspectRatio>(AspectRatio.LANDSCAPE);
   const [qualityMode, setQualityMode] = useState<QualityMode>('speed');
+  const [narratorVoice, setNarratorVoice] = useState<VoiceProfile>(DEFAULT_NARRATOR_VOICE);
+  const [audioMix, setAudioMix] = useState<AudioMix>(DEFAULT_AUDIO_MIX);
   
-  const isGeneratingRef = useRef(false);
+  const videoJobsRef = useRef<Map<string, AbortController>>(new Map());
+  const history = useHistory<EditableState>();
 
+  // Generation reads the shot's latest edits when it starts, falling back to the queued copy
+  const shotQueue = useShotQueue({
+    generate: (queued, seed, signal) => {
+      const shot = shots.find(s => s.id === queued.id) || queued;
+      return generateShotImage(shot, currentStyle, currentRatio, scenes, characters, seed, qualityMode, signal);
+    },
+    onStart: (id) => setShots(prev => prev.map(s => s.id === id ? { ...s, isLoading: true, isError: false } : s)),
+    onSuccess: (id, imageUrl) => setShots(prev => prev.map(s => s.id === id ? { ...s, isLoading: false, isError: false, imageUrl } : s)),
+    onFailure: (id) => setShots(prev => prev.map(s => s.id === id ? { ...s, isLoading: false, isError: true } : s)),
+    onCancel: (id) => setShots(prev => prev.map(s => s.id === id ? { ...s, isLoading: false } : s))
+  });
+
+  const applyProject = (project: ProjectData) => {
+    shotQueue.cancelAll();
+    videoJobsRef.current.forEach(controller => controller.abort());
+    videoJobsRef.current.clear();
+    setProjectId(project.id);
+    setProjectCreatedAt(project.createdAt);
+    setScript(project.script);
+    history.clear();
+    setProjectSeed(project.projectSeed);
+    setCurrentGenre(project.genre);
+    setCurrentStyle(project.style);
+    setCurrentRatio(project.aspectRatio);
+    setQualityMode(project.qualityMode);
+    setNarratorVoice(project.narratorVoice || DEFAULT_NARRATOR_VOICE);
+    setAudioMix(project.audioMix || DEFAULT_AUDIO_MIX);
+    setCharacters(project.characters);
+    setScenes(project.scenes);
+    setShots(project.shots);
+    setStep(project.step);
+    resumeVideoJobs(project.shots);
+  };
+
+  // Restore the last opened project, or start a fresh one. Unused media is
+  // cleared first, while no unsaved state can refer to it.
   useEffect(() => {
-    setProjectSeed(Math.floor(Math.random() * 100000));
+    sweepUnusedMedia()
+      .catch(e => console.error("Media cleanup failed", e))
+      .then(loadLastProject)
+      .then(project => {
+        if (project) applyProject(project);
+        else setProjectSeed(Math.floor(Math.random() * 100000));
+      })
+      .catch(e => {
+        console.error("Project restore failed", e);
+        setProjectSeed(Math.floor(Math.random() * 100000));
+      })
+      .finally(() => setIsHydrated(true));
   }, []);
 
+  const buildProjectData = (): ProjectData => ({
+    id: projectId,
+    name: deriveProjectName(script),
+    createdAt: projectCreatedAt,
+    updatedAt: Date.now(),
+    step,
+    script,
+    projectSeed,
+    genre: currentGenre,
+    style: currentStyle,
+    aspectRatio: currentRatio,
+    qualityMode,
+    narratorVoice,
+    audioMix,
+    characters,
+    scenes,
+    shots
+  });
+
+  // Autosave the full project state (debounced)
+  useEffect(() => {
+    if (!isHydrated) return;
+    const timer = setTimeout(() => {
+      saveProject(buildProjectData()).catch(e => console.error("Autosave failed", e));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [isHydrated, projectId, step, script, projectSeed, currentGenre, currentStyle, currentRatio, qualityMode, narratorVoice, audioMix, characters, scenes, shots]);
+
   const getAISettings = (): AISettings => {
     const saved = localStorage.getItem('manju_ai_settings');
     if (saved) return JSON.parse(saved);
@@ -85,13 +231,69 @@ const App: React.FC = () => {
       setTimeout(() => setErrorMsg(null), 5000);
   };
 
+  // --- Undo / Redo ---
+
+  const applyEditableState = (state: EditableState) => {
+    setScript(state.script);
+    setCharacters(prev => keepGenerated(state.characters, prev, ['imageUrl', 'modelSheet']));
+    setScenes(prev => keepGenerated(state.scenes, prev, ['imageUrl']));
+    setShots(prev => keepGenerated(state.shots, prev, ['imageUrl', 'videoUrl', 'audioUrl', 'audioText', 'audioVoice', 'audioDurationMs'], ['videoJob']));
+  };
+
+  const handleUndo = (steps = 1) => {
+    if (isExpanding) return;
+    const restored = history.undo({ script, characters, scenes, shots }, steps);
+    if (restored) applyEditableState(restored);
+  };
+
+  const handleRedo = (steps = 1) => {
+    if (isExpanding) return;
+    const restored = history.redo({ script, characters, scenes, shots }, steps);
+    if (restored) applyEditableState(restored);
+  };
+
+  const shortcutsRef = useRef({ undo: handleUndo, redo: handleRedo });
+  shortcutsRef.current = { undo: handleUndo, redo: handleRedo };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Form fields keep their native text undo; the script box is tracked by project history instead
+      const target = e.target as HTMLElement | null;
+      const isField = !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+      if (isField && target !== scriptRef.current) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        shortcutsRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        shortcutsRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handleScriptChange = (value: string) => {
+    history.record('编辑剧本', { script }, 'script');
+    setScript(value);
+  };
+
+  // Follow the streamed expansion
+  useEffect(() => {
+    if (isExpanding && scriptRef.current) scriptRef.current.scrollTop = scriptRef.current.scrollHeight;
+  }, [script, isExpanding]);
+
   const handleAIExpand = async () => {
     if (!script.trim() || isExpanding) return;
-    setPreviousScript(script);
+    history.record('AI 扩写', { script });
     setIsExpanding(true);
+    // Stream the continuation into the textarea as it is written
+    const base = script;
     try {
-        const expansion = await expandScript(script, currentGenre, getAISettings());
-        setScript(prev => prev + "\n\n" + expansion);
+        const expansion = await expandScript(base, currentGenre, getAISettings(), text => setScript(base + "\n\n" + text));
+        setScript(base + "\n\n" + expansion);
     } catch (e: any) {
         showError(e.message || "Expansion failed.");
     } finally {
@@ -99,10 +301,21 @@ const App: React.FC = () => {
     }
   };
 
-  const handleUndo = () => {
-    if (previousScript !== null) {
-      setScript(previousScript);
-      setPreviousScript(null);
+  // Screenplay files from writers; the converted text replaces the script
+  const handleImportScript = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const text = await importScreenplayFile(file);
+      if (!text.trim()) {
+        showError("剧本文件中没有可导入的内容");
+        return;
+      }
+      history.record('导入剧本', { script });
+      setScript(text);
+    } catch (err: any) {
+      showError(`剧本导入失败：${err.message || err}`);
     }
   };
 
@@ -112,10 +325,13 @@ const App: React.FC = () => {
     setProjectSeed(Math.floor(Math.random() * 100000));
     try {
       const settings = getAISettings();
+      // Cues and scene headings of a formatted screenplay seed the lists
+      const screenplay = parseScreenplay(script);
       setLoadingStep("正在提取角色设定...");
-      const chars = await analyzeCharacters(script, currentGenre, settings);
+      const chars = await analyzeCharacters(script, currentGenre, settings, screenplay?.characterNames);
       setLoadingStep("正在构建场景氛围...");
-      const extractedScenes = await analyzeScenes(script, currentGenre, settings);
+      const extractedScenes = await analyzeScenes(script, currentGenre, settings, screenplay?.sceneNames);
+      history.forget(['characters', 'scenes', 'shots']);
       setCharacters(chars);
       setScenes(extractedScenes);
       setStep('PRE_PRODUCTION');
@@ -134,85 +350,402 @@ const App: React.FC = () => {
     setIsLoading(true);
     try {
         setLoadingStep("导演正在规划分镜...");
-        const analysis = await analyzeScript(script, currentStyle, confirmedCharacters, confirmedScenes, getAISettings());
-        const initialShots: Shot[] = analysis.map(s => ({
-            ...s,
-            imageUrl: undefined,
-            videoUrl: undefined,
-            isLoading: false,
-            isError: false
-        }));
-        setShots(initialShots);
+        history.forget(['shots']);
+        setShots([]);
+        // Shots are shown and queued for images as soon as each one has streamed in.
+        // The final, validated result replaces the streamed content; a shot whose
+        // image fields changed on the way is queued again.
+        const queued = new Map<string, Shot>();
+        const receiveShots = (incoming: Shot[]) => {
+            setShots(prev => incoming.map(s => {
+                const existing = prev.find(p => p.id === s.id);
+                return existing ? { ...s, ...Object.fromEntries(SHOT_RUNTIME_FIELDS.map(key => [key, existing[key]])) } : s;
+            }));
+            const changed = incoming.filter(s => {
+                const previous = queued.get(s.id);
+                return !previous || SHOT_IMAGE_FIELDS.some(key => JSON.stringify(previous[key]) !== JSON.stringify(s[key]));
+            });
+            changed.forEach(s => queued.set(s.id, s));
+            if (changed.length) shotQueue.enqueue(changed.map(shot => ({ shot, seed: projectSeed })));
+        };
+        const screenplay = parseScreenplay(script);
+        const structure = screenplay ? describeScreenplay(screenplay, confirmedCharacters, confirmedScenes) : undefined;
+        const analysis = await analyzeScript(script, currentStyle, confirmedCharacters, confirmedScenes, getAISettings(), receiveShots, structure);
+        // Shots streamed in but missing from the validated result must not keep generating
+        const finalIds = new Set(analysis.map(s => s.id));
+        [...queued.keys()].filter(id => !finalIds.has(id)).forEach(id => {
+            shotQueue.cancel(id);
+            queued.delete(id);
+        });
+        receiveShots(analysis);
+        history.forget(['shots']);
         setIsLoading(false);
         setLoadingStep("");
-        processShotQueue(initialShots, confirmedCharacters, confirmedScenes);
     } catch (e: any) {
         showError(e.message || "Planning failed.");
         setIsLoading(false);
     }
   };
 
-  const processShotQueue = async (initialShots: Shot[], charCtx: Character[], sceneCtx: Scene[]) => {
-      isGeneratingRef.current = true;
-      for (let i = 0; i < initialShots.length; i++) {
-          if (!isGeneratingRef.current) break;
-          const shotId = initialShots[i].id;
-          setShots(prev => prev.map(s => s.id === shotId ? { ...s, isLoading: true } : s));
-          try {
-              const imageUrl = await generateShotImage(
-                  initialShots[i], 
-                  currentStyle, 
-                  currentRatio, 
-                  sceneCtx, 
-                  charCtx, 
-                  projectSeed, 
-                  qualityMode
-              );
-              setShots(prev => prev.map(s => s.id === shotId ? { ...s, isLoading: false, imageUrl } : s));
-          } catch (e) {
-              setShots(prev => prev.map(s => s.id === shotId ? { ...s, isLoading: false, isError: true } : s));
-          }
-      }
-      isGeneratingRef.current = false;
-  };
+  const shotLabel = (id: string) => `镜头 ${shots.findIndex(s => s.id === id) + 1}`;
 
   const handleUpdateShot = (id: string, updates: Partial<Shot>) => {
+      history.record(`编辑${shotLabel(id)}`, { shots }, `shot-${id}-${Object.keys(updates).join(',')}`);
       setShots(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
   };
   
+  const handleSuggestTransitions = () => {
+      const suggestions = suggestTransitions(shots);
+      history.record('自动转场', { shots });
+      setShots(prev => prev.map(s => s.id in suggestions ? { ...s, transition: suggestions[s.id] } : s));
+  };
+
+  // Bulk edits from a shot list sheet (CSV/XLSX) exported with the assets
+  const handleImportShotList = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const { updates, skipped } = applyShotList(await readShotListFile(file), shots, scenes, characters);
+          if (Object.keys(updates).length === 0) {
+              showError(skipped ? `镜头表中有 ${skipped} 行找不到对应镜头，没有可应用的修改` : "镜头表与当前分镜一致，没有修改");
+              return;
+          }
+          history.record('导入镜头表', { shots });
+          setShots(prev => prev.map(s => updates[s.id] ? { ...s, ...updates[s.id] } : s));
+          if (skipped) showError(`已跳过 ${skipped} 行找不到对应镜头的数据`);
+      } catch (err: any) {
+          showError(`镜头表导入失败：${err.message || err}`);
+      }
+  };
+  
   const handleRegenerateShot = (id: string) => {
       const targetShot = shots.find(s => s.id === id);
       if (!targetShot) return;
-      const promptToUse = targetShot.img2vidPrompt || targetShot.visualAction;
-      let anchorImage = "";
-      const matchedChar = characters.find(c => 
-          (targetShot.visualAction.includes(c.name) || (targetShot.dialogue && targetShot.dialogue.includes(c.name))) 
-      );
-      if (matchedChar && matchedChar.imageUrl && matchedChar.imageUrl.startsWith("http")) {
-          anchorImage = matchedChar.imageUrl;
+      history.record(`重新生成${shotLabel(id)}`, { shots });
+      // The current image stays until the new one arrives, so cancelling or failing keeps it
+      setShots(prev => prev.map(s => s.id === id ? { ...s, isError: false, isLoading: true } : s));
+      shotQueue.enqueue([{ shot: targetShot, seed: Math.floor(Math.random() * 1000000000) }]);
+  };
+
+  // --- Shot list editing ---
+
+  // Stop any generation still running for shots that are leaving the list
+  const releaseShots = (ids: string[]) => {
+      ids.forEach(id => {
+          shotQueue.cancel(id);
+          videoJobsRef.current.get(id)?.abort();
+          videoJobsRef.current.delete(id);
+      });
+  };
+
+  const handleInsertShot = async (afterId: string | null, useAI: boolean) => {
+      const index = afterId ? shots.findIndex(s => s.id === afterId) + 1 : 0;
+      const before = shots[index - 1];
+      const after = shots[index];
+      let shot = createBlankShot(before || after);
+      if (useAI) {
+          try {
+              const suggestion = await suggestShot(script, currentStyle, characters, before, after, getAISettings());
+              shot = { ...suggestion, id: createShotId(), isLoading: false, isError: false };
+          } catch (e: any) {
+              showError(e.message || "Shot suggestion failed.");
+              return;
+          }
       }
-      const newSeed = Math.floor(Math.random() * 1000000000);
-      const settings = QUALITY_CONFIG[qualityMode].sizes[currentRatio] || QUALITY_CONFIG[qualityMode].sizes[AspectRatio.SQUARE];
-      const model = QUALITY_CONFIG[qualityMode].model;
-      const fullPrompt = `((${currentStyle})), ${promptToUse}, cinematic lighting, masterpiece, 8k`;
-      const newUrl = getPollinationsUrl(fullPrompt, settings.w, settings.h, newSeed, model, anchorImage || undefined);
-      setShots(prev => prev.map(s => s.id === id ? { ...s, isLoading: true, imageUrl: undefined } : s));
-      setTimeout(() => {
-          setShots(prev => prev.map(s => s.id === id ? { ...s, imageUrl: newUrl, isLoading: false } : s));
-      }, 50);
+      history.record(`插入镜头 ${index + 1}`, { shots });
+      setShots(prev => {
+          // Neighbours may have moved while the suggestion was generating
+          const at = afterId ? prev.findIndex(s => s.id === afterId) + 1 : 0;
+          return [...prev.slice(0, at), shot, ...prev.slice(at)];
+      });
+      if (useAI) shotQueue.enqueue([{ shot, seed: projectSeed }]);
+  };
+
+  const handleDeleteShot = (id: string) => {
+      history.record(`删除${shotLabel(id)}`, { shots });
+      releaseShots([id]);
+      setShots(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleMoveShot = (id: string, toIndex: number) => {
+      const from = shots.findIndex(s => s.id === id);
+      if (from === -1 || from === toIndex) return;
+      history.record(`移动${shotLabel(id)}`, { shots });
+      setShots(prev => {
+          const next = prev.filter(s => s.id !== id);
+          next.splice(toIndex, 0, prev[from]);
+          return next;
+      });
+  };
+
+  const handleSplitShot = (id: string) => {
+      const shot = shots.find(s => s.id === id);
+      if (!shot) return;
+      history.record(`拆分${shotLabel(id)}`, { shots });
+      const [first, second] = splitShot(shot);
+      setShots(prev => prev.flatMap(s => s.id === id ? [{ ...first, isLoading: s.isLoading }, second] : [s]));
+      // Same prompt as the first half, so a fresh seed keeps it from rendering the identical frame
+      shotQueue.enqueue([{ shot: second, seed: Math.floor(Math.random() * 1000000000) }]);
+  };
+
+  // Merge a shot with the one after it
+  const handleMergeShot = (id: string) => {
+      const index = shots.findIndex(s => s.id === id);
+      const next = shots[index + 1];
+      if (index === -1 || !next) return;
+      history.record(`合并${shotLabel(id)}与下一镜`, { shots });
+      releaseShots([next.id]);
+      setShots(prev => prev
+          .filter(s => s.id !== next.id)
+          .map(s => s.id === id ? mergeShots(s, next) : s));
+  };
+
+  // --- Image-to-video jobs ---
+
+  const updateVideoJob = (shotId: string, updates: Partial<VideoJob>) => {
+      setShots(prev => prev.map(s => s.id === shotId && s.videoJob ? { ...s, videoJob: { ...s.videoJob, ...updates } } : s));
+  };
+
+  const trackVideoJob = async (shotId: string, job: VideoJob) => {
+      videoJobsRef.current.get(shotId)?.abort();
+      const controller = new AbortController();
+      videoJobsRef.current.set(shotId, controller);
+      try {
+          const clip = await waitForVideo(job.provider, job.operationId, progress => updateVideoJob(shotId, { status: 'running', progress }), controller.signal);
+          const videoUrl = await putMedia(clip);
+          setShots(prev => prev.map(s => s.id === shotId ? { ...s, videoUrl, videoJob: undefined } : s));
+      } catch (e: any) {
+          if (controller.signal.aborted) return;
+          updateVideoJob(shotId, { status: 'failed', error: e.message || "Video generation failed" });
+      } finally {
+          if (videoJobsRef.current.get(shotId) === controller) videoJobsRef.current.delete(shotId);
+      }
+  };
+
+  // Reattach to operations that were still running when the project was saved
+  const resumeVideoJobs = (projectShots: Shot[]) => {
+      projectShots.forEach(shot => {
+          const job = shot.videoJob;
+          if (!job || job.status === 'failed') return;
+          if (!job.operationId) updateVideoJob(shot.id, { status: 'failed', error: "Submission was interrupted" });
+          else trackVideoJob(shot.id, job);
+      });
+  };
+
+  const handleGenerateVideo = async (id: string) => {
+      const shot = shots.find(s => s.id === id);
+      if (!shot) return;
+      if (!shot.imageUrl) { showError("请先生成分镜画面再生成视频"); return; }
+      const settings = getVideoSettings();
+      const pending: VideoJob = { provider: settings.provider, operationId: '', status: 'queued', submittedAt: Date.now() };
+      setShots(prev => prev.map(s => s.id === id ? { ...s, videoJob: pending } : s));
+      try {
+          const operationId = await submitVideoJob({
+              imageUrl: shot.imageUrl,
+              prompt: shot.img2vidPrompt || shot.visualAction,
+              aspectRatio: currentRatio,
+              durationSeconds: VIDEO_CLIP_SECONDS
+          }, settings);
+          const job: VideoJob = { ...pending, operationId, status: 'running' };
+          setShots(prev => prev.map(s => s.id === id ? { ...s, videoJob: job } : s));
+          trackVideoJob(id, job);
+      } catch (e: any) {
+          updateVideoJob(id, { status: 'failed', error: e.message || "Video submission failed" });
+          showError(e.message || "Video submission failed.");
+      }
+  };
+
+  const handleCancelVideo = (id: string) => {
+      videoJobsRef.current.get(id)?.abort();
+      videoJobsRef.current.delete(id);
+      setShots(prev => prev.map(s => s.id === id ? { ...s, videoJob: undefined } : s));
+  };
+
+  // --- Dialogue audio ---
+
+  /**
+   * Synthesize and cache the voice clip of every listed shot (all when `ids` is null)
+   * whose line has no current clip. Resolves with the shot list including the new clips,
+   * since callers such as the export need them before the next render.
+   */
+  const voiceCast: VoiceCast = { characters, narrator: narratorVoice };
+
+  const handlePrepareAudio = async (ids: string[] | null, onProgress?: (done: number, total: number) => void): Promise<Shot[]> => {
+      const targets = shots.filter(s => (!ids || ids.includes(s.id)) && needsSpeech(s, voiceCast));
+      let updated = shots;
+      for (let i = 0; i < targets.length; i++) {
+          onProgress?.(i, targets.length);
+          const shot = targets[i];
+          const audio = await synthesizeShotAudio(shot, voiceCast);
+          // Drop the clip if the line was edited while it was being synthesized
+          setShots(prev => prev.map(s => s.id === shot.id && s.dialogue === shot.dialogue ? { ...s, ...audio } : s));
+          updated = updated.map(s => s.id === shot.id ? { ...s, ...audio } : s);
+      }
+      onProgress?.(targets.length, targets.length);
+      return updated;
+  };
+
+  // --- Soundtrack ---
+
+  // AI cues for shots and scenes, matched against the sound library; cues with a file already picked are kept.
+  const handleSuggestSoundtrack = async () => {
+      const [suggestions, library] = await Promise.all([suggestSoundCues(shots, scenes, currentGenre, getAISettings()), listSounds()]);
+      const toCue = (current: SoundCue | undefined, description: string | undefined, track: SoundTrack) => {
+          if (current?.url) return current;
+          return description?.trim() ? suggestCue(description.trim(), track, library) : current;
+      };
+      history.record('智能配乐', { shots, scenes });
+      setShots(prev => prev.map(s => {
+          const hit = suggestions.shots.find(item => item.shotId === s.id);
+          return hit ? { ...s, ambience: toCue(s.ambience, hit.ambience, 'ambience'), sfx: toCue(s.sfx, hit.sfx, 'sfx') } : s;
+      }));
+      setScenes(prev => prev.map(s => {
+          const hit = suggestions.scenes.find(item => item.sceneId === s.id);
+          return hit ? { ...s, bgm: toCue(s.bgm, hit.bgm, 'bgm') } : s;
+      }));
+  };
+
+  // --- Pre-production (characters & scenes) ---
+
+  const handleUpdateCharacter = (id: string, updates: Partial<Character>) => {
+      const name = characters.find(c => c.id === id)?.name || '';
+      history.record(`编辑角色 ${name}`, { characters }, `char-${id}-${Object.keys(updates).join(',')}`);
+      setCharacters(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
+  };
+
+  const handleUpdateScene = (id: string, updates: Partial<Scene>) => {
+      const name = scenes.find(s => s.id === id)?.name || '';
+      history.record(`编辑场景 ${name}`, { scenes }, `scene-${id}-${Object.keys(updates).join(',')}`);
+      setScenes(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
+  };
+
+  const handleGenerateCharacterImage = async (id: string, seed: number = projectSeed, refImage?: string) => {
+      const char = characters.find(c => c.id === id);
+      if (!char) return;
+      setCharacters(prev => prev.map(c => c.id === id ? { ...c, isLoading: true, imageUrl: undefined } : c));
+      try {
+          const imageUrl = await generateCharacterImage(char, currentStyle, seed, refImage);
+          setCharacters(prev => prev.map(c => c.id === id ? { ...c, isLoading: false, imageUrl } : c));
+      } catch (e) {
+          setCharacters(prev => prev.map(c => c.id === id ? { ...c, isLoading: false } : c));
+      }
+  };
+
+  const handleGenerateSceneImage = async (id: string, seed: number = projectSeed, refImage?: string) => {
+      const scene = scenes.find(s => s.id === id);
+      if (!scene) return;
+      setScenes(prev => prev.map(s => s.id === id ? { ...s, isLoading: true, imageUrl: undefined } : s));
+      try {
+          const imageUrl = await generateSceneImage(scene, currentStyle, seed, refImage);
+          setScenes(prev => prev.map(s => s.id === id ? { ...s, isLoading: false, imageUrl } : s));
+      } catch (e) {
+          setScenes(prev => prev.map(s => s.id === id ? { ...s, isLoading: false } : s));
+      }
+  };
+
+  const handleGenerateModelSheet = async (id: string) => {
+      const char = characters.find(c => c.id === id);
+      if (!char) return;
+      history.record(`生成设定图 ${char.name}`, { characters });
+      const loadingKeys = MODEL_SHEET_ENTRIES.map(e => `${id}:${e.key}`);
+      setSheetLoading(prev => new Set([...prev, ...loadingKeys]));
+      // One at a time, so the sheet fills in progressively without flooding the provider
+      for (const entry of MODEL_SHEET_ENTRIES) {
+          try {
+              const url = await generateModelSheetImage(char, entry.key, currentStyle, projectSeed);
+              setCharacters(prev => prev.map(c => c.id === id ? { ...c, modelSheet: { ...c.modelSheet, [entry.key]: url } } : c));
+          } catch (e: any) {
+              console.error(`Model sheet ${entry.key} failed`, e);
+          } finally {
+              setSheetLoading(prev => {
+                  const next = new Set(prev);
+                  next.delete(`${id}:${entry.key}`);
+                  return next;
+              });
+          }
+      }
+  };
+
+  const handleRegenerateCharacter = (id: string) => {
+      const char = characters.find(c => c.id === id);
+      if (!char) return;
+      history.record(`刷新角色图片 ${char.name}`, { characters });
+      let refImage = char.imageUrl;
+      if (refImage && refImage.includes("placehold")) refImage = undefined;
+      handleGenerateCharacterImage(id, Math.floor(Math.random() * 1000000000), refImage);
+  };
+
+  const handleRegenerateScene = (id: string) => {
+      const scene = scenes.find(s => s.id === id);
+      if (!scene) return;
+      history.record(`刷新场景图片 ${scene.name}`, { scenes });
+      let refImage = scene.imageUrl;
+      if (refImage && refImage.includes("placehold")) refImage = undefined;
+      handleGenerateSceneImage(id, Math.floor(Math.random() * 1000000000), refImage);
   };
 
   const handleGlobalReset = () => {
-    isGeneratingRef.current = false;
+    shotQueue.cancelAll();
+    videoJobsRef.current.forEach(controller => controller.abort());
+    videoJobsRef.current.clear();
     setStep('IDLE');
+    setNarratorVoice(DEFAULT_NARRATOR_VOICE);
+    setAudioMix(DEFAULT_AUDIO_MIX);
     setCharacters([]);
     setScenes([]);
     setShots([]);
-    setPreviousScript(null);
+    history.clear();
   };
   
+  const handleOpenProject = async (id: string) => {
+    setIsProjectListOpen(false);
+    if (id === projectId) return;
+    try {
+      const project = await loadProject(id);
+      if (project) applyProject(project);
+      else showError("Project not found.");
+    } catch (e: any) {
+      showError(e.message || "Failed to open project.");
+    }
+  };
+
+  const handleNewProject = () => {
+    setIsProjectListOpen(false);
+    handleGlobalReset();
+    setProjectId(createProjectId());
+    setProjectCreatedAt(Date.now());
+    setScript(DEFAULT_SCRIPT);
+    setProjectSeed(Math.floor(Math.random() * 100000));
+  };
+
+  const handleExportProject = async () => {
+    setIsZipping(true);
+    try {
+        const project = buildProjectData();
+        const content = await exportProjectArchive(project);
+        const url = URL.createObjectURL(content);
+        const a = document.createElement('a'); a.href = url; a.download = `${project.name}${ARCHIVE_EXTENSION}`; a.click();
+        // Revoking in the same task can cancel the download before it starts
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e: any) { showError(e.message || "Project export failed"); }
+    finally { setIsZipping(false); }
+  };
+
+  const handleImportProject = async (file: File) => {
+    setIsProjectListOpen(false);
+    try {
+        const imported = await importProjectArchive(file);
+        const project: ProjectData = { ...imported, id: createProjectId(), updatedAt: Date.now() };
+        await saveProject(project);
+        applyProject(project);
+    } catch (e: any) {
+        showError(e.message || "Project import failed");
+    }
+  };
+
   const handleBack = () => {
-      if (step === 'STORYBOARD') { setStep('PRE_PRODUCTION'); isGeneratingRef.current = false; }
+      if (step === 'STORYBOARD') { setStep('PRE_PRODUCTION'); shotQueue.cancelAll(); }
       else if (step === 'PRE_PRODUCTION') { setStep('IDLE'); }
   };
 
@@ -223,14 +756,32 @@ const App: React.FC = () => {
         const folder = zip.folder("manju_storyboard");
         const scriptContent = shots.map((s, i) => `[Shot ${i+1}]\n${s.dialogue || ''}\n${s.visualAction}`).join('\n\n');
         folder?.file("script.txt", scriptContent);
+        folder?.file("shot_list.csv", toShotListCsv(shots, scenes, characters));
+        folder?.file("shot_list.xlsx", await toShotListXlsx(shots, scenes, characters));
+        // Caption files timed like the exported video
+        const { width, height } = getExportSize(currentRatio);
+        SUBTITLE_FORMATS.forEach(({ value }) => folder?.file(`subtitles.${value}`, buildSubtitleFile(value, shots, width, height)));
+        // Each shot's clip (or else its still) is what the editable timelines link to
+        const media: Record<string, TimelineMedia | undefined> = {};
         const promises = shots.map(async (shot, i) => {
+            const baseName = getShotFileName(i);
             if (shot.imageUrl) {
                 const response = await fetch(shot.imageUrl);
                 const blob = await response.blob();
-                folder?.file(`shot_${String(i + 1).padStart(2, '0')}.png`, blob);
+                folder?.file(`${baseName}.png`, blob);
+                media[shot.id] = { path: `${baseName}.png`, isStill: true };
+            }
+            if (shot.videoUrl) {
+                const response = await fetch(await resolveMediaUrl(shot.videoUrl));
+                const blob = await response.blob();
+                const path = `${baseName}.${blob.type.includes('webm') ? 'webm' : 'mp4'}`;
+                folder?.file(path, blob);
+                media[shot.id] = { path, isStill: false, durationMs: await readVideoDuration(blob) };
             }
         });
         await Promise.all(promises);
+        const sequence = buildTimelineSequence(deriveProjectName(script), shots, scenes, media, width, height);
+        TIMELINE_FORMATS.forEach(({ value, extension }) => folder?.file(`timeline.${extension}`, buildTimelineFile(value, sequence)));
         const content = await zip.generateAsync({ type: "blob" });
         const url = URL.createObjectURL(content);
         const a = document.createElement('a'); a.href = url; a.download = "storyboard.zip"; a.click();
@@ -242,7 +793,16 @@ const App: React.FC = () => {
       return (
           <VideoEditor 
             storyboard={shots} 
+            scenes={scenes}
             aspectRatio={currentRatio}
+            onUpdateShot={handleUpdateShot}
+            onUpdateScene={handleUpdateScene}
+            onSuggestTransitions={handleSuggestTransitions}
+            onPrepareAudio={handlePrepareAudio}
+            voiceCast={voiceCast}
+            audioMix={audioMix}
+            onUpdateAudioMix={setAudioMix}
+            onSuggestSoundtrack={handleSuggestSoundtrack}
             onBack={() => setStep('STORYBOARD')} 
           />
       );
@@ -273,18 +833,17 @@ const App: React.FC = () => {
                 </div>
                 <div className="flex-1 relative group">
                     <textarea 
+                        ref={scriptRef}
                         value={script}
-                        onChange={(e) => setScript(e.target.value)}
-                        disabled={isExpanding}
-                        className={`w-full h-full bg-transparent p-6 text-sm leading-relaxed resize-none focus:outline-none focus:bg-neutral-900/80 transition-colors text-neutral-300 placeholder-neutral-600 font-mono ${isExpanding ? 'opacity-50 blur-[1px]' : ''}`}
+                        onChange={(e) => handleScriptChange(e.target.value)}
+                        readOnly={isExpanding}
+                        className="w-full h-full bg-transparent p-6 text-sm leading-relaxed resize-none focus:outline-none focus:bg-neutral-900/80 transition-colors text-neutral-300 placeholder-neutral-600 font-mono"
                         placeholder="在此输入您的剧本..."
                     />
                     {isExpanding && (
-                      <div className="absolute inset-0 flex items-center justify-center bg-black/20 backdrop-blur-sm z-10">
-                        <div className="flex flex-col items-center gap-2 text-purple-400 animate-pulse">
-                          <Sparkles className="w-6 h-6" />
-                          <span className="text-xs font-bold tracking-widest">AI 扩写中...</span>
-                        </div>
+                      <div className="absolute top-3 right-3 flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-purple-900/60 border border-purple-500/30 text-purple-300 backdrop-blur z-10 animate-pulse">
+                        <Sparkles className="w-3 h-3" />
+                        <span className="text-[10px] font-bold tracking-widest">AI 扩写中...</span>
                       </div>
                     )}
                 </div>
@@ -292,9 +851,16 @@ const App: React.FC = () => {
                     <button onClick={handleAIExpand} disabled={isExpanding || !script.trim()} className="flex-1 py-2 px-3 rounded-lg bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white text-xs font-bold flex items-center justify-center gap-2 shadow-lg disabled:opacity-50 transition-all">
                       {isExpanding ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />} AI 扩写
                     </button>
-                    <button onClick={handleUndo} disabled={!previousScript || isExpanding} className="px-3 py-2 rounded-lg border border-neutral-700 hover:bg-neutral-800 text-neutral-400 hover:text-white text-xs font-bold flex items-center gap-1 disabled:opacity-30 transition-colors">
+                    <button onClick={() => scriptInputRef.current?.click()} disabled={isExpanding} className="px-3 py-2 rounded-lg border border-neutral-700 hover:bg-neutral-800 text-neutral-400 hover:text-white text-xs font-bold flex items-center gap-1 disabled:opacity-30 transition-colors" title="导入剧本 (Fountain / Final Draft / Word)">
+                      <Upload className="w-3 h-3" /> 导入
+                    </button>
+                    <input ref={scriptInputRef} type="file" accept={SCREENPLAY_FILE_ACCEPT} className="hidden" onChange={handleImportScript} />
+                    <button onClick={() => handleUndo()} disabled={!history.canUndo || isExpanding} className="px-3 py-2 rounded-lg border border-neutral-700 hover:bg-neutral-800 text-neutral-400 hover:text-white text-xs font-bold flex items-center gap-1 disabled:opacity-30 transition-colors" title="撤销 (Ctrl+Z)">
                       <Undo2 className="w-3 h-3" /> 撤销
                     </button>
+                    <button onClick={() => handleRedo()} disabled={!history.canRedo || isExpanding} className="px-3 py-2 rounded-lg border border-neutral-700 hover:bg-neutral-800 text-neutral-400 hover:text-white text-xs font-bold flex items-center gap-1 disabled:opacity-30 transition-colors" title="重做 (Ctrl+Shift+Z)">
+                      <Redo2 className="w-3 h-3" /> 重做
+                    </button>
                 </div>
             </div>
 
@@ -363,7 +929,30 @@ const App: React.FC = () => {
                     )}
                 </div>
 
-                <div className="flex items-center gap-3">
+                <div className="flex items-center gap-3 relative">
+                    <button
+                        onClick={() => setIsHistoryOpen(prev => !prev)}
+                        className={`p-2 hover:text-white hover:bg-neutral-800 rounded-full transition-colors flex items-center justify-center border border-neutral-800 ${isHistoryOpen ? 'text-white bg-neutral-800' : 'text-neutral-400'}`}
+                        title="历史记录"
+                    >
+                        <History size={20} />
+                    </button>
+                    {isHistoryOpen && (
+                        <HistoryPanel
+                            past={history.past}
+                            future={history.future}
+                            onUndo={handleUndo}
+                            onRedo={handleRedo}
+                            onClose={() => setIsHistoryOpen(false)}
+                        />
+                    )}
+                    <button
+                        onClick={() => setIsProjectListOpen(true)}
+                        className="p-2 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors flex items-center justify-center border border-neutral-800"
+                        title="最近项目"
+                    >
+                        <FolderOpen size={20} />
+                    </button>
                     <button
                         onClick={() => setIsSettingsOpen(true)}
                         className="p-2 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors flex items-center justify-center bg-red-900/10 border border-red-500/20"
@@ -373,12 +962,19 @@ const App: React.FC = () => {
                     </button>
                     {step === 'STORYBOARD' && (
                          <>
-                            <button onClick={() => setStep('VIDEO_PREVIEW')} className="flex items-center gap-2 text-xs font-bold text-blue-400 hover:text-blue-300 px-3 py-1.5 rounded hover:bg-blue-900/20 border border-blue-900/20 transition-all shadow-[0_0_10px_rgba(59,130,246,0.2)]">
+                            <button onClick={() => setStep('VIDEO_PREVIEW')} disabled={shots.length === 0} className="flex items-center gap-2 text-xs font-bold text-blue-400 hover:text-blue-300 px-3 py-1.5 rounded hover:bg-blue-900/20 border border-blue-900/20 transition-all shadow-[0_0_10px_rgba(59,130,246,0.2)] disabled:opacity-40 disabled:pointer-events-none">
                                 <Film className="w-3 h-3" />🎬 生成样片
                             </button>
                             <button onClick={handleDownloadAll} disabled={isZipping} className="flex items-center gap-2 text-xs font-bold text-green-500 hover:text-green-400 disabled:opacity-50 px-3 py-1.5 rounded hover:bg-green-900/10 transition-colors">
                                 {isZipping ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}导出资产
                             </button>
+                            <button onClick={() => shotListInputRef.current?.click()} className="flex items-center gap-2 text-xs font-bold text-green-500 hover:text-green-400 px-3 py-1.5 rounded hover:bg-green-900/10 transition-colors" title="导入在 Excel 中编辑过的 shot_list.csv / shot_list.xlsx">
+                                <Upload className="w-3 h-3" />导入镜头表
+                            </button>
+                            <input ref={shotListInputRef} type="file" accept=".csv,.xlsx" className="hidden" onChange={handleImportShotList} />
+                            <button onClick={() => setIsPdfOpen(true)} className="flex items-center gap-2 text-xs font-bold text-green-500 hover:text-green-400 px-3 py-1.5 rounded hover:bg-green-900/10 transition-colors" title="可打印的分镜表">
+                                <FileText className="w-3 h-3" />分镜 PDF
+                            </button>
                         </>
                     )}
                     {step !== 'IDLE' && (
@@ -393,11 +989,22 @@ const App: React.FC = () => {
                 {step === 'IDLE' && <SetupPhase onStart={() => {}} isLoading={false} />}
                 {step === 'PRE_PRODUCTION' && (
                     <CharacterPhase 
+                        key={projectId}
                         characters={characters}
                         scenes={scenes}
                         style={currentStyle}
                         isLoading={isLoading}
                         onConfirm={handleConfirmPreProduction}
+                        onUpdateCharacter={handleUpdateCharacter}
+                        onUpdateScene={handleUpdateScene}
+                        onGenerateCharacterImage={handleGenerateCharacterImage}
+                        onGenerateSceneImage={handleGenerateSceneImage}
+                        onRegenerateCharacter={handleRegenerateCharacter}
+                        onGenerateModelSheet={handleGenerateModelSheet}
+                        sheetLoading={sheetLoading}
+                        narratorVoice={narratorVoice}
+                        onUpdateNarratorVoice={setNarratorVoice}
+                        onRegenerateScene={handleRegenerateScene}
                         onPreviewImage={setPreviewImage}
                         projectSeed={projectSeed}
                         aspectRatio={currentRatio}
@@ -408,10 +1015,22 @@ const App: React.FC = () => {
                 {step === 'STORYBOARD' && (
                     <StoryboardPhase 
                         shots={shots}
+                        characters={characters}
+                        isPlanning={isLoading}
                         style={currentStyle}
                         aspectRatio={currentRatio}
                         onUpdateShot={handleUpdateShot}
                         onRegenerateShot={handleRegenerateShot}
+                        shotTasks={shotQueue.tasks}
+                        onCancelShot={shotQueue.cancel}
+                        onInsertShot={handleInsertShot}
+                        onDeleteShot={handleDeleteShot}
+                        onMoveShot={handleMoveShot}
+                        onSplitShot={handleSplitShot}
+                        onMergeShot={handleMergeShot}
+                        onGenerateVideo={handleGenerateVideo}
+                        onCancelVideo={handleCancelVideo}
+                        onPrepareAudio={handlePrepareAudio}
                         onBack={() => setStep('PRE_PRODUCTION')}
                         onPreviewImage={setPreviewImage}
                         projectSeed={projectSeed}
@@ -419,6 +1038,14 @@ const App: React.FC = () => {
                         settings={getAISettings()}
                     />
                 )}
+                {step === 'STORYBOARD' && shotQueue.counts.total > 0 && (
+                    <ShotQueuePanel
+                        counts={shotQueue.counts}
+                        onRetryFailed={shotQueue.retryFailed}
+                        onCancelAll={shotQueue.cancelAll}
+                        onDismiss={shotQueue.clearFinished}
+                    />
+                )}
              </div>
         </div>
 
@@ -427,6 +1054,23 @@ const App: React.FC = () => {
         onClose={() => setIsSettingsOpen(false)}
       />
 
+      <ProjectListModal
+        isOpen={isProjectListOpen}
+        currentProjectId={projectId}
+        onClose={() => setIsProjectListOpen(false)}
+        onOpenProject={handleOpenProject}
+        onNewProject={handleNewProject}
+        onImportProject={handleImportProject}
+        onExportProject={handleExportProject}
+        isExporting={isZipping}
+      />
+
+      <StoryboardPdfModal
+        isOpen={isPdfOpen}
+        project={{ title: deriveProjectName(script), genre: currentGenre, style: currentStyle, aspectRatio: currentRatio, characters, scenes, shots }}
+        onClose={() => setIsPdfOpen(false)}
+      />
+
     </div>
   );
 };
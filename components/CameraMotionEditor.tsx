@@ -0,0 +1,120 @@
+import React from 'react';
+import { AspectRatio, CameraMotion, CropRect, MotionEasing, Shot } from '../types';
+import { EASING_OPTIONS, MIN_CROP_SIZE, MOTION_PRESETS, cropAround, getShotMotion } from '../services/cameraMotion';
+
+interface CameraMotionEditorProps {
+  shot: Shot;
+  imageUrl: string;
+  aspectRatio: AspectRatio;
+  // `undefined` returns the shot to the move derived from its camera angle
+  onChange: (motion: CameraMotion | undefined) => void;
+  disabled?: boolean;
+}
+
+const sameRect = (a: CropRect, b: CropRect) =>
+  (['x', 'y', 'width', 'height'] as const).every(k => Math.abs(a[k] - b[k]) < 0.001);
+
+const sameMotion = (a: CameraMotion, b: CameraMotion) =>
+  a.easing === b.easing && sameRect(a.start, b.start) && sameRect(a.end, b.end);
+
+const RECT_STYLES = {
+  start: { label: '起始', border: 'border-green-400', text: 'text-green-400' },
+  end: { label: '结束', border: 'border-red-400', text: 'text-red-400' }
+};
+
+// Start/end crop rectangles of a shot's Ken Burns move, drawn over the still.
+export const CameraMotionEditor: React.FC<CameraMotionEditorProps> = ({ shot, imageUrl, aspectRatio, onChange, disabled }) => {
+  const motion = getShotMotion(shot);
+  const activePreset = MOTION_PRESETS.find(p => sameMotion(p.motion, motion))?.key;
+
+  const updateRect = (which: 'start' | 'end', changes: { cx?: number; cy?: number; size?: number }) => {
+    const rect = motion[which];
+    const size = changes.size ?? rect.width;
+    const cx = changes.cx ?? rect.x + rect.width / 2;
+    const cy = changes.cy ?? rect.y + rect.height / 2;
+    onChange({ ...motion, [which]: cropAround(cx, cy, size) });
+  };
+
+  const slider = (label: string, value: number, min: number, max: number, onInput: (v: number) => void, display: string) => (
+    <label className="flex items-center gap-2 text-[10px] text-neutral-500">
+      <span className="w-6 shrink-0">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={0.01}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onInput(parseFloat(e.target.value))}
+        className="flex-1 accent-blue-500 disabled:opacity-50"
+      />
+      <span className="w-9 text-right font-mono text-neutral-400">{display}</span>
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      {/* Frame with both crop rectangles */}
+      <div className="relative w-full bg-black rounded-lg border border-neutral-800 overflow-hidden" style={{ aspectRatio: aspectRatio.replace(':', '/') }}>
+        <img src={imageUrl} className="w-full h-full object-cover opacity-60" alt="motion" />
+        {(['start', 'end'] as const).map(which => {
+          const rect = motion[which];
+          return (
+            <div
+              key={which}
+              className={`absolute border-2 ${RECT_STYLES[which].border} rounded-sm pointer-events-none`}
+              style={{ left: `${rect.x * 100}%`, top: `${rect.y * 100}%`, width: `${rect.width * 100}%`, height: `${rect.height * 100}%` }}
+            >
+              <span className={`absolute top-0.5 left-1 text-[9px] font-bold ${RECT_STYLES[which].text}`}>{RECT_STYLES[which].label}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        <button
+          onClick={() => onChange(undefined)}
+          disabled={disabled}
+          className={`px-2 py-0.5 rounded text-[10px] border transition-colors disabled:opacity-50 ${!shot.cameraMotion ? 'bg-blue-600 border-blue-500 text-white' : 'border-neutral-700 text-neutral-400 hover:text-white'}`}
+          title={`按机位自动: ${shot.cameraAngle || '-'}`}
+        >
+          自动
+        </button>
+        {MOTION_PRESETS.map(preset => (
+          <button
+            key={preset.key}
+            onClick={() => onChange(preset.motion)}
+            disabled={disabled}
+            className={`px-2 py-0.5 rounded text-[10px] border transition-colors disabled:opacity-50 ${shot.cameraMotion && activePreset === preset.key ? 'bg-blue-600 border-blue-500 text-white' : 'border-neutral-700 text-neutral-400 hover:text-white'}`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {(['start', 'end'] as const).map(which => {
+        const rect = motion[which];
+        return (
+          <div key={which} className="space-y-1">
+            <div className={`text-[10px] font-bold ${RECT_STYLES[which].text}`}>{RECT_STYLES[which].label}画面</div>
+            {slider('缩放', 1 / rect.width, 1, 1 / MIN_CROP_SIZE, v => updateRect(which, { size: 1 / v }), `${(1 / rect.width).toFixed(2)}x`)}
+            {slider('水平', rect.x + rect.width / 2, 0, 1, v => updateRect(which, { cx: v }), `${Math.round((rect.x + rect.width / 2) * 100)}%`)}
+            {slider('垂直', rect.y + rect.height / 2, 0, 1, v => updateRect(which, { cy: v }), `${Math.round((rect.y + rect.height / 2) * 100)}%`)}
+          </div>
+        );
+      })}
+
+      <label className="flex items-center gap-2 text-[10px] text-neutral-500">
+        <span className="shrink-0">缓动</span>
+        <select
+          value={motion.easing}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...motion, easing: e.target.value as MotionEasing })}
+          className="flex-1 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-neutral-300 focus:outline-none focus:border-blue-500"
+        >
+          {EASING_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
@@ -1,14 +1,28 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Character, Scene, VisualStyle, AspectRatio, AISettings } from '../types';
-import { Users, User, Check, RotateCcw, Loader2, Map as MapIcon, Maximize2, AlertTriangle, ArrowDown } from 'lucide-react';
-import { generateCharacterImage, generateSceneImage, optimizePrompt } from '../services/geminiService';
+import { Character, Scene, VisualStyle, AspectRatio, AISettings, VoiceProfile } from '../types';
+import { Users, User, Check, RotateCcw, Loader2, Map as MapIcon, Maximize2, AlertTriangle, ArrowDown, LayoutGrid, Mic } from 'lucide-react';
+import { optimizePrompt } from '../services/geminiService';
+import { MODEL_SHEET_ENTRIES } from '../services/modelSheet';
+import { getCharacterVoice } from '../services/voiceCasting';
+import { VoiceControls } from './VoiceControls';
 
 interface PreProductionPhaseProps {
   characters: Character[];
   scenes: Scene[];
   style: VisualStyle;
   onConfirm: (updatedCharacters: Character[], updatedScenes: Scene[]) => void;
+  onUpdateCharacter: (id: string, updates: Partial<Character>) => void;
+  onUpdateScene: (id: string, updates: Partial<Scene>) => void;
+  onGenerateCharacterImage: (id: string) => void;
+  onGenerateSceneImage: (id: string) => void;
+  onRegenerateCharacter: (id: string) => void;
+  onRegenerateScene: (id: string) => void;
+  onGenerateModelSheet: (id: string) => void;
+  // `${characterId}:${key}` of model sheet entries being generated
+  sheetLoading: Set<string>;
+  narratorVoice: VoiceProfile;
+  onUpdateNarratorVoice: (voice: VoiceProfile) => void;
   isLoading: boolean;
   onPreviewImage: (url: string) => void;
   projectSeed: number; 
@@ -61,10 +75,20 @@ const ImageWithLoader: React.FC<{ src: string; alt: string; isLoading?: boolean
 };
 
 export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({ 
-  characters: initialCharacters, 
-  scenes: initialScenes,
+  characters, 
+  scenes,
   style,
   onConfirm, 
+  onUpdateCharacter,
+  onUpdateScene,
+  onGenerateCharacterImage,
+  onGenerateSceneImage,
+  onRegenerateCharacter,
+  onRegenerateScene,
+  onGenerateModelSheet,
+  sheetLoading,
+  narratorVoice,
+  onUpdateNarratorVoice,
   isLoading,
   onPreviewImage,
   projectSeed,
@@ -74,8 +98,6 @@ export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({
   settings
 }) => {
   const [activeTab, setActiveTab] = useState<'CHARACTERS' | 'SCENES'>('CHARACTERS');
-  const [characters, setCharacters] = useState<Character[]>(initialCharacters);
-  const [scenes, setScenes] = useState<Scene[]>(initialScenes);
   const mountedRef = useRef(false);
   const [optimizingId, setOptimizingId] = useState<string | null>(null);
 
@@ -90,47 +112,21 @@ export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({
     if (!mountedRef.current) {
         mountedRef.current = true;
         characters.forEach(char => {
-            if (!char.imageUrl) handleGenerateCharImage(char.id, char.description_zh, projectSeed); 
+            if (!char.imageUrl) onGenerateCharacterImage(char.id); 
         });
         scenes.forEach(scene => {
-            if (!scene.imageUrl) handleGenerateSceneImage(scene.id, scene.description_zh, projectSeed);
+            if (!scene.imageUrl) onGenerateSceneImage(scene.id);
         });
     }
   }, []);
 
-  const handleGenerateCharImage = async (id: string, desc: string, seed: number, refImage?: string) => {
-      setCharacters(prev => prev.map(c => c.id === id ? { ...c, isLoading: true, imageUrl: undefined } : c));
-      try {
-          const char = characters.find(c => c.id === id);
-          if (char) {
-            const imageUrl = await generateCharacterImage(char, style, seed, refImage);
-            setCharacters(prev => prev.map(c => c.id === id ? { ...c, isLoading: false, imageUrl } : c));
-          }
-      } catch (e) {
-          setCharacters(prev => prev.map(c => c.id === id ? { ...c, isLoading: false } : c));
-      }
-  };
-
-  const handleGenerateSceneImage = async (id: string, desc: string, seed: number, refImage?: string) => {
-      setScenes(prev => prev.map(s => s.id === id ? { ...s, isLoading: true, imageUrl: undefined } : s));
-      try {
-          const scene = scenes.find(s => s.id === id);
-          if (scene) {
-            const imageUrl = await generateSceneImage(scene, style, seed, refImage);
-            setScenes(prev => prev.map(s => s.id === id ? { ...s, isLoading: false, imageUrl } : s));
-          }
-      } catch (e) {
-          setScenes(prev => prev.map(s => s.id === id ? { ...s, isLoading: false } : s));
-      }
-  };
-
   const handleOptimizeChar = async (id: string, text: string) => {
       if (!apiKey) return; 
       setOptimizingId(id);
       try {
           // Fixed: optimizePrompt expects settings as the second argument
           const optimized = await optimizePrompt(text, settings);
-          setCharacters(prev => prev.map(c => c.id === id ? { ...c, prompt_en: optimized } : c));
+          onUpdateCharacter(id, { prompt_en: optimized });
       } catch (e) {
           console.error(e);
       } finally {
@@ -144,7 +140,7 @@ export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({
       try {
           // Fixed: optimizePrompt expects settings as the second argument
           const optimized = await optimizePrompt(text, settings);
-          setScenes(prev => prev.map(s => s.id === id ? { ...s, prompt_en: optimized } : s));
+          onUpdateScene(id, { prompt_en: optimized });
       } catch (e) {
           console.error(e);
       } finally {
@@ -152,22 +148,6 @@ export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({
       }
   };
 
-  const handleManualRegenerateChar = (id: string, desc: string) => {
-      const char = characters.find(c => c.id === id);
-      let refImage = char?.imageUrl;
-      if (refImage && refImage.includes("placehold")) refImage = undefined;
-      const newSeed = Math.floor(Math.random() * 1000000000);
-      handleGenerateCharImage(id, desc, newSeed, refImage);
-  };
-
-  const handleManualRegenerateScene = (id: string, desc: string) => {
-      const scene = scenes.find(s => s.id === id);
-      let refImage = scene?.imageUrl;
-      if (refImage && refImage.includes("placehold")) refImage = undefined;
-      const newSeed = Math.floor(Math.random() * 1000000000);
-      handleGenerateSceneImage(id, desc, newSeed, refImage);
-  };
-
   const getAspectRatioClass = () => {
     return aspectRatio === AspectRatio.PORTRAIT ? 'aspect-[9/16]' : 'aspect-video';
   };
@@ -200,6 +180,18 @@ export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({
       <div className="flex-1 overflow-y-auto mb-6 pr-2">
         {activeTab === 'CHARACTERS' && (
             <div className="flex flex-col gap-4">
+            {/* 旁白配音 */}
+            <div className="bg-[#1e1e1e] p-4 rounded-xl border border-gray-800 mb-2 shadow-lg">
+                <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-white font-bold flex items-center gap-2">
+                        <Mic className="w-4 h-4 text-purple-400" />
+                        旁白 (Narrator)
+                    </h3>
+                    <span className="text-[10px] text-gray-500">未标明说话人的对白都由旁白朗读</span>
+                </div>
+                <VoiceControls voice={narratorVoice} onChange={onUpdateNarratorVoice} sampleText="很久很久以前，在一座繁华的城市里，故事开始了。" />
+            </div>
+
             {characters.map((char) => {
                 const displayImage = char.imageUrl || getMockImage(char.id, 'char');
                 return (
@@ -214,7 +206,7 @@ export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({
                             </div>
                         </div>
                         <button 
-                            onClick={(e) => { e.stopPropagation(); handleManualRegenerateChar(char.id, char.description_zh); }}
+                            onClick={(e) => { e.stopPropagation(); onRegenerateCharacter(char.id); }}
                             className="w-full py-2 bg-gray-800 hover:bg-gray-700 text-xs text-white rounded border border-gray-700 flex items-center justify-center gap-2 transition-colors"
                         >
                             <RotateCcw className="w-3.5 h-3.5" /> 刷新图片
@@ -248,7 +240,7 @@ export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({
                             </div>
                             <textarea 
                                 value={char.description_zh} 
-                                onChange={(e) => setCharacters(prev => prev.map(c => c.id === char.id ? {...c, description_zh: e.target.value} : c))} 
+                                onChange={(e) => onUpdateCharacter(char.id, { description_zh: e.target.value })} 
                                 className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm h-24 resize-none focus:outline-none focus:border-blue-500 text-gray-300"
                                 placeholder="角色中文描述..."
                             />
@@ -259,11 +251,62 @@ export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({
                              <label className="text-xs text-gray-400 mb-1 block">英文提示词 (AI Prompt)</label>
                              <textarea 
                                 value={char.prompt_en}
-                                onChange={(e) => setCharacters(prev => prev.map(c => c.id === char.id ? {...c, prompt_en: e.target.value} : c))}
+                                onChange={(e) => onUpdateCharacter(char.id, { prompt_en: e.target.value })}
                                 className="w-full bg-black/40 border border-gray-800 rounded p-2 text-xs text-gray-400 font-mono h-32 resize-none focus:border-blue-500/50 outline-none"
                                 placeholder="Flux Prompt..."
                              />
                         </div>
+
+                        {/* 设定图 */}
+                        <div className="mt-3">
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-xs text-gray-400 flex items-center gap-1"><LayoutGrid className="w-3 h-3" /> 设定图 (Model Sheet)</label>
+                                <button
+                                    onClick={() => onGenerateModelSheet(char.id)}
+                                    disabled={MODEL_SHEET_ENTRIES.some(e => sheetLoading.has(`${char.id}:${e.key}`))}
+                                    className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-40 flex items-center gap-1"
+                                >
+                                    <RotateCcw className="w-3 h-3" />
+                                    {char.modelSheet ? '重新生成' : '生成三视图与表情'}
+                                </button>
+                            </div>
+                            <div className="grid grid-cols-7 gap-1.5">
+                                {MODEL_SHEET_ENTRIES.map(entry => {
+                                    const url = char.modelSheet?.[entry.key];
+                                    const loading = sheetLoading.has(`${char.id}:${entry.key}`);
+                                    return (
+                                        <div key={entry.key} className="flex flex-col gap-0.5">
+                                            <div
+                                                className={`aspect-square rounded overflow-hidden border border-gray-800 bg-black/40 ${url ? 'cursor-pointer hover:border-blue-500/50' : ''}`}
+                                                onClick={() => url && onPreviewImage(url)}
+                                            >
+                                                {url ? (
+                                                    <ImageWithLoader src={url} alt={`${char.name} ${entry.label}`} isLoading={loading} />
+                                                ) : (
+                                                    <div className="w-full h-full flex items-center justify-center text-gray-700">
+                                                        {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <User className="w-4 h-4" />}
+                                                    </div>
+                                                )}
+                                            </div>
+                                            <span className="text-[10px] text-gray-500 text-center">{entry.label}</span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+
+                        {/* 配音 */}
+                        <div className="mt-3">
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-xs text-gray-400 flex items-center gap-1"><Mic className="w-3 h-3" /> 配音 (Voice)</label>
+                                {!char.voice && <span className="text-[10px] text-gray-600">按角色描述自动分配</span>}
+                            </div>
+                            <VoiceControls
+                                voice={getCharacterVoice(char)}
+                                onChange={(voice) => onUpdateCharacter(char.id, { voice })}
+                                sampleText={`我是${char.name}，很高兴见到你。`}
+                            />
+                        </div>
                     </div>
                 </div>
             )})}
@@ -287,7 +330,7 @@ export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({
                         </div>
 
                         <button 
-                            onClick={(e) => { e.stopPropagation(); handleManualRegenerateScene(scene.id, scene.description_zh); }}
+                            onClick={(e) => { e.stopPropagation(); onRegenerateScene(scene.id); }}
                             className="w-full py-2 bg-gray-800 hover:bg-gray-700 text-xs text-white rounded border border-gray-700 flex items-center justify-center gap-2 transition-colors"
                         >
                             <RotateCcw className="w-3.5 h-3.5" /> 刷新图片
@@ -321,7 +364,7 @@ export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({
                             </div>
                             <textarea 
                                 value={scene.description_zh} 
-                                onChange={(e) => setScenes(prev => prev.map(s => s.id === scene.id ? {...s, description_zh: e.target.value} : s))} 
+                                onChange={(e) => onUpdateScene(scene.id, { description_zh: e.target.value })} 
                                 className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm h-24 resize-none focus:outline-none focus:border-green-500 text-gray-300"
                                 placeholder="场景中文描述..."
                             />
@@ -332,7 +375,7 @@ export const CharacterPhase: React.FC<PreProductionPhaseProps> = ({
                             <label className="text-xs text-gray-400 mb-1 block">英文提示词 (AI Prompt)</label>
                             <textarea 
                                 value={scene.prompt_en}
-                                onChange={(e) => setScenes(prev => prev.map(s => s.id === scene.id ? {...s, prompt_en: e.target.value} : s))}
+                                onChange={(e) => onUpdateScene(scene.id, { prompt_en: e.target.value })}
                                 className="w-full bg-black/40 border border-gray-800 rounded p-2 text-xs text-gray-400 font-mono h-32 resize-none focus:border-green-500/50 outline-none"
                                 placeholder="Edit Scene Prompt..."
                             />
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { Timer, RotateCcw } from 'lucide-react';
+import { Shot } from '../types';
+import { clampDuration, estimateShotDuration, formatSeconds } from '../services/timing';
+
+interface DurationInputProps {
+  shot: Shot;
+  // `undefined` returns the shot to the estimated duration
+  onChange: (durationMs: number | undefined) => void;
+  disabled?: boolean;
+}
+
+// Seconds field for a shot's screen time; commits on blur or Enter, empty means automatic.
+export const DurationInput: React.FC<DurationInputProps> = ({ shot, onChange, disabled }) => {
+  const [draft, setDraft] = useState(shot.durationMs ? formatSeconds(shot.durationMs) : '');
+
+  useEffect(() => {
+    setDraft(shot.durationMs ? formatSeconds(shot.durationMs) : '');
+  }, [shot.durationMs]);
+
+  const commit = () => {
+    const seconds = parseFloat(draft);
+    const next = draft.trim() && Number.isFinite(seconds) && seconds > 0 ? clampDuration(seconds * 1000) : undefined;
+    if (next === shot.durationMs) {
+      setDraft(next ? formatSeconds(next) : '');
+      return;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-[10px] font-mono text-neutral-400" title={shot.durationMs ? '手动设置的时长' : '按对白长度自动估算'}>
+      <Timer className="w-3 h-3 text-neutral-500" />
+      <input
+        type="number"
+        min={0.5}
+        max={60}
+        step={0.1}
+        value={draft}
+        placeholder={formatSeconds(estimateShotDuration(shot))}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        className={`w-12 bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-right focus:outline-none focus:border-blue-500 disabled:opacity-50 ${shot.durationMs ? 'text-white' : 'text-neutral-500'}`}
+      />
+      <span>s</span>
+      {shot.durationMs && !disabled && (
+        <button onClick={() => onChange(undefined)} className="text-neutral-500 hover:text-white transition-colors" title={`恢复自动 (${formatSeconds(estimateShotDuration(shot))}s)`}>
+          <RotateCcw className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+};
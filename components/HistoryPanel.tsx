@@ -0,0 +1,64 @@
+import React from 'react';
+import { History, Undo2, Redo2, X, Circle } from 'lucide-react';
+import { HistoryEntry } from '../hooks/useHistory';
+
+interface HistoryPanelProps {
+  past: HistoryEntry<any>[];
+  future: HistoryEntry<any>[];
+  onUndo: (steps: number) => void;
+  onRedo: (steps: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Dropdown listing the edit history; clicking an entry rewinds/replays up to it.
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ past, future, onUndo, onRedo, onClose }) => {
+  return (
+    <div className="absolute right-0 top-12 w-72 bg-neutral-900 border border-neutral-800 rounded-xl shadow-2xl z-[200] overflow-hidden animate-fade-in">
+      <div className="px-4 py-2.5 border-b border-neutral-800 flex items-center justify-between text-neutral-400">
+        <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider">
+          <History className="w-3.5 h-3.5" /> 历史记录
+        </div>
+        <button onClick={onClose} className="p-1 rounded hover:bg-neutral-800 hover:text-white transition-colors"><X className="w-3.5 h-3.5" /></button>
+      </div>
+      <div className="max-h-80 overflow-y-auto py-1 text-xs">
+        {/* Redo-able entries, furthest first */}
+        {future.map((entry, idx) => (
+          <button
+            key={`f-${entry.id}`}
+            onClick={() => onRedo(future.length - idx)}
+            className="w-full px-4 py-1.5 flex items-center justify-between gap-2 text-neutral-600 hover:bg-neutral-800 hover:text-neutral-300 transition-colors"
+            title="重做至此"
+          >
+            <span className="flex items-center gap-2 truncate"><Redo2 className="w-3 h-3 shrink-0" />{entry.label}</span>
+          </button>
+        ))}
+
+        <div className="px-4 py-1.5 flex items-center gap-2 text-blue-400 font-bold">
+          <Circle className="w-2.5 h-2.5 fill-current" /> 当前状态
+        </div>
+
+        {/* Undo-able entries, newest first */}
+        {[...past].reverse().map((entry, idx) => (
+          <button
+            key={`p-${entry.id}`}
+            onClick={() => onUndo(idx + 1)}
+            className="w-full px-4 py-1.5 flex items-center justify-between gap-2 text-neutral-300 hover:bg-neutral-800 hover:text-white transition-colors"
+            title="撤销至此之前"
+          >
+            <span className="flex items-center gap-2 truncate"><Undo2 className="w-3 h-3 shrink-0 text-neutral-500" />{entry.label}</span>
+            <span className="font-mono text-[10px] text-neutral-600 shrink-0">{formatTime(entry.timestamp)}</span>
+          </button>
+        ))}
+
+        {past.length === 0 && future.length === 0 && (
+          <div className="px-4 py-6 text-center text-neutral-600">暂无编辑记录</div>
+        )}
+      </div>
+      <div className="px-4 py-2 border-t border-neutral-800 text-[10px] text-neutral-600 font-mono">
+        Ctrl+Z 撤销 · Ctrl+Shift+Z 重做
+      </div>
+    </div>
+  );
+};
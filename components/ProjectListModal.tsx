@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, FolderOpen, Plus, Trash2, Loader2, Clock, Upload, PackageOpen } from 'lucide-react';
+import { AppStep, ProjectSummary } from '../types';
+import { listProjects, deleteProject } from '../services/projectStore';
+
+interface ProjectListModalProps {
+  isOpen: boolean;
+  currentProjectId: string;
+  onClose: () => void;
+  onOpenProject: (id: string) => void;
+  onNewProject: () => void;
+  onImportProject: (file: File) => void;
+  onExportProject: () => void;
+  isExporting: boolean;
+}
+
+const STEP_LABELS: Record<AppStep, string> = {
+  IDLE: '剧本编写',
+  PRE_PRODUCTION: '角色定妆',
+  STORYBOARD: '分镜绘制',
+  VIDEO_PREVIEW: '样片预览'
+};
+
+const ProjectListModal: React.FC<ProjectListModalProps> = ({ isOpen, currentProjectId, onClose, onOpenProject, onNewProject, onImportProject, onExportProject, isExporting }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImportProject(file);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    listProjects()
+      .then(setProjects)
+      .catch(e => console.error("Failed to list projects", e))
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("确定删除该项目？此操作无法撤销。")) return;
+    await deleteProject(id);
+    setProjects(prev => prev.filter(p => p.id !== id));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[500] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-fade-in">
+      <div className="w-full max-w-lg bg-neutral-900 border border-neutral-800 rounded-2xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-neutral-800 flex items-center justify-between bg-neutral-900/50">
+          <div className="flex items-center gap-2">
+            <FolderOpen className="w-5 h-5 text-blue-500" />
+            <h3 className="text-lg font-bold text-white tracking-tight">最近项目 / Recent Projects</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-full hover:bg-neutral-800 text-neutral-500 hover:text-white transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-2 max-h-[60vh] overflow-y-auto">
+          {isLoading && (
+            <div className="flex items-center justify-center py-10 text-neutral-500">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          )}
+          {!isLoading && projects.length === 0 && (
+            <div className="text-center text-sm text-neutral-600 py-10">暂无本地项目</div>
+          )}
+          {!isLoading && projects.map(project => (
+            <div
+              key={project.id}
+              onClick={() => onOpenProject(project.id)}
+              className={`group flex items-center justify-between gap-3 p-3 rounded-xl border cursor-pointer transition-all ${project.id === currentProjectId ? 'bg-blue-600/10 border-blue-500/50' : 'bg-neutral-800/50 border-neutral-700 hover:border-neutral-600'}`}
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-bold text-neutral-200 truncate">{project.name}</div>
+                <div className="flex items-center gap-2 mt-1 text-[10px] text-neutral-500 font-mono">
+                  <Clock className="w-3 h-3" />
+                  {new Date(project.updatedAt).toLocaleString()}
+                  <span className="px-1.5 py-0.5 rounded bg-neutral-900 border border-neutral-700">{STEP_LABELS[project.step]}</span>
+                  <span>{project.shotCount} 镜</span>
+                </div>
+              </div>
+              {project.id !== currentProjectId && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(project.id); }}
+                  className="p-1.5 rounded text-neutral-600 hover:text-red-400 hover:bg-red-950/30 opacity-0 group-hover:opacity-100 transition-all"
+                  title="删除项目"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-neutral-950/50 border-t border-neutral-800 flex justify-between gap-3">
+          <div className="flex gap-2">
+            <button
+              onClick={onNewProject}
+              className="px-4 py-2 bg-neutral-800 hover:bg-neutral-700 text-neutral-200 text-sm font-bold rounded-lg border border-neutral-700 transition-colors flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" /> 新建项目
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-2 bg-neutral-800 hover:bg-neutral-700 text-neutral-200 text-sm font-bold rounded-lg border border-neutral-700 transition-colors flex items-center gap-2"
+              title="导入 .manju 项目包"
+            >
+              <Upload className="w-4 h-4" /> 导入
+            </button>
+            <button
+              onClick={onExportProject}
+              disabled={isExporting}
+              className="px-3 py-2 bg-neutral-800 hover:bg-neutral-700 text-neutral-200 text-sm font-bold rounded-lg border border-neutral-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+              title="导出当前项目为 .manju 项目包"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <PackageOpen className="w-4 h-4" />} 导出
+            </button>
+            <input ref={fileInputRef} type="file" accept=".manju,.zip" className="hidden" onChange={handleFileChange} />
+          </div>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-neutral-500 hover:text-white text-sm font-bold transition-colors"
+          >
+            关闭
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectListModal;
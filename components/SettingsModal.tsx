@@ -1,16 +1,51 @@
 
 import React, { useEffect, useState } from 'react';
-import { X, Settings, Key, Info, ExternalLink, ShieldCheck, Zap, Globe, Cpu, Eye, EyeOff } from 'lucide-react';
-import { AISettings, AIProvider } from '../types';
+import { X, Settings, Key, Info, ExternalLink, ShieldCheck, Zap, Globe, Cpu, Eye, EyeOff, Image as ImageIcon, Clapperboard } from 'lucide-react';
+import { AISettings, AIProvider, ImageSettings, ImageProviderType, VideoSettings, VideoProviderType } from '../types';
+import { getImageSettings } from '../services/imageProviders';
+import { getVideoSettings } from '../services/videoProviders';
+import { KeyedProvider, getSavedApiKey, hasApiKey, saveApiKey } from '../services/apiKeys';
+
+const AI_PROVIDER_OPTIONS: { id: AIProvider; label: string; baseUrl: string; modelName: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', baseUrl: '', modelName: 'gemini-3-flash-preview' },
+  { id: 'openai', label: 'OpenAI (Compatible)', baseUrl: 'https://api.openai.com/v1', modelName: 'gpt-4o' },
+  { id: 'anthropic', label: 'Anthropic Claude', baseUrl: 'https://api.anthropic.com', modelName: 'claude-sonnet-4-5' },
+  { id: 'ollama', label: 'Ollama (本地)', baseUrl: 'http://127.0.0.1:11434', modelName: 'qwen2.5' }
+];
+
+const IMAGE_PROVIDER_OPTIONS: { id: ImageProviderType; label: string; baseUrl: string; modelPlaceholder: string }[] = [
+  { id: 'pollinations', label: 'Pollinations', baseUrl: '', modelPlaceholder: '留空则按画质模式选择 (flux-schnell / flux / flux-realism)' },
+  { id: 'comfyui', label: 'ComfyUI', baseUrl: 'http://127.0.0.1:8188', modelPlaceholder: 'sd_xl_base_1.0.safetensors' },
+  { id: 'automatic1111', label: 'Automatic1111', baseUrl: 'http://127.0.0.1:7860', modelPlaceholder: '留空则使用 WebUI 当前模型' },
+  { id: 'openai', label: 'OpenAI (Images)', baseUrl: 'https://api.openai.com/v1', modelPlaceholder: 'gpt-image-1' },
+  { id: 'stub', label: '离线占位 (Stub)', baseUrl: '', modelPlaceholder: '' }
+];
+
+const VIDEO_PROVIDER_OPTIONS: { id: VideoProviderType; label: string; baseUrl: string; modelPlaceholder: string }[] = [
+  { id: 'veo', label: 'Google Veo', baseUrl: '', modelPlaceholder: 'veo-2.0-generate-001' },
+  { id: 'http', label: '自建服务 (HTTP)', baseUrl: 'http://127.0.0.1:8000', modelPlaceholder: '可选，由后端解释' },
+  { id: 'stub', label: '离线占位 (Stub)', baseUrl: '', modelPlaceholder: '' }
+];
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+const KEY_LABELS: Record<KeyedProvider, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic'
+};
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
   const [showKey, setShowKey] = useState(false);
-  const [apiKey, setApiKey] = useState(() => localStorage.getItem('manju_api_key') || '');
+  // Keys as typed, saved per provider on confirm
+  const [apiKeys, setApiKeys] = useState<Record<KeyedProvider, string>>(() => ({
+    gemini: getSavedApiKey('gemini'),
+    openai: getSavedApiKey('openai'),
+    anthropic: getSavedApiKey('anthropic')
+  }));
   const [settings, setSettings] = useState<AISettings>(() => {
     const saved = localStorage.getItem('manju_ai_settings');
     if (saved) return JSON.parse(saved);
@@ -21,13 +56,37 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
     };
   });
 
+  const [imageSettings, setImageSettings] = useState<ImageSettings>(getImageSettings);
+
   const saveSettings = (newSettings: AISettings) => {
     setSettings(newSettings);
     localStorage.setItem('manju_ai_settings', JSON.stringify(newSettings));
   };
 
+  const saveImageSettings = (newSettings: ImageSettings) => {
+    setImageSettings(newSettings);
+    localStorage.setItem('manju_image_settings', JSON.stringify(newSettings));
+  };
+
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>(getVideoSettings);
+
+  const saveVideoSettings = (newSettings: VideoSettings) => {
+    setVideoSettings(newSettings);
+    localStorage.setItem('manju_video_settings', JSON.stringify(newSettings));
+  };
+
+  const activeAIProvider = AI_PROVIDER_OPTIONS.find(o => o.id === settings.provider) || AI_PROVIDER_OPTIONS[0];
+  const activeVideoProvider = VIDEO_PROVIDER_OPTIONS.find(o => o.id === videoSettings.provider) || VIDEO_PROVIDER_OPTIONS[0];
+  const activeImageProvider = IMAGE_PROVIDER_OPTIONS.find(o => o.id === imageSettings.provider) || IMAGE_PROVIDER_OPTIONS[0];
+
+  // The text provider's key, plus Gemini's, which speech and Veo always use
+  const keyFields: { provider: KeyedProvider; hint: string }[] = [
+    ...(hasApiKey(settings.provider) ? [{ provider: settings.provider, hint: '' }] : []),
+    ...(settings.provider !== 'gemini' ? [{ provider: 'gemini' as const, hint: '（语音合成与 Veo 视频）' }] : [])
+  ];
+
   const handleSaveAll = () => {
-    localStorage.setItem('manju_api_key', apiKey);
+    (Object.keys(apiKeys) as KeyedProvider[]).forEach(provider => saveApiKey(provider, apiKeys[provider]));
     // Ensure the process.env syncs if needed, though the app reads from localStorage or state usually
     onClose();
     // Refresh page to ensure all services pick up the new key if they don't use reactive state
@@ -61,23 +120,28 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
             <label className="text-xs font-bold text-neutral-500 uppercase tracking-widest flex items-center gap-2">
               <Key size={14} /> API 密钥 (API Key)
             </label>
-            <div className="relative">
-              <input 
-                type={showKey ? "text" : "password"}
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 pr-12 text-sm text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all font-mono"
-                placeholder="在此输入您的 API Key..."
-              />
-              <button 
-                onClick={() => setShowKey(!showKey)}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-neutral-500 hover:text-neutral-300 transition-colors"
-              >
-                {showKey ? <EyeOff size={18} /> : <Eye size={18} />}
-              </button>
-            </div>
+            {keyFields.map(({ provider, hint }) => (
+              <div key={provider} className="space-y-1.5">
+                <div className="text-[10px] font-bold text-neutral-600 uppercase tracking-wider">{KEY_LABELS[provider]}{hint}</div>
+                <div className="relative">
+                  <input 
+                    type={showKey ? "text" : "password"}
+                    value={apiKeys[provider]}
+                    onChange={(e) => setApiKeys({ ...apiKeys, [provider]: e.target.value })}
+                    className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 pr-12 text-sm text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all font-mono"
+                    placeholder={`在此输入您的 ${KEY_LABELS[provider]} API Key...`}
+                  />
+                  <button 
+                    onClick={() => setShowKey(!showKey)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-neutral-500 hover:text-neutral-300 transition-colors"
+                  >
+                    {showKey ? <EyeOff size={18} /> : <Eye size={18} />}
+                  </button>
+                </div>
+              </div>
+            ))}
             <p className="text-[10px] text-neutral-500 leading-relaxed">
-              密钥将安全地保存在您的浏览器本地。
+              密钥将安全地保存在您的浏览器本地，每个服务商单独保存。
             </p>
           </div>
 
@@ -90,24 +154,26 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
             </label>
             
             <div className="grid grid-cols-2 gap-2">
-              <button
-                onClick={() => saveSettings({ ...settings, provider: 'gemini', modelName: 'gemini-3-flash-preview' })}
-                className={`p-3 rounded-xl border text-sm font-bold transition-all ${settings.provider === 'gemini' ? 'bg-blue-600/10 border-blue-500 text-blue-400' : 'bg-neutral-800/50 border-neutral-700 text-neutral-500 hover:border-neutral-600'}`}
-              >
-                Google Gemini
-              </button>
-              <button
-                onClick={() => saveSettings({ ...settings, provider: 'openai', baseUrl: 'https://api.openai.com/v1', modelName: 'gpt-4o' })}
-                className={`p-3 rounded-xl border text-sm font-bold transition-all ${settings.provider === 'openai' ? 'bg-blue-600/10 border-blue-500 text-blue-400' : 'bg-neutral-800/50 border-neutral-700 text-neutral-500 hover:border-neutral-600'}`}
-              >
-                OpenAI (Compatible)
-              </button>
+              {AI_PROVIDER_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => saveSettings({ ...settings, provider: option.id, baseUrl: option.baseUrl, modelName: option.modelName })}
+                  className={`p-3 rounded-xl border text-sm font-bold transition-all ${settings.provider === option.id ? 'bg-blue-600/10 border-blue-500 text-blue-400' : 'bg-neutral-800/50 border-neutral-700 text-neutral-500 hover:border-neutral-600'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
             </div>
+            {settings.provider === 'ollama' && (
+              <p className="text-[10px] text-neutral-500 leading-relaxed">
+                Ollama 无需 API Key。浏览器直连需以 OLLAMA_ORIGINS=* 启动服务。
+              </p>
+            )}
           </div>
 
           {/* Model Configuration */}
           <div className="space-y-4">
-             {settings.provider === 'openai' && (
+             {settings.provider !== 'gemini' && (
                 <div className="space-y-2">
                   <label className="text-[10px] font-bold text-neutral-600 uppercase tracking-wider flex items-center gap-1">
                     <Globe size={12} /> 接口地址 (Base URL)
@@ -117,7 +183,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                     value={settings.baseUrl}
                     onChange={(e) => saveSettings({ ...settings, baseUrl: e.target.value })}
                     className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-2.5 text-xs text-neutral-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                    placeholder="https://api.openai.com/v1"
+                    placeholder={activeAIProvider.baseUrl}
                   />
                 </div>
              )}
@@ -131,11 +197,153 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                   value={settings.modelName}
                   onChange={(e) => saveSettings({ ...settings, modelName: e.target.value })}
                   className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-2.5 text-xs text-neutral-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                  placeholder={settings.provider === 'gemini' ? 'gemini-3-flash-preview' : 'gpt-4o'}
+                  placeholder={activeAIProvider.modelName}
                 />
              </div>
           </div>
 
+          <div className="h-px bg-neutral-800 w-full" />
+
+          {/* Image Provider Section */}
+          <div className="space-y-4">
+            <label className="text-xs font-bold text-neutral-500 uppercase tracking-widest flex items-center gap-2">
+              <ImageIcon size={14} /> 图像生成服务 (Image Provider)
+            </label>
+
+            <div className="grid grid-cols-2 gap-2">
+              {IMAGE_PROVIDER_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => saveImageSettings({ ...imageSettings, provider: option.id, baseUrl: option.baseUrl, modelName: '' })}
+                  className={`p-3 rounded-xl border text-sm font-bold transition-all ${imageSettings.provider === option.id ? 'bg-blue-600/10 border-blue-500 text-blue-400' : 'bg-neutral-800/50 border-neutral-700 text-neutral-500 hover:border-neutral-600'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {(imageSettings.provider === 'comfyui' || imageSettings.provider === 'automatic1111' || imageSettings.provider === 'openai') && (
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-neutral-600 uppercase tracking-wider flex items-center gap-1">
+                  <Globe size={12} /> 接口地址 (Base URL)
+                </label>
+                <input 
+                  type="text"
+                  value={imageSettings.baseUrl}
+                  onChange={(e) => saveImageSettings({ ...imageSettings, baseUrl: e.target.value })}
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-2.5 text-xs text-neutral-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  placeholder={activeImageProvider.baseUrl}
+                />
+              </div>
+            )}
+
+            {imageSettings.provider === 'openai' && (
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-neutral-600 uppercase tracking-wider flex items-center gap-1">
+                  <Key size={12} /> 图像 API Key
+                </label>
+                <input 
+                  type="password"
+                  value={imageSettings.apiKey || ''}
+                  onChange={(e) => saveImageSettings({ ...imageSettings, apiKey: e.target.value })}
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-2.5 text-xs text-neutral-200 focus:outline-none focus:ring-1 focus:ring-blue-500 font-mono"
+                  placeholder="OpenAI 图像接口的密钥"
+                />
+              </div>
+            )}
+
+            {imageSettings.provider !== 'stub' && (
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-neutral-600 uppercase tracking-wider flex items-center gap-1">
+                  <Cpu size={12} /> 图像模型 (Image Model)
+                </label>
+                <input 
+                  type="text"
+                  value={imageSettings.modelName}
+                  onChange={(e) => saveImageSettings({ ...imageSettings, modelName: e.target.value })}
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-2.5 text-xs text-neutral-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  placeholder={activeImageProvider.modelPlaceholder}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-neutral-600 uppercase tracking-wider">并发数 (Concurrency)</label>
+                <input 
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={imageSettings.concurrency}
+                  onChange={(e) => saveImageSettings({ ...imageSettings, concurrency: Math.min(8, Math.max(1, Number(e.target.value) || 1)) })}
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-2.5 text-xs text-neutral-200 focus:outline-none focus:ring-1 focus:ring-blue-500 font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-neutral-600 uppercase tracking-wider">失败重试 (Retries)</label>
+                <input 
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={imageSettings.maxRetries}
+                  onChange={(e) => saveImageSettings({ ...imageSettings, maxRetries: Math.min(10, Math.max(0, Number(e.target.value) || 0)) })}
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-2.5 text-xs text-neutral-200 focus:outline-none focus:ring-1 focus:ring-blue-500 font-mono"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="h-px bg-neutral-800 w-full" />
+
+          {/* Video Provider Section */}
+          <div className="space-y-4">
+            <label className="text-xs font-bold text-neutral-500 uppercase tracking-widest flex items-center gap-2">
+              <Clapperboard size={14} /> 图生视频服务 (Video Provider)
+            </label>
+
+            <div className="grid grid-cols-3 gap-2">
+              {VIDEO_PROVIDER_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => saveVideoSettings({ ...videoSettings, provider: option.id, baseUrl: option.baseUrl, modelName: '' })}
+                  className={`p-3 rounded-xl border text-xs font-bold transition-all ${videoSettings.provider === option.id ? 'bg-blue-600/10 border-blue-500 text-blue-400' : 'bg-neutral-800/50 border-neutral-700 text-neutral-500 hover:border-neutral-600'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {videoSettings.provider === 'http' && (
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-neutral-600 uppercase tracking-wider flex items-center gap-1">
+                  <Globe size={12} /> 接口地址 (Base URL)
+                </label>
+                <input 
+                  type="text"
+                  value={videoSettings.baseUrl}
+                  onChange={(e) => saveVideoSettings({ ...videoSettings, baseUrl: e.target.value })}
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-2.5 text-xs text-neutral-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  placeholder={activeVideoProvider.baseUrl}
+                />
+              </div>
+            )}
+
+            {videoSettings.provider !== 'stub' && (
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-neutral-600 uppercase tracking-wider flex items-center gap-1">
+                  <Cpu size={12} /> 视频模型 (Video Model)
+                </label>
+                <input 
+                  type="text"
+                  value={videoSettings.modelName}
+                  onChange={(e) => saveVideoSettings({ ...videoSettings, modelName: e.target.value })}
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-2.5 text-xs text-neutral-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  placeholder={activeVideoProvider.modelPlaceholder}
+                />
+              </div>
+            )}
+          </div>
+
           <div className="p-4 bg-blue-900/10 rounded-xl border border-blue-500/20 space-y-2">
              <div className="flex items-center gap-2 text-blue-400 font-bold text-xs">
                 <Info size={14} /> 提示
@@ -143,6 +351,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
              <p className="text-[11px] text-neutral-400 leading-relaxed">
                如果使用 Google Gemini，请确保您的 API Key 具有访问选定模型的权限。
              </p>
+             <p className="text-[11px] text-neutral-400 leading-relaxed">
+               使用本地 ComfyUI / Automatic1111 时，请开启 API 与跨域访问 (如 --api --cors-allow-origins / --enable-cors-header)。
+             </p>
           </div>
         </div>
 
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Layers, Loader2, AlertTriangle, CheckCircle2, RotateCcw, X, Clock } from 'lucide-react';
+
+interface ShotQueuePanelProps {
+  counts: { total: number; queued: number; running: number; retrying: number; failed: number; done: number };
+  onRetryFailed: () => void;
+  onCancelAll: () => void;
+  onDismiss: () => void;
+}
+
+// Floating progress card for the shot generation queue.
+export const ShotQueuePanel: React.FC<ShotQueuePanelProps> = ({ counts, onRetryFailed, onCancelAll, onDismiss }) => {
+  const pending = counts.queued + counts.running + counts.retrying;
+  const percent = counts.total ? Math.round(((counts.done + counts.failed) / counts.total) * 100) : 0;
+
+  return (
+    <div className="absolute bottom-6 right-6 w-72 bg-neutral-900/95 border border-neutral-800 rounded-xl shadow-2xl z-30 backdrop-blur animate-fade-in">
+      <div className="px-4 py-2.5 border-b border-neutral-800 flex items-center justify-between text-neutral-400">
+        <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider">
+          {pending > 0 ? <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-400" /> : <Layers className="w-3.5 h-3.5" />}
+          分镜生成队列
+        </div>
+        <span className="font-mono text-[10px]">{counts.done}/{counts.total}</span>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="h-1.5 rounded-full bg-neutral-800 overflow-hidden">
+          <div className={`h-full transition-all duration-500 ${counts.failed ? 'bg-gradient-to-r from-blue-500 to-red-500' : 'bg-blue-500'}`} style={{ width: `${percent}%` }} />
+        </div>
+
+        <div className="grid grid-cols-4 gap-2 text-center text-[10px]">
+          <div className="flex flex-col items-center gap-1 text-neutral-400"><Clock className="w-3.5 h-3.5" /><span className="font-mono text-sm font-bold">{counts.queued}</span>排队</div>
+          <div className="flex flex-col items-center gap-1 text-blue-400"><Loader2 className="w-3.5 h-3.5" /><span className="font-mono text-sm font-bold">{counts.running + counts.retrying}</span>生成中</div>
+          <div className="flex flex-col items-center gap-1 text-red-400"><AlertTriangle className="w-3.5 h-3.5" /><span className="font-mono text-sm font-bold">{counts.failed}</span>失败</div>
+          <div className="flex flex-col items-center gap-1 text-green-400"><CheckCircle2 className="w-3.5 h-3.5" /><span className="font-mono text-sm font-bold">{counts.done}</span>完成</div>
+        </div>
+
+        {counts.retrying > 0 && (
+          <p className="text-[10px] text-yellow-500/80 text-center">{counts.retrying} 个镜头加载失败，正在退避重试...</p>
+        )}
+
+        <div className="flex gap-2">
+          {counts.failed > 0 && (
+            <button onClick={onRetryFailed} className="flex-1 py-1.5 rounded-lg bg-red-900/20 border border-red-900/40 text-red-400 hover:bg-red-900/40 text-[11px] font-bold flex items-center justify-center gap-1 transition-colors">
+              <RotateCcw className="w-3 h-3" /> 重试失败
+            </button>
+          )}
+          {pending > 0 ? (
+            <button onClick={onCancelAll} className="flex-1 py-1.5 rounded-lg border border-neutral-700 text-neutral-400 hover:bg-neutral-800 hover:text-white text-[11px] font-bold flex items-center justify-center gap-1 transition-colors">
+              <X className="w-3 h-3" /> 全部取消
+            </button>
+          ) : (
+            <button onClick={onDismiss} className="flex-1 py-1.5 rounded-lg border border-neutral-700 text-neutral-400 hover:bg-neutral-800 hover:text-white text-[11px] font-bold flex items-center justify-center gap-1 transition-colors">
+              关闭
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { SoundAsset, SoundCue, SoundTrack } from '../types';
+import { assignSound, matchScore } from '../services/soundLibrary';
+
+interface SoundCueEditorProps {
+  track: SoundTrack;
+  cue?: SoundCue;
+  library: SoundAsset[];
+  // `undefined` removes the cue
+  onChange: (cue: SoundCue | undefined) => void;
+  disabled?: boolean;
+}
+
+// Description, library file and level of one sound cue.
+export const SoundCueEditor: React.FC<SoundCueEditorProps> = ({ track, cue, library, onChange, disabled }) => {
+  const description = cue?.description || '';
+  // Best matches for the description first
+  const sounds = library
+    .filter(s => s.track === track)
+    .map(sound => ({ sound, score: description ? matchScore(description, sound) : 0 }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ sound }) => sound);
+  const isMissing = !!cue?.url && !sounds.some(s => s.id === cue.assetId);
+
+  const selectClass = "bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-[11px] text-neutral-300 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <input
+          value={description}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value || cue?.url ? { ...cue, description: e.target.value } : undefined)}
+          placeholder="描述，如：雨夜 街道"
+          className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-[11px] text-neutral-200 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+        />
+        {cue && (
+          <button
+            onClick={() => onChange(undefined)}
+            disabled={disabled}
+            className="text-neutral-500 hover:text-red-400 transition-colors disabled:opacity-50"
+            title="移除"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <select
+          value={isMissing ? 'missing' : cue?.assetId || ''}
+          disabled={disabled}
+          onChange={(e) => onChange(assignSound(cue || { description: '' }, sounds.find(s => s.id === e.target.value)))}
+          className={`flex-1 min-w-0 ${selectClass}`}
+        >
+          <option value="">{sounds.length ? '未选择文件' : '音效库中暂无此类文件'}</option>
+          {isMissing && <option value="missing">{cue!.name}</option>}
+          {sounds.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={cue?.volume ?? 1}
+          disabled={disabled || !cue?.url}
+          onChange={(e) => cue && onChange({ ...cue, volume: parseFloat(e.target.value) })}
+          className="w-16 accent-blue-500 disabled:opacity-40"
+          title="音量"
+        />
+      </div>
+    </div>
+  );
+};
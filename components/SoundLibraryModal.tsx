@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Music, Upload, Trash2, Loader2, Play, Square } from 'lucide-react';
+import { SoundAsset, SoundTrack } from '../types';
+import { saveSound, deleteSound } from '../services/projectStore';
+import { TRACK_OPTIONS, importSoundFile, toKeywords } from '../services/soundLibrary';
+import { loadAudioBuffer, playDialogue, stopDialogue } from '../services/dialogueAudio';
+import { formatSeconds } from '../services/timing';
+
+interface SoundLibraryModalProps {
+  isOpen: boolean;
+  library: SoundAsset[];
+  onChange: (library: SoundAsset[]) => void;
+  onClose: () => void;
+}
+
+// Music, ambience and effect files shared by every project.
+const SoundLibraryModal: React.FC<SoundLibraryModalProps> = ({ isOpen, library, onChange, onClose }) => {
+  const [track, setTrack] = useState<SoundTrack>('bgm');
+  const [isImporting, setIsImporting] = useState(false);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const stopPreview = () => {
+    stopDialogue(sourceRef.current);
+    sourceRef.current = null;
+    setPlayingId(null);
+  };
+
+  useEffect(() => {
+    if (!isOpen) stopPreview();
+  }, [isOpen]);
+
+  useEffect(() => () => { audioCtxRef.current?.close(); }, []);
+
+  const handlePreview = async (sound: SoundAsset) => {
+    const wasPlaying = playingId === sound.id;
+    stopPreview();
+    if (wasPlaying) return;
+    try {
+      const buffer = await loadAudioBuffer(sound.url);
+      if (!audioCtxRef.current) audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      await audioCtxRef.current.resume();
+      const source = playDialogue(audioCtxRef.current, audioCtxRef.current.destination, buffer);
+      if (!source) return;
+      source.onended = () => setPlayingId(current => current === sound.id ? null : current);
+      sourceRef.current = source;
+      setPlayingId(sound.id);
+    } catch (e: any) {
+      alert(`无法播放：${e.message || e}`);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsImporting(true);
+    const imported: SoundAsset[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const sound = await importSoundFile(file, track);
+        await saveSound(sound);
+        imported.push(sound);
+      } catch (err) {
+        console.error(`Sound import failed: ${file.name}`, err);
+        failed.push(file.name);
+      }
+    }
+    onChange([...imported, ...library]);
+    setIsImporting(false);
+    if (failed.length) alert(`以下文件无法导入：\n${failed.join('\n')}`);
+  };
+
+  const handleUpdate = (id: string, updates: Partial<SoundAsset>) => {
+    const sound = library.find(s => s.id === id);
+    if (!sound) return;
+    const updated = { ...sound, ...updates };
+    onChange(library.map(s => s.id === id ? updated : s));
+    saveSound(updated).catch(e => console.error("Failed to save sound", e));
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("确定从音效库移除？已用到它的镜头仍可播放。")) return;
+    if (playingId === id) stopPreview();
+    await deleteSound(id);
+    onChange(library.filter(s => s.id !== id));
+  };
+
+  if (!isOpen) return null;
+
+  const sounds = library.filter(s => s.track === track);
+
+  return (
+    <div className="fixed inset-0 z-[500] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-fade-in">
+      <div className="w-full max-w-2xl bg-neutral-900 border border-neutral-800 rounded-2xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-neutral-800 flex items-center justify-between bg-neutral-900/50">
+          <div className="flex items-center gap-2">
+            <Music className="w-5 h-5 text-blue-500" />
+            <h3 className="text-lg font-bold text-white tracking-tight">音效库 / Sound Library</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-full hover:bg-neutral-800 text-neutral-500 hover:text-white transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Track tabs */}
+        <div className="px-6 pt-4 flex gap-2">
+          {TRACK_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setTrack(option.value)}
+              className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${track === option.value ? 'bg-blue-600/20 border-blue-500/60 text-blue-300' : 'border-neutral-700 text-neutral-500 hover:text-white'}`}
+            >
+              {option.label} <span className="font-mono opacity-60">{library.filter(s => s.track === option.value).length}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-2 max-h-[55vh] overflow-y-auto">
+          {sounds.length === 0 && (
+            <div className="text-center text-sm text-neutral-600 py-10">暂无{TRACK_OPTIONS.find(o => o.value === track)?.label}，点击下方导入本地音频文件</div>
+          )}
+          {sounds.map(sound => (
+            <div key={sound.id} className="group flex items-center gap-3 p-3 rounded-xl border bg-neutral-800/50 border-neutral-700">
+              <button
+                onClick={() => handlePreview(sound)}
+                className="p-2 rounded-full bg-neutral-900 border border-neutral-700 text-neutral-400 hover:text-white transition-colors"
+                title="试听"
+              >
+                {playingId === sound.id ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              </button>
+              <div className="flex-1 min-w-0 space-y-1">
+                <input
+                  value={sound.name}
+                  onChange={(e) => handleUpdate(sound.id, { name: e.target.value })}
+                  className="w-full bg-transparent text-sm font-bold text-neutral-200 focus:outline-none focus:bg-neutral-900 rounded px-1"
+                />
+                <input
+                  defaultValue={sound.tags.join(' ')}
+                  onBlur={(e) => handleUpdate(sound.id, { tags: toKeywords(e.target.value) })}
+                  placeholder="标签，空格分隔"
+                  className="w-full bg-transparent text-[11px] text-neutral-500 focus:outline-none focus:bg-neutral-900 rounded px-1"
+                  title="用于匹配 AI 推荐的声音描述"
+                />
+              </div>
+              <span className="text-[10px] font-mono text-neutral-500">{formatSeconds(sound.durationMs)}s</span>
+              <select
+                value={sound.track}
+                onChange={(e) => handleUpdate(sound.id, { track: e.target.value as SoundTrack })}
+                className="bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-[11px] text-neutral-300 focus:outline-none"
+              >
+                {TRACK_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+              <button
+                onClick={() => handleDelete(sound.id)}
+                className="p-1.5 rounded text-neutral-600 hover:text-red-400 hover:bg-red-950/30 opacity-0 group-hover:opacity-100 transition-all"
+                title="移除"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-neutral-950/50 border-t border-neutral-800 flex justify-between gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="px-4 py-2 bg-neutral-800 hover:bg-neutral-700 text-neutral-200 text-sm font-bold rounded-lg border border-neutral-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+            title="导入到当前分类，可多选"
+          >
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            导入{TRACK_OPTIONS.find(o => o.value === track)?.label}
+          </button>
+          <input ref={fileInputRef} type="file" accept="audio/*" multiple className="hidden" onChange={handleFileChange} />
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-neutral-500 hover:text-white text-sm font-bold transition-colors"
+          >
+            关闭
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SoundLibraryModal;
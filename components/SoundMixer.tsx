@@ -0,0 +1,42 @@
+import React from 'react';
+import { AudioMix } from '../types';
+import { MIX_TRACKS } from '../services/soundtrack';
+
+interface SoundMixerProps {
+  mix: AudioMix;
+  onChange: (mix: AudioMix) => void;
+  disabled?: boolean;
+}
+
+const Fader: React.FC<{ label: string; value: number; onChange: (value: number) => void; disabled?: boolean; title?: string }> = ({ label, value, onChange, disabled, title }) => (
+  <label className="flex items-center gap-2 text-[11px] text-neutral-400" title={title}>
+    <span className="w-12 shrink-0">{label}</span>
+    <input
+      type="range"
+      min={0}
+      max={1}
+      step={0.05}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="flex-1 accent-blue-500 disabled:opacity-40"
+    />
+    <span className="w-8 text-right font-mono text-neutral-500">{Math.round(value * 100)}</span>
+  </label>
+);
+
+// Per-track levels and how far music and ambience dip under dialogue.
+export const SoundMixer: React.FC<SoundMixerProps> = ({ mix, onChange, disabled }) => (
+  <div className="space-y-1.5">
+    {MIX_TRACKS.map(({ value, label }) => (
+      <Fader key={value} label={label} value={mix[value]} disabled={disabled} onChange={(level) => onChange({ ...mix, [value]: level })} />
+    ))}
+    <Fader
+      label="避让"
+      value={mix.ducking}
+      disabled={disabled}
+      onChange={(ducking) => onChange({ ...mix, ducking })}
+      title="对白期间配乐与环境音降至的比例"
+    />
+  </div>
+);
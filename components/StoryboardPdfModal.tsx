@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { X, FileText, Loader2, Download } from 'lucide-react';
+import { DEFAULT_PDF_OPTIONS, PDF_GRID_OPTIONS, StoryboardPdfOptions, StoryboardPdfProject, buildStoryboardPdf } from '../services/storyboardPdf';
+
+interface StoryboardPdfModalProps {
+  isOpen: boolean;
+  project: StoryboardPdfProject;
+  onClose: () => void;
+}
+
+// Layout choices for the printable storyboard and the export itself.
+const StoryboardPdfModal: React.FC<StoryboardPdfModalProps> = ({ isOpen, project, onClose }) => {
+  const [options, setOptions] = useState<StoryboardPdfOptions>(DEFAULT_PDF_OPTIONS);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const handleExport = async () => {
+    setProgress({ done: 0, total: 0 });
+    try {
+      const blob = await buildStoryboardPdf(project, options, (done, total) => setProgress({ done, total }));
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `manju_storyboard_${Date.now()}.pdf`;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      onClose();
+    } catch (e: any) {
+      alert(`PDF 导出失败：${e.message || e}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const grid = PDF_GRID_OPTIONS.find(o => o.value === options.grid)!;
+  const shotPages = Math.ceil(project.shots.length / (grid.columns * grid.rows));
+
+  return (
+    <div className="fixed inset-0 z-[500] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-fade-in">
+      <div className="w-full max-w-md bg-neutral-900 border border-neutral-800 rounded-2xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-neutral-800 flex items-center justify-between bg-neutral-900/50">
+          <div className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-blue-500" />
+            <h3 className="text-lg font-bold text-white tracking-tight">分镜 PDF / Storyboard PDF</h3>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={!!progress}
+            className="p-1.5 rounded-full hover:bg-neutral-800 text-neutral-500 hover:text-white transition-colors disabled:opacity-50"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5">
+          <div className="space-y-2">
+            <div className="text-xs font-bold text-neutral-400">每页镜头排列</div>
+            <div className="grid grid-cols-3 gap-2">
+              {PDF_GRID_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setOptions({ ...options, grid: option.value })}
+                  disabled={!!progress}
+                  className={`px-2 py-2 rounded-lg text-xs font-bold border transition-colors ${options.grid === option.value ? 'bg-blue-600/20 border-blue-500/60 text-blue-300' : 'border-neutral-700 text-neutral-500 hover:text-white'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-neutral-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.includeReferences}
+              disabled={!!progress}
+              onChange={(e) => setOptions({ ...options, includeReferences: e.target.checked })}
+              className="accent-blue-500"
+            />
+            附带角色与场景设定页
+          </label>
+          <p className="text-[11px] text-neutral-500">
+            A4 · {project.shots.length} 个镜头 · 分镜 {shotPages} 页
+            {options.includeReferences && ` · 设定 ${project.characters.length} 个角色、${project.scenes.length} 个场景`}
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-neutral-950/50 border-t border-neutral-800 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={!!progress}
+            className="px-4 py-2 text-neutral-500 hover:text-white text-sm font-bold transition-colors disabled:opacity-50"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!!progress || project.shots.length === 0}
+            className="px-4 py-2 bg-green-600 hover:bg-green-500 text-white text-sm font-bold rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            {progress ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            {progress ? `排版中 ${progress.done}/${progress.total}` : '导出 PDF'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoryboardPdfModal;
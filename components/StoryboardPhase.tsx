@@ -1,19 +1,41 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { Shot, VisualStyle, AspectRatio, AISettings } from '../types';
+import { Shot, VisualStyle, AspectRatio, AISettings, Character } from '../types';
 // Fixed: Changed 'regenerateShotImage' to 'generateShotImage'
-import { generateShotImage, generateSpeech, translateToEnglish } from '../services/geminiService';
+import { generateShotImage, translateToEnglish, getShotCharacters } from '../services/geminiService';
+import { getLineKind, isSpokenDialogue, loadAudioBuffer, playDialogue } from '../services/dialogueAudio';
+import { NARRATOR_SPEAKER, detectSpeaker } from '../services/voiceCasting';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { ShotTask } from '../hooks/useShotQueue';
+import { getTotalDuration, formatRuntime } from '../services/timing';
+import { DurationInput } from './DurationInput';
 import { 
     RotateCcw, Loader2, Video as VideoIcon, 
-    MapPin, Copy, Mic, MessageCircle, Volume2, Maximize2, AlertTriangle, CheckCircle2, Clipboard, ArrowDown, Languages
+    MapPin, Copy, Mic, MessageCircle, Volume2, Maximize2, AlertTriangle, CheckCircle2, Clipboard, ArrowDown, Languages,
+    Clapperboard, X, Image as ImageIcon, Users, Plus, Sparkles, Scissors, Merge, Trash2, Music
 } from 'lucide-react';
 
 interface StoryboardPhaseProps {
   shots: Shot[];
+  characters: Character[];
+  // Shot list is still streaming in from the planner
+  isPlanning?: boolean;
   style: VisualStyle;
   aspectRatio: AspectRatio;
   onUpdateShot: (id: string, updates: Partial<Shot>) => void;
   onRegenerateShot: (id: string) => void;
+  shotTasks: Map<string, ShotTask>;
+  onCancelShot: (id: string) => void;
+  // `afterId` null inserts at the start
+  onInsertShot: (afterId: string | null, useAI: boolean) => Promise<void>;
+  onDeleteShot: (id: string) => void;
+  onMoveShot: (id: string, toIndex: number) => void;
+  onSplitShot: (id: string) => void;
+  onMergeShot: (id: string) => void;
+  onGenerateVideo: (id: string) => void;
+  onCancelVideo: (id: string) => void;
+  // Synthesize missing voice clips; resolves with the updated shots
+  onPrepareAudio: (ids: string[] | null) => Promise<Shot[]>;
   onBack: () => void;
   onPreviewImage: (url: string) => void;
   apiKey: string;
@@ -23,7 +45,7 @@ interface StoryboardPhaseProps {
 }
 
 // Internal Component to handle image loading state
-const ImageWithLoader: React.FC<{ src: string; alt: string; isLoading?: boolean }> = ({ src, alt, isLoading }) => {
+const ImageWithLoader: React.FC<{ src: string; alt: string; isLoading?: boolean; loadingLabel?: string; isFailed?: boolean }> = ({ src, alt, isLoading, loadingLabel, isFailed }) => {
     const [imageState, setImageState] = useState<'loading' | 'loaded' | 'error'>('loading');
     
     // Reset loaded state when src changes
@@ -35,11 +57,12 @@ const ImageWithLoader: React.FC<{ src: string; alt: string; isLoading?: boolean
     const handleError = () => setImageState('error');
 
     // Use a placeholder if error
-    const displaySrc = imageState === 'error' 
+    const hasError = imageState === 'error' || (isFailed && !isLoading);
+    const displaySrc = hasError
         ? 'https://placehold.co/800x450/1a1a1a/666666?text=Generation+Failed' 
         : src;
 
-    const showLoader = (imageState === 'loading' || isLoading) && imageState !== 'error';
+    const showLoader = (imageState === 'loading' || isLoading) && !hasError;
 
     return (
         <div className="relative w-full h-full bg-neutral-900">
@@ -49,13 +72,13 @@ const ImageWithLoader: React.FC<{ src: string; alt: string; isLoading?: boolean
                     <div className="flex flex-col items-center gap-2 relative z-20">
                         <Loader2 className="w-8 h-8 animate-spin text-neutral-600" />
                         <span className="text-[10px] uppercase tracking-widest font-mono text-neutral-600">
-                            {isLoading ? 'GENERATING' : 'LOADING'}
+                            {isLoading ? (loadingLabel || 'GENERATING') : 'LOADING'}
                         </span>
                     </div>
                 </div>
             )}
             
-            {imageState === 'error' && (
+            {hasError && (
                  <div className="absolute inset-0 flex items-center justify-center z-10 pointer-events-none">
                      <AlertTriangle className="w-10 h-10 text-neutral-600 opacity-50" />
                 </div>
@@ -72,12 +95,37 @@ const ImageWithLoader: React.FC<{ src: string; alt: string; isLoading?: boolean
     );
 };
 
+// Looping, muted clip for a shot's generated video
+const ShotVideo: React.FC<{ src: string; poster?: string }> = ({ src, poster }) => {
+    const resolved = useMediaUrl(src);
+    if (!resolved) {
+        return (
+            <div className="w-full h-full flex items-center justify-center bg-neutral-900">
+                <Loader2 className="w-6 h-6 animate-spin text-neutral-600" />
+            </div>
+        );
+    }
+    return <video src={resolved} poster={poster} className="w-full h-full object-cover" autoPlay muted loop playsInline />;
+};
+
 export const StoryboardPhase: React.FC<StoryboardPhaseProps> = ({
   shots,
+  characters,
+  isPlanning,
   style,
   aspectRatio,
   onUpdateShot,
   onRegenerateShot,
+  shotTasks,
+  onCancelShot,
+  onInsertShot,
+  onDeleteShot,
+  onMoveShot,
+  onSplitShot,
+  onMergeShot,
+  onGenerateVideo,
+  onCancelVideo,
+  onPrepareAudio,
   onPreviewImage,
   apiKey,
   projectSeed,
@@ -86,11 +134,65 @@ export const StoryboardPhase: React.FC<StoryboardPhaseProps> = ({
 }) => {
   const bottomRef = useRef<HTMLDivElement>(null);
   const [translatingId, setTranslatingId] = useState<string | null>(null);
+  // Shots whose generated clip is hidden in favour of the still frame
+  const [stillIds, setStillIds] = useState<Set<string>>(new Set());
+
+  const toggleStill = (id: string) => {
+      setStillIds(prev => {
+          const next = new Set(prev);
+          if (next.has(id)) next.delete(id); else next.add(id);
+          return next;
+      });
+  };
+
+  // Drag-and-drop reordering: the dragged shot and the gap index it would drop into
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Shot after which an AI-suggested shot is being generated
+  const [suggestingAfterId, setSuggestingAfterId] = useState<string | null>(null);
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+      if (!draggingId) return;
+      e.preventDefault();
+      const rect = e.currentTarget.getBoundingClientRect();
+      setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+      e.preventDefault();
+      const from = shots.findIndex(s => s.id === draggingId);
+      if (draggingId && from !== -1 && dropIndex !== null) {
+          onMoveShot(draggingId, dropIndex > from ? dropIndex - 1 : dropIndex);
+      }
+      setDraggingId(null);
+      setDropIndex(null);
+  };
+
+  const handleSuggestShot = async (afterId: string) => {
+      setSuggestingAfterId(afterId);
+      keepScrollRef.current = true;
+      try {
+          await onInsertShot(afterId, true);
+      } finally {
+          setSuggestingAfterId(null);
+      }
+  };
 
   // New State for Success Toast
   const [toastMsg, setToastMsg] = useState<string | null>(null);
 
+  // Manual list edits shouldn't yank the view to the bottom
+  const keepScrollRef = useRef(false);
+  const editList = (action: () => void) => {
+      keepScrollRef.current = true;
+      action();
+  };
+
   useEffect(() => {
+    if (keepScrollRef.current) {
+        keepScrollRef.current = false;
+        return;
+    }
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [shots.length, shots.filter(s => s.imageUrl).length]);
 
@@ -138,30 +240,30 @@ export const StoryboardPhase: React.FC<StoryboardPhaseProps> = ({
     }
   };
 
-  const playAudio = async (text: string) => {
+  const playAudio = async (shot: Shot) => {
       try {
-          // Fixed: generateSpeech only expects 1 argument
-          const audioBuffer = await generateSpeech(text);
+          // Same cached clip the video editor and export use; synthesized on first play
+          const audioUrl = (await onPrepareAudio([shot.id])).find(s => s.id === shot.id)?.audioUrl;
+          if (!audioUrl) return;
+          const buffer = await loadAudioBuffer(audioUrl);
           const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-          const buffer = await ctx.decodeAudioData(audioBuffer);
-          const source = ctx.createBufferSource();
-          source.buffer = buffer;
-          source.connect(ctx.destination);
-          source.start(0);
+          const source = playDialogue(ctx, ctx.destination, buffer);
+          if (source) source.onended = () => ctx.close();
       } catch (e) { console.error(e); }
   }
 
   // --- Voice Tag Helper ---
   const getAudioTag = (text?: string) => {
-      if (!text) return { label: '环境音', icon: <Volume2 className="w-3 h-3" />, color: 'text-neutral-500', bg: 'bg-neutral-800' };
-      
-      if (text.startsWith('(') || text.startsWith('（')) {
-          return { label: '环境/动作音', icon: <Volume2 className="w-3 h-3" />, color: 'text-green-400', bg: 'bg-green-900/20' };
+      switch (getLineKind(text)) {
+          case 'silent':
+              return { label: '环境音', icon: <Volume2 className="w-3 h-3" />, color: 'text-neutral-500', bg: 'bg-neutral-800' };
+          case 'cue':
+              return { label: '环境/动作音', icon: <Volume2 className="w-3 h-3" />, color: 'text-green-400', bg: 'bg-green-900/20' };
+          case 'narration':
+              return { label: '旁白', icon: <Mic className="w-3 h-3" />, color: 'text-purple-400', bg: 'bg-purple-900/20' };
+          default:
+              return { label: '对白', icon: <MessageCircle className="w-3 h-3" />, color: 'text-yellow-400', bg: 'bg-yellow-900/20' };
       }
-      if (text.includes('旁白') || text.includes('OS')) {
-          return { label: '旁白', icon: <Mic className="w-3 h-3" />, color: 'text-purple-400', bg: 'bg-purple-900/20' };
-      }
-      return { label: '对白', icon: <MessageCircle className="w-3 h-3" />, color: 'text-yellow-400', bg: 'bg-yellow-900/20' };
   };
 
   return (
@@ -178,30 +280,77 @@ export const StoryboardPhase: React.FC<StoryboardPhaseProps> = ({
       {/* Stats Bar (Sub-header) */}
       <div className="px-6 py-2 bg-neutral-900/30 border-b border-neutral-800 flex items-center justify-between text-[10px] text-neutral-500 font-mono uppercase tracking-wider sticky top-0 z-10">
            <span>分镜列表 / SHOT LIST</span>
-           <span>共 {shots.length} 镜</span>
+           <span>共 {shots.length} 镜 · 总时长 {formatRuntime(getTotalDuration(shots))}</span>
       </div>
 
       <div className="flex-1 overflow-y-auto p-6 space-y-12">
-        {shots.length === 0 && (
+        {shots.length === 0 && (isPlanning ? (
             <div className="flex flex-col items-center justify-center h-64 text-neutral-600">
                 <Loader2 className="w-8 h-8 animate-spin mb-4" />
                 <p>导演正在思考分镜...</p>
             </div>
-        )}
+        ) : (
+            <div className="flex flex-col items-center justify-center h-64 text-neutral-600 gap-4">
+                <p>暂无分镜</p>
+                <button onClick={() => onInsertShot(null, false)} className="flex items-center gap-2 px-4 py-2 rounded-full border border-neutral-700 hover:border-neutral-500 hover:text-white text-xs font-bold transition-colors">
+                    <Plus className="w-3.5 h-3.5" /> 添加镜头
+                </button>
+            </div>
+        ))}
 
         {shots.map((shot, index) => {
             const tag = getAudioTag(shot.dialogue);
+            const shotCharacters = getShotCharacters(shot, characters);
+            const availableCharacters = characters.filter(c => !shotCharacters.includes(c));
             const displayImage = shot.imageUrl || getMockShotImage(shot);
+            const showVideo = !!shot.videoUrl && !stillIds.has(shot.id);
+            const job = shot.videoJob;
+            const isVideoBusy = !!job && job.status !== 'failed';
+            const task = shotTasks.get(shot.id);
+            const isPending = !!task && (task.status === 'queued' || task.status === 'running' || task.status === 'retrying');
+            const loadingLabel = task?.status === 'queued' ? 'QUEUED' : task?.status === 'retrying' ? `RETRY ${task.attempt}` : undefined;
             return (
-                <div key={shot.id} className="group relative flex gap-6 pb-12 border-b border-neutral-800/50 last:border-0 animate-fade-in-up">
+                <div
+                    key={shot.id}
+                    onDragOver={(e) => handleDragOver(e, index)}
+                    onDrop={handleDrop}
+                    className={`group relative flex gap-6 pb-12 border-b border-neutral-800/50 last:border-0 animate-fade-in-up transition-opacity ${draggingId === shot.id ? 'opacity-40' : ''}`}
+                >
+                    {/* Drop indicators */}
+                    {dropIndex === index && draggingId && <div className="absolute -top-6 left-0 right-0 h-0.5 bg-blue-500 rounded-full z-20" />}
+                    {dropIndex === index + 1 && draggingId && index === shots.length - 1 && <div className="absolute -bottom-1 left-0 right-0 h-0.5 bg-blue-500 rounded-full z-20" />}
+
                     {/* Timeline Line */}
                     <div className="absolute left-[16px] top-10 bottom-0 w-px bg-neutral-800 group-last:hidden"></div>
 
-                    {/* Index Column */}
+                    {/* Index Column (drag handle + shot tools) */}
                     <div className="flex flex-col items-center gap-2 pt-2 z-10">
-                        <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold border transition-colors ${shot.isLoading ? 'border-blue-500 text-blue-500 animate-pulse bg-blue-900/10' : 'border-neutral-700 bg-neutral-900 text-neutral-400'}`}>
+                        <div
+                            draggable
+                            onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; e.dataTransfer.setData('text/plain', shot.id); setDraggingId(shot.id); }}
+                            onDragEnd={() => { setDraggingId(null); setDropIndex(null); }}
+                            className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold border transition-colors cursor-grab active:cursor-grabbing ${shot.isLoading ? 'border-blue-500 text-blue-500 animate-pulse bg-blue-900/10' : 'border-neutral-700 bg-neutral-900 text-neutral-400 hover:border-neutral-500'}`}
+                            title="拖动以调整顺序"
+                        >
                             {index + 1}
                         </div>
+                        <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button onClick={() => editList(() => onInsertShot(shot.id, false))} className="p-1.5 rounded-full bg-neutral-900 border border-neutral-800 text-neutral-500 hover:text-white hover:border-neutral-600 transition-colors" title="在后面插入空白镜头">
+                                <Plus className="w-3 h-3" />
+                            </button>
+                            <button onClick={() => handleSuggestShot(shot.id)} disabled={!!suggestingAfterId} className="p-1.5 rounded-full bg-neutral-900 border border-neutral-800 text-purple-400 hover:text-purple-300 hover:border-purple-700 disabled:opacity-40 transition-colors" title="AI 补一个过渡镜头">
+                                {suggestingAfterId === shot.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+                            </button>
+                            <button onClick={() => editList(() => onSplitShot(shot.id))} className="p-1.5 rounded-full bg-neutral-900 border border-neutral-800 text-neutral-500 hover:text-white hover:border-neutral-600 transition-colors" title="拆分镜头">
+                                <Scissors className="w-3 h-3" />
+                            </button>
+                            <button onClick={() => editList(() => onMergeShot(shot.id))} disabled={index === shots.length - 1} className="p-1.5 rounded-full bg-neutral-900 border border-neutral-800 text-neutral-500 hover:text-white hover:border-neutral-600 disabled:opacity-30 transition-colors" title="与下一镜合并">
+                                <Merge className="w-3 h-3" />
+                            </button>
+                            <button onClick={() => editList(() => onDeleteShot(shot.id))} className="p-1.5 rounded-full bg-neutral-900 border border-neutral-800 text-neutral-500 hover:text-red-400 hover:border-red-900 transition-colors" title="删除镜头">
+                                <Trash2 className="w-3 h-3" />
+                            </button>
+                        </div>
                     </div>
 
                     {/* Main Content */}
@@ -213,8 +362,32 @@ export const StoryboardPhase: React.FC<StoryboardPhaseProps> = ({
                                 className={`relative rounded-lg overflow-hidden bg-black border border-neutral-800 shadow-xl cursor-pointer ${aspectRatio === AspectRatio.PORTRAIT ? 'aspect-[9/16] max-w-[200px]' : 'aspect-video w-full'}`}
                                 onClick={() => onPreviewImage(displayImage)}
                             >
-                                {/* Image with Loader */}
-                                <ImageWithLoader src={displayImage} alt="shot" isLoading={shot.isLoading} />
+                                {/* Clip or Image with Loader */}
+                                {showVideo ? (
+                                    <ShotVideo src={shot.videoUrl!} poster={shot.imageUrl} />
+                                ) : (
+                                    <ImageWithLoader src={displayImage} alt="shot" isLoading={shot.isLoading || isPending} loadingLabel={loadingLabel} isFailed={shot.isError} />
+                                )}
+
+                                {shot.videoUrl && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); toggleStill(shot.id); }}
+                                        className="absolute top-2 left-2 z-30 flex items-center gap-1 px-2 py-1 rounded bg-black/60 text-white text-[10px] font-bold backdrop-blur hover:bg-black/80"
+                                        title={showVideo ? '显示静帧' : '播放视频'}
+                                    >
+                                        {showVideo ? <><ImageIcon className="w-3 h-3" /> 静帧</> : <><VideoIcon className="w-3 h-3" /> 视频</>}
+                                    </button>
+                                )}
+
+                                {isPending && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onCancelShot(shot.id); }}
+                                        className="absolute top-2 right-2 z-30 flex items-center gap-1 px-2 py-1 rounded bg-black/60 text-white text-[10px] font-bold backdrop-blur hover:bg-red-600/80"
+                                        title="取消生成"
+                                    >
+                                        <X className="w-3 h-3" /> 取消
+                                    </button>
+                                )}
                                 
                                 {/* Overlay Actions */}
                                 <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-3 z-20">
@@ -228,6 +401,16 @@ export const StoryboardPhase: React.FC<StoryboardPhaseProps> = ({
                                         重新生成 (Regenerate)
                                     </button>
                                     
+                                    {/* Image-to-Video Button */}
+                                    <button 
+                                        onClick={(e) => { e.stopPropagation(); onGenerateVideo(shot.id); }} 
+                                        disabled={isVideoBusy || !shot.imageUrl}
+                                        className="p-2.5 rounded-full bg-green-600/60 hover:bg-green-600 text-white backdrop-blur transition-all disabled:opacity-40" 
+                                        title={shot.videoUrl ? '重新生成视频' : '图生视频'}
+                                    >
+                                        <Clapperboard className="w-4 h-4" />
+                                    </button>
+
                                     {/* Copy Video Prompt Button */}
                                     <button 
                                         onClick={(e) => { e.stopPropagation(); handleCopyVideoPrompt(shot); }} 
@@ -243,9 +426,35 @@ export const StoryboardPhase: React.FC<StoryboardPhaseProps> = ({
                             
                             {/* Disclaimer / Tags under image */}
                             <div className="mt-3 flex flex-col gap-2">
-                                <p className="text-[10px] text-neutral-500 text-center leading-relaxed bg-neutral-900/50 p-2 rounded border border-neutral-800/50">
-                                    * 注：Gemini 暂未开放视频生成 API，请点击复制提示词，配合图片使用第三方工具 (Runway/Luma) 生成。
-                                </p>
+                                {shot.isError && !shot.isLoading && !isPending && (
+                                    <div className="flex items-center justify-between gap-2 text-[10px] p-2 rounded border bg-red-950/20 border-red-900/40 text-red-400">
+                                        <span className="flex items-center gap-1.5 truncate">
+                                            <AlertTriangle className="w-3 h-3 shrink-0" />
+                                            画面生成失败{task?.error ? `：${task.error}` : ''}
+                                        </span>
+                                        <button onClick={() => onRegenerateShot(shot.id)} className="p-0.5 rounded hover:bg-white/10" title="重新生成">
+                                            <RotateCcw className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                )}
+                                {job && (
+                                    <div className={`flex items-center justify-between gap-2 text-[10px] p-2 rounded border ${job.status === 'failed' ? 'bg-red-950/20 border-red-900/40 text-red-400' : 'bg-green-950/20 border-green-900/40 text-green-400'}`}>
+                                        <span className="flex items-center gap-1.5 truncate">
+                                            {job.status === 'failed' ? <AlertTriangle className="w-3 h-3 shrink-0" /> : <Loader2 className="w-3 h-3 animate-spin shrink-0" />}
+                                            {job.status === 'queued' && '视频任务提交中...'}
+                                            {job.status === 'running' && `视频生成中${job.progress !== undefined ? ` ${Math.round(job.progress)}%` : '...'}`}
+                                            {job.status === 'failed' && `视频生成失败：${job.error || ''}`}
+                                        </span>
+                                        <button onClick={() => onCancelVideo(shot.id)} className="p-0.5 rounded hover:bg-white/10" title={job.status === 'failed' ? '关闭' : '取消任务'}>
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                )}
+                                {!job && !shot.videoUrl && (
+                                    <p className="text-[10px] text-neutral-500 text-center leading-relaxed bg-neutral-900/50 p-2 rounded border border-neutral-800/50">
+                                        * 点击画面上的场记板按钮以当前画面与英文提示词生成视频片段，也可复制提示词到第三方工具 (Runway/Luma/可灵) 使用。
+                                    </p>
+                                )}
                                 <div className="flex flex-wrap gap-2 justify-center">
                                     {shot.sceneId && (
                                         <div className="flex items-center gap-1.5 text-[10px] uppercase font-bold tracking-wider text-neutral-500 bg-neutral-900 px-2 py-1 rounded border border-neutral-800">
@@ -262,12 +471,32 @@ export const StoryboardPhase: React.FC<StoryboardPhaseProps> = ({
                             
                             {/* Dialogue Section */}
                             <div className="space-y-2">
-                                <div className={`inline-flex items-center gap-2 px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider border border-transparent ${tag.color} ${tag.bg}`}>
-                                    {tag.icon} {tag.label}
+                                <div className="flex items-center gap-2">
+                                    <div className={`inline-flex items-center gap-2 px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider border border-transparent ${tag.color} ${tag.bg}`}>
+                                        {tag.icon} {tag.label}
+                                    </div>
+                                    {isSpokenDialogue(shot.dialogue) && (
+                                        <select
+                                            value={shot.speakerId || ''}
+                                            onChange={(e) => onUpdateShot(shot.id, { speakerId: e.target.value || undefined })}
+                                            className="bg-transparent border border-neutral-800 hover:border-neutral-600 rounded px-1.5 py-0.5 text-[10px] text-neutral-400 focus:outline-none cursor-pointer"
+                                            title="说话人"
+                                        >
+                                            <option value="">自动 · {characters.find(c => c.id === detectSpeaker({ ...shot, speakerId: undefined }, characters))?.name || '旁白'}</option>
+                                            <option value={NARRATOR_SPEAKER}>旁白</option>
+                                            {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                        </select>
+                                    )}
+                                    {(shot.ambience || shot.sfx) && (
+                                        <span className="flex items-center gap-1 text-[10px] text-neutral-500 truncate" title="环境音 · 音效">
+                                            <Music className="w-3 h-3 shrink-0" />
+                                            {[shot.ambience?.description, shot.sfx?.description].filter(Boolean).join(' · ')}
+                                        </span>
+                                    )}
                                 </div>
                                 {shot.dialogue ? (
                                     <blockquote 
-                                        onClick={() => playAudio(shot.dialogue!)}
+                                        onClick={() => playAudio(shot)}
                                         className="relative p-4 rounded-xl bg-gradient-to-br from-neutral-800 to-neutral-900 border border-neutral-700 text-neutral-200 text-lg font-medium leading-relaxed shadow-sm cursor-pointer hover:border-neutral-600 transition-colors group/quote"
                                     >
                                         "{shot.dialogue}"
@@ -282,6 +511,37 @@ export const StoryboardPhase: React.FC<StoryboardPhaseProps> = ({
                                 )}
                             </div>
 
+                            {/* Characters in frame */}
+                            <div className="flex flex-wrap items-center gap-1.5">
+                                <span className="text-[10px] font-bold text-neutral-500 uppercase flex items-center gap-1 mr-1">
+                                    <Users className="w-3 h-3" /> 出场角色
+                                </span>
+                                {shotCharacters.map(char => (
+                                    <span key={char.id} className="flex items-center gap-1 pl-1 pr-1.5 py-0.5 rounded-full bg-neutral-800 border border-neutral-700 text-[11px] text-neutral-300">
+                                        {char.imageUrl && <img src={char.imageUrl} alt={char.name} className="w-4 h-4 rounded-full object-cover" />}
+                                        {char.name}
+                                        <button
+                                            onClick={() => onUpdateShot(shot.id, { characterIds: shotCharacters.filter(c => c.id !== char.id).map(c => c.id) })}
+                                            className="text-neutral-500 hover:text-red-400 transition-colors"
+                                            title="移出此镜头"
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                                {availableCharacters.length > 0 && (
+                                    <select
+                                        value=""
+                                        onChange={(e) => e.target.value && onUpdateShot(shot.id, { characterIds: [...shotCharacters.map(c => c.id), e.target.value] })}
+                                        className="bg-transparent border border-dashed border-neutral-700 hover:border-neutral-500 rounded-full px-2 py-0.5 text-[11px] text-neutral-500 focus:outline-none cursor-pointer"
+                                    >
+                                        <option value="">+ 添加角色</option>
+                                        {availableCharacters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                    </select>
+                                )}
+                                {characters.length === 0 && <span className="text-[10px] text-neutral-600 italic">暂无角色</span>}
+                            </div>
+
                             <hr className="border-neutral-800" />
 
                             {/* Visual Action (Chinese) - Editable */}
@@ -291,7 +551,10 @@ export const StoryboardPhase: React.FC<StoryboardPhaseProps> = ({
                                         <div className="w-1.5 h-1.5 rounded-full bg-blue-500"></div>
                                         中文画面描述
                                     </h4>
-                                    <div className="text-[10px] px-2 py-0.5 rounded bg-neutral-800 border border-neutral-700 text-neutral-400 font-mono">{shot.cameraAngle}</div>
+                                    <div className="flex items-center gap-2">
+                                        <DurationInput shot={shot} onChange={(durationMs) => onUpdateShot(shot.id, { durationMs })} />
+                                        <div className="text-[10px] px-2 py-0.5 rounded bg-neutral-800 border border-neutral-700 text-neutral-400 font-mono">{shot.cameraAngle}</div>
+                                    </div>
                                 </div>
                                 <textarea
                                     className="w-full bg-transparent border border-transparent hover:border-neutral-800 rounded p-1 text-sm text-neutral-300 leading-relaxed font-light resize-none focus:outline-none focus:border-blue-900/50 transition-colors"
@@ -345,6 +608,12 @@ export const StoryboardPhase: React.FC<StoryboardPhaseProps> = ({
                 </div>
             );
         })}
+        {isPlanning && shots.length > 0 && (
+            <div className="flex items-center justify-center gap-2 text-neutral-500 text-xs py-4">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>导演正在规划后续分镜... 已完成 {shots.length} 镜</span>
+            </div>
+        )}
         <div ref={bottomRef} className="h-20" />
       </div>
     </div>
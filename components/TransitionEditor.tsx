@@ -0,0 +1,59 @@
+import React from 'react';
+import { ShotTransition, TransitionType } from '../types';
+import { DEFAULT_TRANSITION_DURATION, DIRECTION_OPTIONS, MAX_TRANSITION_DURATION, TRANSITION_OPTIONS, hasDirection } from '../services/transitions';
+
+interface TransitionEditorProps {
+  transition?: ShotTransition;
+  // `undefined` makes the boundary a hard cut
+  onChange: (transition: ShotTransition | undefined) => void;
+  disabled?: boolean;
+}
+
+// Type, direction and length of the transition into a shot.
+export const TransitionEditor: React.FC<TransitionEditorProps> = ({ transition, onChange, disabled }) => {
+  const type = transition?.type || 'cut';
+  const durationMs = transition?.durationMs || DEFAULT_TRANSITION_DURATION;
+
+  const handleTypeChange = (next: TransitionType) => {
+    if (next === 'cut') return onChange(undefined);
+    onChange({ type: next, durationMs, direction: hasDirection(next) ? transition?.direction || 'left' : undefined });
+  };
+
+  const selectClass = "bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-[11px] text-neutral-300 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select value={type} disabled={disabled} onChange={(e) => handleTypeChange(e.target.value as TransitionType)} className={`flex-1 ${selectClass}`}>
+        {TRANSITION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+      </select>
+      {transition && hasDirection(transition.type) && (
+        <select
+          value={transition.direction || 'left'}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...transition, direction: e.target.value as ShotTransition['direction'] })}
+          className={selectClass}
+        >
+          {DIRECTION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      )}
+      {transition && (
+        <label className="flex items-center gap-1 text-[10px] font-mono text-neutral-400">
+          <input
+            type="number"
+            min={0.1}
+            max={MAX_TRANSITION_DURATION / 1000}
+            step={0.1}
+            value={durationMs / 1000}
+            disabled={disabled}
+            onChange={(e) => {
+              const seconds = parseFloat(e.target.value);
+              if (Number.isFinite(seconds) && seconds > 0) onChange({ ...transition, durationMs: Math.min(MAX_TRANSITION_DURATION, Math.round(seconds * 1000)) });
+            }}
+            className="w-12 bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-right text-white focus:outline-none focus:border-blue-500 disabled:opacity-50"
+          />
+          s
+        </label>
+      )}
+    </div>
+  );
+};
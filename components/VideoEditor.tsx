@@ -1,101 +1,257 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Shot, AspectRatio } from '../types';
+import { Shot, Scene, AspectRatio, AudioMix, SoundAsset } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { getShotDuration, getShotOffsets, formatRuntime, formatSeconds } from '../services/timing';
+import { getShotMotion, getMotionRect, toCssTransform } from '../services/cameraMotion';
+import { FULL_LAYER, LayerStyle, TRANSITION_OPTIONS, getTransition, getTransitionLayers, getTransitionState } from '../services/transitions';
+import { getExportSize } from '../services/frameRenderer';
+import { BITRATE_OPTIONS, DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS, ExportFormat, ExportSettings, RESOLUTION_OPTIONS, exportVideo, getOutputSize, isAbortError } from '../services/videoExport';
+import { SUBTITLE_FORMATS, SubtitleFormat, buildSubtitleFile } from '../services/subtitles';
+import { hasCurrentAudio, isSpokenDialogue, loadAudioBuffer, playDialogue, stopDialogue } from '../services/dialogueAudio';
+import { VoiceCast } from '../services/voiceCasting';
+import { SoundtrackPlayer, buildSoundtrack, loadSoundtrackBuffers, startSoundtrack } from '../services/soundtrack';
+import { listSounds } from '../services/projectStore';
+import { DurationInput } from './DurationInput';
+import { CameraMotionEditor } from './CameraMotionEditor';
+import { TransitionEditor } from './TransitionEditor';
+import { SoundCueEditor } from './SoundCueEditor';
+import { SoundMixer } from './SoundMixer';
+import SoundLibraryModal from './SoundLibraryModal';
 import { 
     ArrowLeft, Play, Pause, SkipBack, SkipForward, 
-    Volume2, Film, Clapperboard, MonitorPlay, Layers, Download, Loader2
+    Volume2, Film, Clapperboard, MonitorPlay, Layers, Download, Loader2, Timer, Move, Wand2, Shuffle, Mic,
+    Music, Sparkles, SlidersHorizontal, Captions, Settings2
 } from 'lucide-react';
 
 interface VideoEditorProps {
     storyboard: Shot[];
+    scenes: Scene[];
     aspectRatio: AspectRatio;
+    onUpdateShot: (id: string, updates: Partial<Shot>) => void;
+    onUpdateScene: (id: string, updates: Partial<Scene>) => void;
+    onSuggestTransitions: () => void;
+    // Synthesize missing voice clips; resolves with the updated shots
+    onPrepareAudio: (ids: string[] | null, onProgress?: (done: number, total: number) => void) => Promise<Shot[]>;
+    voiceCast: VoiceCast;
+    audioMix: AudioMix;
+    onUpdateAudioMix: (mix: AudioMix) => void;
+    // AI ambience, effect and music cues for shots and scenes that have no file picked yet
+    onSuggestSoundtrack: () => Promise<void>;
     onBack: () => void;
 }
 
-// Helper: Text Wrapping for Canvas
-const drawWrappedText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
-    const chars = text.split('');
-    let line = '';
-    const lines = [];
-
-    for (let n = 0; n < chars.length; n++) {
-        const testLine = line + chars[n];
-        const metrics = ctx.measureText(testLine);
-        if (metrics.width > maxWidth && n > 0) {
-            lines.push(line);
-            line = chars[n];
-        } else {
-            line = testLine;
-        }
-    }
-    lines.push(line);
-
-    // Draw lines (Stacking upwards from bottom baseline y is tricky, so we draw downwards from y)
-    // Note: The caller should pass the Y of the *first* line or handle offsetting.
-    // Here we assume Y is the bottom of the last line, so we calculate upwards?
-    // Let's assume Y is the starting Y for the first line.
-    lines.forEach((l, idx) => {
-        ctx.strokeText(l, x, y + (idx * lineHeight));
-        ctx.fillText(l, x, y + (idx * lineHeight));
-    });
+// Mock images if missing
+const getDisplayImage = (shot: Shot) => shot.imageUrl || `https://picsum.photos/seed/${shot.id}/800/1200?blur=2`;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    // Revoking in the same task can cancel the download before it starts
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
 };
 
-export const VideoEditor: React.FC<VideoEditorProps> = ({ storyboard, aspectRatio, onBack }) => {
-    const [currentIndex, setCurrentIndex] = useState(0);
+interface PlayerLayerProps {
+    shot: Shot;
+    elapsedMs: number;
+    layer: LayerStyle;
+    playing: boolean;
+    // Player width in pixels, to scale the relative blur
+    frameWidth: number;
+}
+
+// One shot in the preview player, styled like the export compositor draws it.
+const PlayerLayer: React.FC<PlayerLayerProps> = ({ shot, elapsedMs, layer, playing, frameWidth }) => {
+    const videoUrl = useMediaUrl(shot.videoUrl);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const { clip } = layer;
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+        if (playing) video.play().catch(() => {});
+        else video.pause();
+    }, [playing, videoUrl]);
+
+    return (
+        <div
+            className="absolute inset-0 overflow-hidden"
+            style={{
+                opacity: layer.opacity,
+                clipPath: `inset(${clip.y * 100}% ${(1 - clip.x - clip.width) * 100}% ${(1 - clip.y - clip.height) * 100}% ${clip.x * 100}%)`
+            }}
+        >
+            <div
+                className="absolute inset-0 bg-black"
+                style={{
+                    transform: `translate(${layer.shiftX * 100}%, ${layer.shiftY * 100}%)`,
+                    filter: layer.blur > 0 ? `blur(${layer.blur * frameWidth}px)` : undefined
+                }}
+            >
+                {/* Render the clip, or the still with its camera move */}
+                {videoUrl ? (
+                    <video
+                        ref={videoRef}
+                        src={videoUrl}
+                        poster={shot.imageUrl}
+                        className="w-full h-full object-cover absolute inset-0"
+                        autoPlay={playing}
+                        muted
+                        loop
+                        playsInline
+                    />
+                ) : (
+                    <img
+                        src={getDisplayImage(shot)}
+                        alt="active shot"
+                        className="w-full h-full object-cover absolute inset-0"
+                        style={{ transformOrigin: '0 0', transform: toCssTransform(getMotionRect(getShotMotion(shot), elapsedMs / getShotDuration(shot))), transition: 'transform 50ms linear' }}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+const Editor: React.FC<VideoEditorProps> = ({
+    storyboard, scenes, aspectRatio, onUpdateShot, onUpdateScene, onSuggestTransitions, onPrepareAudio, voiceCast,
+    audioMix, onUpdateAudioMix, onSuggestSoundtrack, onBack
+}) => {
+    const [playheadIndex, setCurrentIndex] = useState(0);
+    // Shots can be deleted under the playhead
+    const currentIndex = Math.min(playheadIndex, storyboard.length - 1);
     const [isPlaying, setIsPlaying] = useState(true);
     const [progress, setProgress] = useState(0);
     
     // Export State
     const [isExporting, setIsExporting] = useState(false);
     const [exportProgress, setExportProgress] = useState(0);
+    const exportAbortRef = useRef<AbortController | null>(null);
+    // Voice synthesis progress, shown while clips are generated
+    const [voiceProgress, setVoiceProgress] = useState<{ done: number; total: number } | null>(null);
+    // Captions: burned into the exported video, or only delivered as separate files
+    const [burnSubtitles, setBurnSubtitles] = useState(true);
+    const [isSubtitleMenuOpen, setIsSubtitleMenuOpen] = useState(false);
+    // Output file: container, size class and bitrate
+    const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+    // Bumped by manual jumps so the playback clock restarts from the new playhead
+    const [seekCount, setSeekCount] = useState(0);
+
+    // Sound library and cue suggestions
+    const [library, setLibrary] = useState<SoundAsset[]>([]);
+    const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+    const [isSuggestingSound, setIsSuggestingSound] = useState(false);
 
-    const DURATION_PER_SHOT = 4000; // 4 seconds per shot
-    const intervalRef = useRef<number | null>(null);
-    const startTimeRef = useRef<number>(0);
-
-    // Mock images if missing
-    const getDisplayImage = (shot: Shot) => shot.imageUrl || `https://picsum.photos/seed/${shot.id}/800/1200?blur=2`;
+    useEffect(() => {
+        listSounds().then(setLibrary).catch(e => console.error("Failed to load sound library", e));
+    }, []);
 
     const currentShot = storyboard[currentIndex];
-
-    // Playback Logic
+    // Same per-shot durations drive playback and export
+    const currentDuration = getShotDuration(currentShot);
+    const shotOffsets = getShotOffsets(storyboard);
+    const totalDuration = shotOffsets[storyboard.length];
+    const elapsedMs = (progress / 100) * currentDuration;
+    const playheadMs = shotOffsets[currentIndex] + elapsedMs;
+
+    // Shots on screen right now: one, or both sides of a transition
+    const playerRef = useRef<HTMLDivElement>(null);
+    const transitionState = getTransitionState(storyboard, currentIndex, elapsedMs);
+    const transitionLayers = transitionState ? getTransitionLayers(transitionState.transition, transitionState.progress) : null;
+    const playerLayers = transitionState && transitionLayers
+        ? [
+            { index: transitionState.fromIndex, elapsed: transitionState.fromElapsed, layer: transitionLayers.from },
+            { index: transitionState.toIndex, elapsed: transitionState.toElapsed, layer: transitionLayers.to }
+        ]
+        : [{ index: currentIndex, elapsed: elapsedMs, layer: FULL_LAYER }];
+    const subtitleShot = transitionState
+        ? storyboard[transitionState.progress < 0.5 ? transitionState.fromIndex : transitionState.toIndex]
+        : currentShot;
+    const currentScene = scenes.find(s => s.id === currentShot.sceneId);
+
+    const playheadRef = useRef(playheadMs);
+    playheadRef.current = playheadMs;
+    const offsetsRef = useRef(shotOffsets);
+    offsetsRef.current = shotOffsets;
+
+    // Playback Logic: one clock for the whole timeline, so the picture stays in step with the soundtrack
     useEffect(() => {
-        if (isPlaying && !isExporting) {
-            startTimeRef.current = Date.now() - (progress / 100) * DURATION_PER_SHOT;
-            intervalRef.current = window.setInterval(() => {
-                const elapsed = Date.now() - startTimeRef.current;
-                const newProgress = (elapsed / DURATION_PER_SHOT) * 100;
-
-                if (newProgress >= 100) {
-                    // Next Slide
-                    if (currentIndex < storyboard.length - 1) {
-                        setCurrentIndex(prev => prev + 1);
-                        setProgress(0);
-                        startTimeRef.current = Date.now();
-                    } else {
-                        // End of Timeline
-                        setIsPlaying(false);
-                        setProgress(100);
-                        if (intervalRef.current) clearInterval(intervalRef.current);
-                    }
-                } else {
-                    setProgress(newProgress);
-                }
-            }, 50);
-        } else {
-            if (intervalRef.current) clearInterval(intervalRef.current);
-        }
+        if (!isPlaying || isExporting) return;
+        const origin = Date.now() - playheadRef.current;
+        const timer = window.setInterval(() => {
+            const offsets = offsetsRef.current;
+            const count = offsets.length - 1;
+            const elapsed = Date.now() - origin;
+            if (elapsed >= offsets[count]) {
+                // End of Timeline
+                setCurrentIndex(count - 1);
+                setProgress(100);
+                setIsPlaying(false);
+                return;
+            }
+            let index = 0;
+            while (index < count - 1 && elapsed >= offsets[index + 1]) index++;
+            setCurrentIndex(index);
+            setProgress(((elapsed - offsets[index]) / (offsets[index + 1] - offsets[index])) * 100);
+        }, 50);
+        return () => clearInterval(timer);
+    }, [isPlaying, isExporting, seekCount]);
+
+    // Soundtrack: dialogue, music, ambience and effects, restarted from the playhead whenever the timeline's sound changes
+    const audioCtxRef = useRef<AudioContext | null>(null);
+    const voiceRef = useRef<AudioBufferSourceNode | null>(null);
+    const soundtrackPlayerRef = useRef<SoundtrackPlayer | null>(null);
+    const mixRef = useRef(audioMix);
+    mixRef.current = audioMix;
+    const soundtrack = buildSoundtrack(storyboard, scenes, voiceCast);
+    const soundtrackKey = JSON.stringify(soundtrack);
+
+    const getAudioContext = () => {
+        if (!audioCtxRef.current) audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+        return audioCtxRef.current;
+    };
 
+    useEffect(() => {
+        if (!isPlaying || isExporting) return;
+        // A line previewed on its own gives way to playback
+        stopDialogue(voiceRef.current);
+        voiceRef.current = null;
+        let cancelled = false;
+        let player: SoundtrackPlayer | null = null;
+        loadSoundtrackBuffers(soundtrack).then(async buffers => {
+            const ctx = getAudioContext();
+            await ctx.resume();
+            if (cancelled) return;
+            player = startSoundtrack(ctx, ctx.destination, soundtrack, buffers, mixRef.current, playheadRef.current);
+            soundtrackPlayerRef.current = player;
+        }).catch(e => console.error("Soundtrack playback failed", e));
         return () => {
-            if (intervalRef.current) clearInterval(intervalRef.current);
+            cancelled = true;
+            player?.stop();
+            soundtrackPlayerRef.current = null;
         };
-    }, [isPlaying, currentIndex, storyboard.length, isExporting]);
+    }, [isPlaying, isExporting, seekCount, soundtrackKey]);
+
+    useEffect(() => {
+        soundtrackPlayerRef.current?.setMix(audioMix);
+    }, [audioMix]);
+
+    useEffect(() => () => {
+        audioCtxRef.current?.close();
+        exportAbortRef.current?.abort();
+    }, []);
 
     // Reset progress when index changes manually
     const handleJump = (index: number) => {
         if (isExporting) return;
         setCurrentIndex(index);
         setProgress(0);
-        startTimeRef.current = Date.now();
+        setSeekCount(c => c + 1);
     };
 
     const togglePlay = () => {
@@ -104,7 +260,6 @@ export const VideoEditor: React.FC<VideoEditorProps> = ({ storyboard, aspectRati
             // Restart
             setCurrentIndex(0);
             setProgress(0);
-            startTimeRef.current = Date.now();
         }
         setIsPlaying(!isPlaying);
     };
@@ -117,170 +272,107 @@ export const VideoEditor: React.FC<VideoEditorProps> = ({ storyboard, aspectRati
         if (currentIndex > 0) handleJump(currentIndex - 1);
     };
 
-    const handleVoicePreview = () => {
-        alert("AI 配音生成中... (Feature Placeholder)");
+    // Synthesize (if needed) and play the current shot's line on its own
+    const handleVoicePreview = async () => {
+        if (!isSpokenDialogue(currentShot.dialogue) || voiceProgress) return;
+        setIsPlaying(false);
+        setVoiceProgress({ done: 0, total: 1 });
+        try {
+            const audioUrl = (await onPrepareAudio([currentShot.id])).find(s => s.id === currentShot.id)?.audioUrl;
+            if (!audioUrl) return;
+            const buffer = await loadAudioBuffer(audioUrl);
+            const ctx = getAudioContext();
+            await ctx.resume();
+            stopDialogue(voiceRef.current);
+            voiceRef.current = playDialogue(ctx, ctx.destination, buffer);
+        } catch (e: any) {
+            alert(`配音生成失败：${e.message || e}`);
+        } finally {
+            setVoiceProgress(null);
+        }
+    };
+
+    const handleGenerateAllVoices = async () => {
+        if (voiceProgress) return;
+        setVoiceProgress({ done: 0, total: 0 });
+        try {
+            await onPrepareAudio(null, (done, total) => setVoiceProgress({ done, total }));
+        } catch (e: any) {
+            alert(`配音生成失败：${e.message || e}`);
+        } finally {
+            setVoiceProgress(null);
+        }
+    };
+
+    const handleSuggestSoundtrack = async () => {
+        if (isSuggestingSound) return;
+        setIsSuggestingSound(true);
+        try {
+            await onSuggestSoundtrack();
+        } catch (e: any) {
+            alert(`智能配乐失败：${e.message || e}`);
+        } finally {
+            setIsSuggestingSound(false);
+        }
     };
 
     // --- Core Video Export Logic ---
     const handleExportVideo = async () => {
         if (isExporting) return;
+        const controller = new AbortController();
+        exportAbortRef.current = controller;
         setIsExporting(true);
         setExportProgress(0);
         setIsPlaying(false); // Pause playback
 
         try {
-            // A. Setup Canvas
-            let width = 1920;
-            let height = 1080;
-            if (aspectRatio === AspectRatio.PORTRAIT) { width = 1080; height = 1920; }
-            else if (aspectRatio === AspectRatio.SQUARE) { width = 1080; height = 1080; }
-            else if (aspectRatio === AspectRatio.CINEMATIC) { width = 1920; height = 816; } // ~2.35:1
-            else if (aspectRatio === AspectRatio.CLASSIC) { width = 1440; height = 1080; }
-
-            const canvas = document.createElement('canvas');
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) throw new Error("Failed to create canvas context");
-
-            // B. Setup Recorder
-            const stream = canvas.captureStream(30); // 30 FPS
-            // Try standard webm/vp9, fallback to default
-            const mimeType = MediaRecorder.isTypeSupported('video/webm; codecs=vp9') 
-                ? 'video/webm; codecs=vp9' 
-                : 'video/webm';
-            
-            const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 5000000 }); // 5Mbps
-            const chunks: BlobPart[] = [];
-            
-            recorder.ondataavailable = (e) => {
-                if (e.data.size > 0) chunks.push(e.data);
-            };
-
-            recorder.onstop = () => {
-                const blob = new Blob(chunks, { type: 'video/webm' });
-                const url = URL.createObjectURL(blob);
-                const a = document.createElement('a');
-                a.href = url;
-                a.download = `manju_storyboard_${Date.now()}.webm`;
-                document.body.appendChild(a);
-                a.click();
-                document.body.removeChild(a);
-                URL.revokeObjectURL(url);
-                setIsExporting(false);
-                setExportProgress(0);
-            };
-
-            recorder.start();
-
-            // C. Draw & Record Loop
-            const RECORD_DURATION = 3000; // 3 seconds per slide for export
-
-            for (let i = 0; i < storyboard.length; i++) {
-                const shot = storyboard[i];
-                setExportProgress(Math.round(((i) / storyboard.length) * 100));
-
-                // 1. Load Image
-                const img = new Image();
-                img.crossOrigin = "anonymous"; // CRITICAL for CORS
-                await new Promise((resolve) => {
-                    img.onload = resolve;
-                    img.onerror = () => {
-                        console.warn(`Export: Image load failed for shot ${i}`);
-                        resolve(null);
-                    };
-                    img.src = shot.imageUrl || `https://placehold.co/${width}x${height}/222/FFF?text=Image+Load+Error`;
-                });
-
-                // 2. Draw Image (Object Cover)
-                ctx.fillStyle = "black";
-                ctx.fillRect(0, 0, width, height);
-
-                if (img.naturalWidth > 0) {
-                    const imgRatio = img.width / img.height;
-                    const canvasRatio = width / height;
-                    let drawW, drawH, offsetX, offsetY;
-
-                    if (imgRatio > canvasRatio) {
-                        drawH = height;
-                        drawW = height * imgRatio;
-                        offsetX = (width - drawW) / 2;
-                        offsetY = 0;
-                    } else {
-                        drawW = width;
-                        drawH = width / imgRatio;
-                        offsetX = 0;
-                        offsetY = (height - drawH) / 2;
-                    }
-                    ctx.drawImage(img, offsetX, offsetY, drawW, drawH);
-                } else {
-                    ctx.fillStyle = "#333";
-                    ctx.fillRect(0,0,width,height);
-                    ctx.fillStyle = "white";
-                    ctx.font = "bold 60px sans-serif";
-                    ctx.textAlign = "center";
-                    ctx.fillText("Missing Image", width/2, height/2);
-                }
-
-                // 3. Draw Subtitles
-                if (shot.dialogue) {
-                    // Gradient Strap
-                    const strapHeight = height * 0.25;
-                    const grad = ctx.createLinearGradient(0, height - strapHeight, 0, height);
-                    grad.addColorStop(0, "rgba(0,0,0,0)");
-                    grad.addColorStop(0.3, "rgba(0,0,0,0.6)");
-                    grad.addColorStop(1, "rgba(0,0,0,0.9)");
-                    ctx.fillStyle = grad;
-                    ctx.fillRect(0, height - strapHeight, width, strapHeight);
-
-                    // Text Config
-                    const fontSize = Math.floor(height * 0.04); 
-                    ctx.font = `bold ${fontSize}px sans-serif`;
-                    ctx.fillStyle = "white";
-                    ctx.textAlign = "center";
-                    ctx.textBaseline = "top"; // Draw downwards
-                    ctx.strokeStyle = "black";
-                    ctx.lineWidth = 3;
-
-                    const textX = width / 2;
-                    const maxWidth = width * 0.85;
-                    const lineHeight = fontSize * 1.35;
-                    
-                    // Count lines to determine start Y (so it aligns to bottom area)
-                    const tempCtx = canvas.getContext('2d')!; // Clone ctx to measure
-                    tempCtx.font = ctx.font;
-                    const chars = shot.dialogue.split('');
-                    let line = '';
-                    let lineCount = 1;
-                    for (let n = 0; n < chars.length; n++) {
-                         const testLine = line + chars[n];
-                         if (tempCtx.measureText(testLine).width > maxWidth && n > 0) {
-                             line = chars[n];
-                             lineCount++;
-                         } else {
-                             line = testLine;
-                         }
-                    }
-
-                    const totalTextH = lineCount * lineHeight;
-                    const startY = height - (height * 0.08) - totalTextH; // 8% padding from bottom
-
-                    drawWrappedText(ctx, shot.dialogue, textX, startY, maxWidth, lineHeight);
-                }
-
-                // 4. Wait
-                await new Promise(r => setTimeout(r, RECORD_DURATION));
+            // Every line needs its voice clip before rendering starts; they also settle the shot durations
+            let timeline = storyboard;
+            try {
+                setVoiceProgress({ done: 0, total: 0 });
+                timeline = await onPrepareAudio(null, (done, total) => setVoiceProgress({ done, total }));
+            } catch (e: any) {
+                if (!confirm(`配音生成失败：${e.message || e}\n是否继续导出（缺少的对白将没有声音）？`)) return;
+            } finally {
+                setVoiceProgress(null);
             }
-
-            recorder.stop();
-
+            if (controller.signal.aborted) return;
+
+            const { width, height } = getOutputSize(aspectRatio, exportSettings);
+            const format = EXPORT_FORMATS.find(o => o.value === exportSettings.format)!;
+            const blob = await exportVideo({
+                shots: timeline,
+                soundtrack: buildSoundtrack(timeline, scenes, voiceCast),
+                mix: audioMix,
+                format: format.value,
+                width,
+                height,
+                bitrate: exportSettings.bitrate,
+                burnSubtitles,
+                onProgress: (fraction) => setExportProgress(Math.round(fraction * 100)),
+                signal: controller.signal
+            });
+            downloadBlob(blob, `manju_storyboard_${Date.now()}.${format.extension}`);
         } catch (e) {
+            if (isAbortError(e)) return;
             console.error("Export Failed", e);
+            alert(`视频导出失败：${(e as Error).message || e}\n请检查图片跨域设置，或换用其他导出格式。`);
+        } finally {
+            exportAbortRef.current = null;
             setIsExporting(false);
-            alert("视频导出失败，请检查浏览器是否支持 WebM 录制，或图片跨域设置。");
+            setExportProgress(0);
         }
     };
 
+    // Caption file timed to the current cut
+    const handleDownloadSubtitles = (format: SubtitleFormat) => {
+        const option = SUBTITLE_FORMATS.find(o => o.value === format)!;
+        const { width, height } = getExportSize(aspectRatio, exportSettings.resolution);
+        const content = buildSubtitleFile(format, storyboard, width, height);
+        downloadBlob(new Blob([content], { type: `${option.mimeType};charset=utf-8` }), `manju_subtitles_${Date.now()}.${format}`);
+        setIsSubtitleMenuOpen(false);
+    };
+
     const getAspectRatioClass = (ratio: AspectRatio) => {
         switch (ratio) {
             case AspectRatio.PORTRAIT: return 'aspect-[9/16] w-full max-w-md';
@@ -312,6 +404,123 @@ export const VideoEditor: React.FC<VideoEditorProps> = ({ storyboard, aspectRati
                 </div>
 
                 <div className="flex items-center gap-4">
+                    <button
+                        onClick={handleGenerateAllVoices}
+                        disabled={isExporting || !!voiceProgress}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border border-neutral-700 text-neutral-400 hover:text-white hover:border-neutral-500 transition-colors disabled:opacity-50"
+                        title="为所有对白生成并缓存配音"
+                    >
+                        {voiceProgress && !isExporting ? (
+                            <><Loader2 className="w-3 h-3 animate-spin" /> 配音 {voiceProgress.done}/{voiceProgress.total}</>
+                        ) : (
+                            <><Mic className="w-3 h-3" /> 生成配音</>
+                        )}
+                    </button>
+
+                    <button
+                        onClick={() => setIsLibraryOpen(true)}
+                        disabled={isExporting}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border border-neutral-700 text-neutral-400 hover:text-white hover:border-neutral-500 transition-colors disabled:opacity-50"
+                        title="导入和管理本地配乐、环境音与音效"
+                    >
+                        <Music className="w-3 h-3" /> 音效库
+                    </button>
+
+                    <button
+                        onClick={handleSuggestSoundtrack}
+                        disabled={isExporting || isSuggestingSound}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border border-neutral-700 text-neutral-400 hover:text-white hover:border-neutral-500 transition-colors disabled:opacity-50"
+                        title="AI 为每个镜头推荐环境音和音效、为每个场景推荐配乐，并从音效库中匹配文件"
+                    >
+                        {isSuggestingSound ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />} 智能配乐
+                    </button>
+
+                    <div className="relative">
+                        <button
+                            onClick={() => setIsSubtitleMenuOpen(open => !open)}
+                            disabled={isExporting}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border border-neutral-700 text-neutral-400 hover:text-white hover:border-neutral-500 transition-colors disabled:opacity-50"
+                            title="字幕文件与烧录设置"
+                        >
+                            <Captions className="w-3 h-3" /> 字幕
+                        </button>
+                        {isSubtitleMenuOpen && (
+                            <div className="absolute right-0 top-full mt-2 w-52 p-2 bg-neutral-900 border border-neutral-700 rounded-lg shadow-2xl space-y-1 z-50">
+                                {SUBTITLE_FORMATS.map(option => (
+                                    <button
+                                        key={option.value}
+                                        onClick={() => handleDownloadSubtitles(option.value)}
+                                        className="w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs text-neutral-300 hover:bg-neutral-800 hover:text-white transition-colors"
+                                    >
+                                        <Download className="w-3 h-3" /> 下载 {option.label}
+                                    </button>
+                                ))}
+                                <label className="flex items-center gap-2 px-2 pt-2 mt-1 border-t border-neutral-800 text-xs text-neutral-400 cursor-pointer">
+                                    <input type="checkbox" checked={burnSubtitles} onChange={(e) => setBurnSubtitles(e.target.checked)} className="accent-blue-500" />
+                                    导出视频时烧录字幕
+                                </label>
+                            </div>
+                        )}
+                    </div>
+
+                    <button
+                        onClick={onSuggestTransitions}
+                        disabled={isExporting}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border border-neutral-700 text-neutral-400 hover:text-white hover:border-neutral-500 transition-colors disabled:opacity-50"
+                        title="按场景切换自动设置转场"
+                    >
+                        <Wand2 className="w-3 h-3" /> 自动转场
+                    </button>
+
+                    <div className="relative">
+                        <button
+                            onClick={() => setIsExportMenuOpen(open => !open)}
+                            disabled={isExporting}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border border-neutral-700 text-neutral-400 hover:text-white hover:border-neutral-500 transition-colors disabled:opacity-50"
+                            title="导出格式、分辨率与码率"
+                        >
+                            <Settings2 className="w-3 h-3" /> {RESOLUTION_OPTIONS.find(o => o.value === exportSettings.resolution)?.label}
+                        </button>
+                        {isExportMenuOpen && (
+                            <div className="absolute right-0 top-full mt-2 w-56 p-3 bg-neutral-900 border border-neutral-700 rounded-lg shadow-2xl space-y-2 z-50">
+                                <label className="flex items-center gap-2 text-[11px] text-neutral-400">
+                                    <span className="w-10 shrink-0">格式</span>
+                                    <select
+                                        value={exportSettings.format}
+                                        onChange={(e) => setExportSettings(settings => ({ ...settings, format: e.target.value as ExportFormat }))}
+                                        className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-[11px] text-neutral-300 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                                    >
+                                        {EXPORT_FORMATS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                    </select>
+                                </label>
+                                <label className="flex items-center gap-2 text-[11px] text-neutral-400">
+                                    <span className="w-10 shrink-0">分辨率</span>
+                                    <select
+                                        value={exportSettings.resolution}
+                                        onChange={(e) => setExportSettings(settings => ({ ...settings, resolution: Number(e.target.value) }))}
+                                        className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-[11px] text-neutral-300 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                                    >
+                                        {RESOLUTION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                    </select>
+                                </label>
+                                <label className="flex items-center gap-2 text-[11px] text-neutral-400">
+                                    <span className="w-10 shrink-0">码率</span>
+                                    <select
+                                        value={exportSettings.bitrate}
+                                        disabled={exportSettings.format === 'gif'}
+                                        onChange={(e) => setExportSettings(settings => ({ ...settings, bitrate: Number(e.target.value) }))}
+                                        className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-[11px] text-neutral-300 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                                    >
+                                        {BITRATE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                    </select>
+                                </label>
+                                {exportSettings.format === 'gif' && (
+                                    <p className="text-[10px] text-neutral-500 leading-relaxed">GIF 无声，最高 480p、10 帧/秒，适合在聊天中快速预览。</p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
                     {/* Export Button */}
                     <button
                         onClick={handleExportVideo}
@@ -326,16 +535,21 @@ export const VideoEditor: React.FC<VideoEditorProps> = ({ storyboard, aspectRati
                         {isExporting ? (
                             <>
                                 <Loader2 className="w-3 h-3 animate-spin" />
-                                <span>合成中 {exportProgress}%</span>
+                                <span>{voiceProgress ? `配音 ${voiceProgress.done}/${voiceProgress.total}` : `合成中 ${exportProgress}%`}</span>
                             </>
                         ) : (
                             <>
                                 <Download className="w-3 h-3" />
-                                导出视频 (Download .webm)
+                                导出视频 (.{EXPORT_FORMATS.find(o => o.value === exportSettings.format)?.extension})
                             </>
                         )}
                     </button>
 
+                    <div className="text-xs font-mono text-neutral-500 border-l border-neutral-800 pl-4 flex items-center gap-1.5" title="当前位置 / 总时长">
+                        <Timer className="w-3 h-3" />
+                        {formatRuntime(playheadMs)} / {formatRuntime(totalDuration)}
+                    </div>
+
                     <div className="text-xs font-mono text-neutral-500 border-l border-neutral-800 pl-4">
                         {currentIndex + 1} / {storyboard.length}
                     </div>
@@ -370,12 +584,112 @@ export const VideoEditor: React.FC<VideoEditorProps> = ({ storyboard, aspectRati
                             </div>
                             <button 
                                 onClick={handleVoicePreview}
-                                disabled={isExporting}
+                                disabled={isExporting || !!voiceProgress || !isSpokenDialogue(currentShot.dialogue)}
                                 className="w-full py-2 bg-neutral-800 hover:bg-neutral-700 text-neutral-400 hover:text-white rounded border border-neutral-700 transition-colors text-xs flex items-center justify-center gap-2 disabled:opacity-50"
                             >
-                                <Volume2 className="w-3 h-3" />
+                                {voiceProgress ? <Loader2 className="w-3 h-3 animate-spin" /> : <Volume2 className="w-3 h-3" />}
                                 播放配音 (Preview Audio)
                             </button>
+                            {isSpokenDialogue(currentShot.dialogue) && (
+                                <p className="text-[10px] text-neutral-600 font-mono">
+                                    {hasCurrentAudio(currentShot, voiceCast)
+                                        ? `已缓存配音 · ${formatSeconds(currentShot.audioDurationMs || 0)}s`
+                                        : '尚未生成配音，播放或导出时自动生成'}
+                                </p>
+                            )}
+                        </div>
+
+                        {/* Sound Cues */}
+                        <div className="space-y-3">
+                            <label className="text-[10px] font-bold text-neutral-500 uppercase flex items-center gap-1">
+                                <Music className="w-3 h-3" /> 声音 (Sound)
+                            </label>
+                            <div className="space-y-1">
+                                <span className="text-[10px] text-neutral-500">环境音 · 循环铺满本镜</span>
+                                <SoundCueEditor
+                                    track="ambience"
+                                    cue={currentShot.ambience}
+                                    library={library}
+                                    disabled={isExporting}
+                                    onChange={(ambience) => onUpdateShot(currentShot.id, { ambience })}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <span className="text-[10px] text-neutral-500">音效 · 镜头开始时播放</span>
+                                <SoundCueEditor
+                                    track="sfx"
+                                    cue={currentShot.sfx}
+                                    library={library}
+                                    disabled={isExporting}
+                                    onChange={(sfx) => onUpdateShot(currentShot.id, { sfx })}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <span className="text-[10px] text-neutral-500">场景配乐{currentScene ? ` · ${currentScene.name}` : ''}</span>
+                                {currentScene ? (
+                                    <SoundCueEditor
+                                        track="bgm"
+                                        cue={currentScene.bgm}
+                                        library={library}
+                                        disabled={isExporting}
+                                        onChange={(bgm) => onUpdateScene(currentScene.id, { bgm })}
+                                    />
+                                ) : (
+                                    <p className="text-xs text-neutral-600 italic">此镜头未关联场景，无法设置配乐。</p>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Mixer */}
+                        <div className="space-y-2">
+                            <label className="text-[10px] font-bold text-neutral-500 uppercase flex items-center gap-1">
+                                <SlidersHorizontal className="w-3 h-3" /> 混音 (Mixer)
+                            </label>
+                            <SoundMixer mix={audioMix} disabled={isExporting} onChange={onUpdateAudioMix} />
+                        </div>
+
+                        {/* Shot Duration */}
+                        <div className="flex items-center justify-between">
+                            <label className="text-[10px] font-bold text-neutral-500 uppercase flex items-center gap-1">
+                                <Timer className="w-3 h-3" /> 镜头时长 (Duration)
+                            </label>
+                            <DurationInput
+                                shot={currentShot}
+                                disabled={isExporting}
+                                onChange={(durationMs) => onUpdateShot(currentShot.id, { durationMs })}
+                            />
+                        </div>
+
+                        {/* Transition In */}
+                        {currentIndex > 0 && (
+                            <div className="space-y-2">
+                                <label className="text-[10px] font-bold text-neutral-500 uppercase flex items-center gap-1">
+                                    <Shuffle className="w-3 h-3" /> 入场转场 (Transition)
+                                </label>
+                                <TransitionEditor
+                                    transition={currentShot.transition}
+                                    disabled={isExporting}
+                                    onChange={(transition) => onUpdateShot(currentShot.id, { transition })}
+                                />
+                            </div>
+                        )}
+
+                        {/* Camera Motion */}
+                        <div className="space-y-2">
+                            <label className="text-[10px] font-bold text-neutral-500 uppercase flex items-center gap-1">
+                                <Move className="w-3 h-3" /> 镜头运动 (Camera Motion)
+                            </label>
+                            {currentShot.videoUrl ? (
+                                <p className="text-xs text-neutral-600 italic">视频片段自带运镜，不叠加推拉摇移。</p>
+                            ) : (
+                                <CameraMotionEditor
+                                    shot={currentShot}
+                                    imageUrl={getDisplayImage(currentShot)}
+                                    aspectRatio={aspectRatio}
+                                    disabled={isExporting}
+                                    onChange={(cameraMotion) => onUpdateShot(currentShot.id, { cameraMotion })}
+                                />
+                            )}
                         </div>
 
                         {/* Visual Description */}
@@ -394,31 +708,43 @@ export const VideoEditor: React.FC<VideoEditorProps> = ({ storyboard, aspectRati
                 <div className="flex-1 bg-black relative flex flex-col items-center justify-center p-8">
                     
                     {/* Responsive Container */}
-                    <div className={`relative ${getAspectRatioClass(aspectRatio)} bg-neutral-900 rounded-2xl border-[4px] border-neutral-800 shadow-2xl overflow-hidden ring-1 ring-white/10 transition-all duration-500`}>
+                    <div ref={playerRef} className={`relative ${getAspectRatioClass(aspectRatio)} bg-neutral-900 rounded-2xl border-[4px] border-neutral-800 shadow-2xl overflow-hidden ring-1 ring-white/10 transition-all duration-500`}>
                         
-                        {/* Render Active Image & Animation */}
-                        <img 
-                            key={currentIndex}
-                            src={getDisplayImage(currentShot)}
-                            alt="active shot"
-                            className={`w-full h-full object-cover absolute inset-0 ${isPlaying && !isExporting ? 'animate-ken-burns' : ''}`}
-                        />
+                        {playerLayers.map(({ index, elapsed, layer }) => (
+                            <PlayerLayer
+                                key={storyboard[index].id}
+                                shot={storyboard[index]}
+                                elapsedMs={elapsed}
+                                layer={layer}
+                                playing={isPlaying && !isExporting}
+                                frameWidth={playerRef.current?.clientWidth || 0}
+                            />
+                        ))}
+                        {transitionLayers?.overlay && (
+                            <div className="absolute inset-0 pointer-events-none" style={{ backgroundColor: transitionLayers.overlay.color, opacity: transitionLayers.overlay.opacity }} />
+                        )}
                         
                         {/* Export Overlay */}
                         {isExporting && (
                             <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center z-50 backdrop-blur-sm">
                                 <Loader2 className="w-12 h-12 animate-spin text-green-500 mb-4" />
                                 <div className="text-white font-bold text-xl">正在合成视频...</div>
-                                <div className="text-neutral-400 text-sm mt-2">处理中: {currentIndex + 1} / {storyboard.length}</div>
+                                <div className="text-neutral-400 text-sm mt-2">{voiceProgress ? `配音 ${voiceProgress.done}/${voiceProgress.total}` : `${exportProgress}%`}</div>
+                                <button
+                                    onClick={() => exportAbortRef.current?.abort()}
+                                    className="mt-4 px-4 py-1.5 rounded-full text-xs font-bold border border-neutral-600 text-neutral-300 hover:text-white hover:border-neutral-400 transition-colors"
+                                >
+                                    取消
+                                </button>
                             </div>
                         )}
 
                         {/* Subtitle Overlay */}
                         <div className="absolute inset-0 z-10 flex flex-col justify-end pointer-events-none">
                              <div className="bg-gradient-to-t from-black/90 via-black/40 to-transparent pb-12 px-8 pt-20">
-                                {currentShot.dialogue && (
-                                    <p className="text-white text-xl font-bold text-center leading-normal drop-shadow-md animate-fade-in-up">
-                                        {currentShot.dialogue}
+                                {subtitleShot.dialogue && (
+                                    <p key={subtitleShot.id} className="text-white text-xl font-bold text-center leading-normal drop-shadow-md animate-fade-in-up">
+                                        {subtitleShot.dialogue}
                                     </p>
                                 )}
                              </div>
@@ -444,48 +770,78 @@ export const VideoEditor: React.FC<VideoEditorProps> = ({ storyboard, aspectRati
                 <div className="h-1 bg-neutral-800 w-full relative">
                     <div 
                         className="h-full bg-blue-500 transition-all duration-100 ease-linear"
-                        style={{ width: `${((currentIndex) / storyboard.length) * 100}%` }}
+                        style={{ width: `${totalDuration ? (playheadMs / totalDuration) * 100 : 0}%` }}
                     />
                 </div>
 
                 {/* Thumbnails Rail */}
                 <div className={`flex-1 flex items-center px-4 overflow-x-auto gap-2 scrollbar-hide py-2 ${isExporting ? 'pointer-events-none opacity-50' : ''}`}>
                     {storyboard.map((shot, idx) => (
-                        <div 
-                            key={shot.id}
-                            onClick={() => handleJump(idx)}
-                            className={`
-                                relative h-20 aspect-video rounded-md overflow-hidden cursor-pointer transition-all shrink-0
-                                ${currentIndex === idx ? 'ring-2 ring-blue-500 scale-105 opacity-100' : 'opacity-40 hover:opacity-80 grayscale hover:grayscale-0'}
-                            `}
-                        >
-                            <img src={getDisplayImage(shot)} className="w-full h-full object-cover" alt={`shot-${idx}`} />
-                            
-                            {/* Inner Progress for active shot */}
-                            {currentIndex === idx && !isExporting && (
-                                <div className="absolute bottom-0 left-0 h-1 bg-blue-500 z-10" style={{ width: `${progress}%` }}></div>
+                        <React.Fragment key={shot.id}>
+                            {/* Transition marker on the boundary before this shot */}
+                            {idx > 0 && (
+                                <div
+                                    onClick={() => handleJump(idx)}
+                                    className="shrink-0 w-3 flex items-center justify-center cursor-pointer"
+                                    title={TRANSITION_OPTIONS.find(o => o.value === (getTransition(storyboard, idx)?.type || 'cut'))?.label}
+                                >
+                                    {getTransition(storyboard, idx)
+                                        ? <div className="w-2.5 h-2.5 rotate-45 bg-blue-500 rounded-sm" />
+                                        : <div className="w-px h-8 bg-neutral-700" />}
+                                </div>
                             )}
-
-                            <div className="absolute top-1 left-1 px-1 rounded bg-black/60 text-[8px] text-white font-mono">
-                                {idx + 1}
+                            <div 
+                                onClick={() => handleJump(idx)}
+                                className={`
+                                    relative h-20 aspect-video rounded-md overflow-hidden cursor-pointer transition-all shrink-0
+                                    ${currentIndex === idx ? 'ring-2 ring-blue-500 scale-105 opacity-100' : 'opacity-40 hover:opacity-80 grayscale hover:grayscale-0'}
+                                `}
+                            >
+                                <img src={getDisplayImage(shot)} className="w-full h-full object-cover" alt={`shot-${idx}`} />
+                                
+                                {/* Inner Progress for active shot */}
+                                {currentIndex === idx && !isExporting && (
+                                    <div className="absolute bottom-0 left-0 h-1 bg-blue-500 z-10" style={{ width: `${progress}%` }}></div>
+                                )}
+    
+                                <div className="absolute top-1 left-1 px-1 rounded bg-black/60 text-[8px] text-white font-mono">
+                                    {idx + 1}
+                                </div>
+                                <div className="absolute top-1 right-1 px-1 rounded bg-black/60 text-[8px] text-white font-mono">
+                                    {formatSeconds(getShotDuration(shot))}s
+                                </div>
                             </div>
-                        </div>
+                        </React.Fragment>
                     ))}
                     {/* Spacer */}
                     <div className="w-10 shrink-0"></div> 
                 </div>
             </div>
 
-            {/* Styles for animation */}
-            <style>{`
-                .animate-ken-burns {
-                    animation: kenburns 5s ease-out forwards;
-                }
-                @keyframes kenburns {
-                    0% { transform: scale(1); }
-                    100% { transform: scale(1.15); }
-                }
-            `}</style>
+            <SoundLibraryModal
+                isOpen={isLibraryOpen}
+                library={library}
+                onChange={setLibrary}
+                onClose={() => setIsLibraryOpen(false)}
+            />
         </div>
     );
-};
\ No newline at end of file
+};
+
+// Nothing to play back once every shot has been deleted
+export const VideoEditor: React.FC<VideoEditorProps> = (props) => {
+    if (props.storyboard.length > 0) return <Editor {...props} />;
+    return (
+        <div className="flex flex-col items-center justify-center gap-4 h-full w-full bg-black text-neutral-500">
+            <Film className="w-8 h-8 text-neutral-700" />
+            <p className="text-sm">分镜板中还没有镜头</p>
+            <button
+                onClick={props.onBack}
+                className="flex items-center gap-2 text-neutral-400 hover:text-white transition-colors text-xs font-bold group"
+            >
+                <ArrowLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
+                返回分镜板
+            </button>
+        </div>
+    );
+};
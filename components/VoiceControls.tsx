@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Loader2, Volume2 } from 'lucide-react';
+import { SpeakingRate, VoiceProfile } from '../types';
+import { RATE_OPTIONS, STYLE_PRESETS, VOICE_OPTIONS } from '../services/voiceCasting';
+import { loadVoicePreview, playDialogue } from '../services/dialogueAudio';
+
+interface VoiceControlsProps {
+  voice: VoiceProfile;
+  onChange: (voice: VoiceProfile) => void;
+  // Line spoken by the preview button
+  sampleText: string;
+}
+
+// Voice, pace and delivery pickers with a spoken preview.
+export const VoiceControls: React.FC<VoiceControlsProps> = ({ voice, onChange, sampleText }) => {
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setPreviewError(null);
+    try {
+      const buffer = await loadVoicePreview(sampleText, voice);
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const source = playDialogue(ctx, ctx.destination, buffer);
+      if (source) source.onended = () => ctx.close();
+    } catch (e: any) {
+      setPreviewError(e.message || "Preview failed");
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const selectClass = "bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-blue-500";
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={voice.voiceName} onChange={(e) => onChange({ ...voice, voiceName: e.target.value })} className={`flex-1 min-w-[120px] ${selectClass}`}>
+          <optgroup label="女声">
+            {VOICE_OPTIONS.filter(v => v.gender === 'female').map(v => <option key={v.name} value={v.name}>{v.label} · {v.name}</option>)}
+          </optgroup>
+          <optgroup label="男声">
+            {VOICE_OPTIONS.filter(v => v.gender === 'male').map(v => <option key={v.name} value={v.name}>{v.label} · {v.name}</option>)}
+          </optgroup>
+        </select>
+        <select value={voice.rate} onChange={(e) => onChange({ ...voice, rate: e.target.value as SpeakingRate })} className={selectClass}>
+          {RATE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <select value={voice.style || ''} onChange={(e) => onChange({ ...voice, style: e.target.value || undefined })} className={selectClass}>
+          <option value="">自然语气</option>
+          {STYLE_PRESETS.map(p => <option key={p.instruction} value={p.instruction}>{p.label}</option>)}
+          {voice.style && !STYLE_PRESETS.some(p => p.instruction === voice.style) && <option value={voice.style}>{voice.style}</option>}
+        </select>
+        <button
+          onClick={handlePreview}
+          disabled={isPreviewing}
+          className="px-2 py-1 rounded border border-gray-700 text-xs text-blue-400 hover:text-blue-300 hover:border-gray-600 disabled:opacity-40 flex items-center gap-1 transition-colors"
+        >
+          {isPreviewing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Volume2 className="w-3 h-3" />}
+          试听
+        </button>
+      </div>
+      {previewError && <p className="text-[10px] text-red-400">{previewError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import { useRef, useState } from 'react';
+
+/**
+ * Multi-level undo/redo over a record of independent state slices.
+ * Each entry stores only the slices it touched (their values *before* the edit),
+ * so undoing a script edit never rewinds shots and vice versa.
+ */
+
+export interface HistoryEntry<T> {
+  id: number;
+  label: string;
+  timestamp: number;
+  before: Partial<T>;
+  coalesceKey?: string;
+}
+
+const HISTORY_LIMIT = 100;
+// Consecutive edits with the same coalesce key (e.g. typing) merge into one entry
+const COALESCE_WINDOW = 1500;
+
+export const useHistory = <T extends object>() => {
+  const pastRef = useRef<HistoryEntry<T>[]>([]);
+  const futureRef = useRef<HistoryEntry<T>[]>([]);
+  const nextIdRef = useRef(0);
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion(v => v + 1);
+
+  const record = (label: string, before: Partial<T>, coalesceKey?: string) => {
+    const now = Date.now();
+    const last = pastRef.current[pastRef.current.length - 1];
+    if (coalesceKey && last && last.coalesceKey === coalesceKey && now - last.timestamp < COALESCE_WINDOW && futureRef.current.length === 0) {
+      last.timestamp = now;
+      return;
+    }
+    pastRef.current = [...pastRef.current, { id: nextIdRef.current++, label, timestamp: now, before, coalesceKey }].slice(-HISTORY_LIMIT);
+    futureRef.current = [];
+    bump();
+  };
+
+  // Swap the entry's stored slices with the current values, returning the new state.
+  const swap = (entry: HistoryEntry<T>, current: T): [T, HistoryEntry<T>] => {
+    const keys = Object.keys(entry.before) as (keyof T)[];
+    const after: Partial<T> = {};
+    keys.forEach(key => { after[key] = current[key]; });
+    return [{ ...current, ...entry.before }, { ...entry, before: after, coalesceKey: undefined }];
+  };
+
+  const undo = (current: T, steps = 1): T | null => {
+    if (pastRef.current.length === 0) return null;
+    let state = current;
+    for (let i = 0; i < steps && pastRef.current.length > 0; i++) {
+      const entry = pastRef.current[pastRef.current.length - 1];
+      const [next, inverse] = swap(entry, state);
+      pastRef.current = pastRef.current.slice(0, -1);
+      futureRef.current = [...futureRef.current, inverse];
+      state = next;
+    }
+    bump();
+    return state;
+  };
+
+  const redo = (current: T, steps = 1): T | null => {
+    if (futureRef.current.length === 0) return null;
+    let state = current;
+    for (let i = 0; i < steps && futureRef.current.length > 0; i++) {
+      const entry = futureRef.current[futureRef.current.length - 1];
+      const [next, inverse] = swap(entry, state);
+      futureRef.current = futureRef.current.slice(0, -1);
+      pastRef.current = [...pastRef.current, { ...inverse, timestamp: Date.now() }];
+      state = next;
+    }
+    bump();
+    return state;
+  };
+
+  // Drop entries touching the given slices, e.g. after they were replaced wholesale.
+  const forget = (keys: (keyof T)[]) => {
+    const untouched = (entry: HistoryEntry<T>) => !keys.some(key => key in entry.before);
+    pastRef.current = pastRef.current.filter(untouched);
+    futureRef.current = futureRef.current.filter(untouched);
+    bump();
+  };
+
+  const clear = () => {
+    pastRef.current = [];
+    futureRef.current = [];
+    bump();
+  };
+
+  return {
+    past: pastRef.current,
+    future: futureRef.current,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+    record,
+    undo,
+    redo,
+    forget,
+    clear
+  };
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { isMediaRef, resolveMediaUrl } from '../services/projectStore';
+
+// Resolves `media:` references from the local media store into playable object URLs.
+export const useMediaUrl = (url?: string): string | undefined => {
+  const [resolved, setResolved] = useState<string | undefined>(isMediaRef(url) ? undefined : url);
+
+  useEffect(() => {
+    if (!isMediaRef(url)) {
+      setResolved(url);
+      return;
+    }
+    let cancelled = false;
+    setResolved(undefined);
+    resolveMediaUrl(url)
+      .then(objectUrl => { if (!cancelled) setResolved(objectUrl); })
+      .catch(e => console.error("Media resolve failed", e));
+    return () => { cancelled = true; };
+  }, [url]);
+
+  return resolved;
+};
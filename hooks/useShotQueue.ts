@@ -0,0 +1,174 @@
+import { useRef, useState } from 'react';
+import { Shot } from '../types';
+import { getImageSettings, preloadImage } from '../services/imageProviders';
+
+/**
+ * Shot image generation queue.
+ * Runs up to `concurrency` shots at once (from image settings), preloads every
+ * result so broken images count as failures, and retries with exponential
+ * backoff before giving up on a shot.
+ */
+
+export type ShotTaskStatus = 'queued' | 'running' | 'retrying' | 'failed' | 'done';
+
+export interface ShotTask {
+  shot: Shot;
+  seed: number;
+  status: ShotTaskStatus;
+  attempt: number;
+  error?: string;
+}
+
+export interface ShotQueueHandlers {
+  // Produce an image URL for the shot; the queue verifies it loads.
+  generate: (shot: Shot, seed: number, signal: AbortSignal) => Promise<string>;
+  onStart: (shotId: string) => void;
+  onSuccess: (shotId: string, imageUrl: string) => void;
+  onFailure: (shotId: string, error: string) => void;
+  onCancel: (shotId: string) => void;
+}
+
+const RETRY_BASE_DELAY = 2000;
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+export const useShotQueue = (handlers: ShotQueueHandlers) => {
+  // Insertion order is queue order
+  const tasksRef = useRef<Map<string, ShotTask>>(new Map());
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion(v => v + 1);
+
+  const isActive = (task: ShotTask) => task.status === 'running' || task.status === 'retrying';
+
+  const run = async (id: string, task: ShotTask) => {
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    const { signal } = controller;
+    const { maxRetries } = getImageSettings();
+    task.status = 'running';
+    handlersRef.current.onStart(id);
+    bump();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const imageUrl = await handlersRef.current.generate(task.shot, task.seed, signal);
+        await preloadImage(imageUrl, signal);
+        if (signal.aborted) return;
+        task.status = 'done';
+        handlersRef.current.onSuccess(id, imageUrl);
+        break;
+      } catch (e: any) {
+        if (signal.aborted) return;
+        task.error = e.message || "Image generation failed";
+        if (attempt >= maxRetries) {
+          task.status = 'failed';
+          handlersRef.current.onFailure(id, task.error!);
+          break;
+        }
+        task.status = 'retrying';
+        task.attempt = attempt + 1;
+        bump();
+        await wait(RETRY_BASE_DELAY * 2 ** attempt, signal);
+        if (signal.aborted) return;
+        task.status = 'running';
+        bump();
+      }
+    }
+
+    if (controllersRef.current.get(id) === controller) controllersRef.current.delete(id);
+    bump();
+    pump();
+  };
+
+  const pump = () => {
+    const concurrency = Math.max(1, getImageSettings().concurrency);
+    const tasks = [...tasksRef.current.entries()];
+    let active = tasks.filter(([, task]) => isActive(task)).length;
+    for (const [id, task] of tasks) {
+      if (active >= concurrency) break;
+      if (task.status !== 'queued') continue;
+      active++;
+      run(id, task);
+    }
+  };
+
+  const stop = (id: string) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+  };
+
+  // Queue shots for generation; re-enqueuing a shot restarts it.
+  const enqueue = (items: { shot: Shot; seed: number }[]) => {
+    items.forEach(({ shot, seed }) => {
+      stop(shot.id);
+      tasksRef.current.delete(shot.id);
+      tasksRef.current.set(shot.id, { shot, seed, status: 'queued', attempt: 0 });
+    });
+    bump();
+    pump();
+  };
+
+  const cancel = (id: string) => {
+    const task = tasksRef.current.get(id);
+    if (!task) return;
+    stop(id);
+    tasksRef.current.delete(id);
+    if (task.status !== 'done' && task.status !== 'failed') handlersRef.current.onCancel(id);
+    bump();
+    pump();
+  };
+
+  const cancelAll = () => {
+    tasksRef.current.forEach((task, id) => {
+      stop(id);
+      if (task.status !== 'done' && task.status !== 'failed') handlersRef.current.onCancel(id);
+    });
+    tasksRef.current.clear();
+    bump();
+  };
+
+  const retryFailed = () => {
+    tasksRef.current.forEach(task => {
+      if (task.status !== 'failed') return;
+      task.status = 'queued';
+      task.attempt = 0;
+      task.error = undefined;
+    });
+    bump();
+    pump();
+  };
+
+  // Drop finished tasks once nothing is pending, e.g. when the panel is dismissed.
+  const clearFinished = () => {
+    tasksRef.current.forEach((task, id) => {
+      if (task.status === 'done' || task.status === 'failed') tasksRef.current.delete(id);
+    });
+    bump();
+  };
+
+  const tasks = [...tasksRef.current.values()];
+  const counts = {
+    total: tasks.length,
+    queued: tasks.filter(t => t.status === 'queued').length,
+    running: tasks.filter(t => t.status === 'running').length,
+    retrying: tasks.filter(t => t.status === 'retrying').length,
+    failed: tasks.filter(t => t.status === 'failed').length,
+    done: tasks.filter(t => t.status === 'done').length
+  };
+
+  return {
+    tasks: tasksRef.current,
+    counts,
+    enqueue,
+    cancel,
+    cancelAll,
+    retryFailed,
+    clearFinished
+  };
+};
@@ -0,0 +1,109 @@
+import { Type } from "@google/genai";
+
+/**
+ * Helpers around the Gemini `Type` schemas used by the analysis calls:
+ * translation to plain JSON Schema for the other providers' structured output
+ * (OpenAI `json_schema`, Anthropic tool input, Ollama `format`), and runtime
+ * validation of whatever a provider actually returned.
+ */
+
+// Structured-output APIs need an object at the root, so arrays are wrapped in this key.
+export const ARRAY_WRAPPER_KEY = 'items';
+
+const toJsonSchema = (schema: any): any => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const properties: Record<string, any> = schema.properties || {};
+      const required: string[] = schema.required || [];
+      // Strict mode requires every property to be listed; optional ones become nullable instead
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => {
+          const converted = toJsonSchema(value);
+          return [key, required.includes(key) ? converted : { ...converted, type: [converted.type, 'null'] }];
+        })),
+        required: Object.keys(properties),
+        additionalProperties: false
+      };
+    }
+    case Type.ARRAY:
+      return { type: 'array', items: toJsonSchema(schema.items) };
+    default: {
+      const converted: any = { type: String(schema.type).toLowerCase() };
+      if (schema.enum) converted.enum = schema.enum;
+      if (schema.description) converted.description = schema.description;
+      return converted;
+    }
+  }
+};
+
+// JSON Schema with an object root, as OpenAI structured outputs and Anthropic tool inputs require.
+export const toRootJsonSchema = (schema: any) => schema.type === Type.ARRAY
+  ? { type: 'object', properties: { [ARRAY_WRAPPER_KEY]: toJsonSchema(schema) }, required: [ARRAY_WRAPPER_KEY], additionalProperties: false }
+  : toJsonSchema(schema);
+
+export const toOpenAIResponseFormat = (schema: any) => ({
+  type: 'json_schema',
+  json_schema: { name: 'response', strict: true, schema: toRootJsonSchema(schema) }
+});
+
+/**
+ * Bring a parsed payload closer to the schema before validating: unwrap arrays
+ * that came back inside an object (`{ "items": [...] }`, `{ "shots": [...] }`)
+ * and drop nulls left by nullable optional fields.
+ */
+export const coerceToSchema = (value: any, schema: any): any => {
+  if (value === null || value === undefined) return value;
+  switch (schema.type) {
+    case Type.ARRAY: {
+      let list = value;
+      if (!Array.isArray(list) && typeof list === 'object') {
+        list = list[ARRAY_WRAPPER_KEY] ?? Object.values(list).find(Array.isArray) ?? list;
+      }
+      return Array.isArray(list) ? list.map(item => coerceToSchema(item, schema.items)) : list;
+    }
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return value;
+      const result: Record<string, any> = {};
+      Object.entries(value).forEach(([key, item]) => {
+        const propSchema = schema.properties?.[key];
+        if (item === null && !(schema.required || []).includes(key)) return;
+        result[key] = propSchema ? coerceToSchema(item, propSchema) : item;
+      });
+      return result;
+    }
+    default:
+      return value;
+  }
+};
+
+// Returns a list of problems, empty when the value matches.
+export const validateSchema = (value: any, schema: any, path = '$'): string[] => {
+  switch (schema.type) {
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      return value.flatMap((item, i) => validateSchema(item, schema.items, `${path}[${i}]`));
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} should be an object`];
+      const errors: string[] = [];
+      (schema.required || []).forEach((key: string) => {
+        if (value[key] === undefined || value[key] === null) errors.push(`${path}.${key} is required`);
+      });
+      Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+        if (value[key] !== undefined) errors.push(...validateSchema(value[key], propSchema, `${path}.${key}`));
+      });
+      return errors;
+    }
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} should be one of ${schema.enum.join(', ')}`];
+      return [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return typeof value === 'number' ? [] : [`${path} should be a number`];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,55 @@
+import { AIProvider } from "../types";
+
+/**
+ * API keys, one per provider. The Gemini key also serves speech (TTS) and Veo
+ * video whatever the text provider is, so a key entered for another provider
+ * must never take its place.
+ */
+
+export type KeyedProvider = Exclude<AIProvider, 'ollama'>;
+
+// Gemini keeps the original storage key so existing setups carry over
+const STORAGE_KEYS: Record<KeyedProvider, string> = {
+  gemini: 'manju_api_key',
+  openai: 'manju_api_key_openai',
+  anthropic: 'manju_api_key_anthropic'
+};
+
+export const hasApiKey = (provider: AIProvider): provider is KeyedProvider => provider in STORAGE_KEYS;
+
+const MIGRATION_FLAG = 'manju_api_keys_split';
+
+const readTextProvider = (): AIProvider | undefined => {
+  try {
+    return JSON.parse(localStorage.getItem('manju_ai_settings') || '{}').provider;
+  } catch {
+    return undefined;
+  }
+};
+
+// The single key field used to hold the key of whichever text provider was
+// selected; move it to that provider once so Gemini never receives it.
+const migrateSharedKey = () => {
+  if (localStorage.getItem(MIGRATION_FLAG)) return;
+  localStorage.setItem(MIGRATION_FLAG, '1');
+  const shared = localStorage.getItem(STORAGE_KEYS.gemini);
+  const provider = readTextProvider();
+  if (!shared || !provider || provider === 'gemini' || !hasApiKey(provider)) return;
+  if (!localStorage.getItem(STORAGE_KEYS[provider])) localStorage.setItem(STORAGE_KEYS[provider], shared);
+  localStorage.removeItem(STORAGE_KEYS.gemini);
+};
+
+// The key entered in settings, if any
+export const getSavedApiKey = (provider: KeyedProvider): string => {
+  migrateSharedKey();
+  return localStorage.getItem(STORAGE_KEYS[provider]) || '';
+};
+
+// User-entered keys win over the build-time one, which is a Gemini key
+export const getApiKey = (provider: KeyedProvider): string =>
+  getSavedApiKey(provider) || (provider === 'gemini' ? process.env.API_KEY : '') || "";
+
+export const saveApiKey = (provider: KeyedProvider, key: string) => {
+  migrateSharedKey();
+  localStorage.setItem(STORAGE_KEYS[provider], key);
+};
@@ -0,0 +1,89 @@
+import { CameraMotion, CropRect, MotionEasing, Shot } from "../types";
+
+/**
+ * Ken Burns camera moves. A motion pans/zooms between two crop rectangles of
+ * the cover-fitted frame; the preview (CSS transform) and the export (canvas
+ * transform) both go through `getMotionRect`, so they frame every instant the same.
+ */
+
+export const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// Tightest crop allowed, i.e. at most 2.5x zoom
+export const MIN_CROP_SIZE = 0.4;
+
+export const EASING_OPTIONS: { value: MotionEasing; label: string }[] = [
+  { value: 'linear', label: '匀速' },
+  { value: 'easeIn', label: '缓入' },
+  { value: 'easeOut', label: '缓出' },
+  { value: 'easeInOut', label: '缓入缓出' }
+];
+
+const EASINGS: Record<MotionEasing, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t,
+  easeOut: t => t * (2 - t),
+  easeInOut: t => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2)
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Crop of `size` (same aspect as the frame) centered on (cx, cy), pushed back inside the frame.
+export const cropAround = (cx: number, cy: number, size: number): CropRect => {
+  const s = clamp(size, MIN_CROP_SIZE, 1);
+  return { x: clamp(cx - s / 2, 0, 1 - s), y: clamp(cy - s / 2, 0, 1 - s), width: s, height: s };
+};
+
+export const MOTION_PRESETS: { key: string; label: string; motion: CameraMotion }[] = [
+  { key: 'push', label: '推近', motion: { start: FULL_FRAME, end: cropAround(0.5, 0.45, 0.78), easing: 'easeOut' } },
+  { key: 'pull', label: '拉远', motion: { start: cropAround(0.5, 0.45, 0.78), end: FULL_FRAME, easing: 'easeOut' } },
+  { key: 'pan-left', label: '左摇', motion: { start: cropAround(0.56, 0.5, 0.88), end: cropAround(0.44, 0.5, 0.88), easing: 'easeInOut' } },
+  { key: 'pan-right', label: '右摇', motion: { start: cropAround(0.44, 0.5, 0.88), end: cropAround(0.56, 0.5, 0.88), easing: 'easeInOut' } },
+  { key: 'tilt-up', label: '上摇', motion: { start: cropAround(0.5, 0.56, 0.88), end: cropAround(0.5, 0.44, 0.88), easing: 'easeInOut' } },
+  { key: 'tilt-down', label: '下摇', motion: { start: cropAround(0.5, 0.44, 0.88), end: cropAround(0.5, 0.56, 0.88), easing: 'easeInOut' } },
+  { key: 'static', label: '固定', motion: { start: FULL_FRAME, end: FULL_FRAME, easing: 'linear' } }
+];
+
+const presetMotion = (key: string) => MOTION_PRESETS.find(p => p.key === key)!.motion;
+
+// Matched (lower-cased) against `cameraAngle`, first rule wins
+const ANGLE_RULES: { keywords: string[]; preset: string }[] = [
+  { keywords: ['low angle', 'low-angle', 'worm', '仰'], preset: 'tilt-up' },
+  { keywords: ['high angle', 'high-angle', 'bird', 'overhead', '俯'], preset: 'tilt-down' },
+  { keywords: ['close', 'cu', '特写', '近景'], preset: 'push' },
+  { keywords: ['wide', 'establishing', 'long shot', 'aerial', '远景', '全景'], preset: 'pan-right' }
+];
+
+// Gentle push-in for anything the rules don't recognise
+const DEFAULT_MOTION: CameraMotion = { start: FULL_FRAME, end: cropAround(0.5, 0.5, 0.9), easing: 'easeInOut' };
+
+export const getDefaultMotion = (cameraAngle: string): CameraMotion => {
+  const text = (cameraAngle || '').toLowerCase();
+  const words = text.split(/[^a-z]+/);
+  const rule = ANGLE_RULES.find(r => r.keywords.some(k => /^[a-z]+$/.test(k) ? words.includes(k) : text.includes(k)));
+  return rule ? presetMotion(rule.preset) : DEFAULT_MOTION;
+};
+
+export const getShotMotion = (shot: Shot): CameraMotion => shot.cameraMotion || getDefaultMotion(shot.cameraAngle);
+
+// Crop rectangle at `t` (0..1 through the shot).
+export const getMotionRect = (motion: CameraMotion, t: number): CropRect => {
+  const k = EASINGS[motion.easing](clamp(t, 0, 1));
+  const lerp = (a: number, b: number) => a + (b - a) * k;
+  return {
+    x: lerp(motion.start.x, motion.end.x),
+    y: lerp(motion.start.y, motion.end.y),
+    width: lerp(motion.start.width, motion.end.width),
+    height: lerp(motion.start.height, motion.end.height)
+  };
+};
+
+// CSS transform (with `transform-origin: 0 0`) that fills the element with `rect`.
+export const toCssTransform = (rect: CropRect) =>
+  `scale(${1 / rect.width}, ${1 / rect.height}) translate(${-rect.x * 100}%, ${-rect.y * 100}%)`;
+
+// Canvas equivalent of `toCssTransform` for a `width` x `height` frame, on top of the current transform.
+export const applyMotionTransform = (ctx: CanvasRenderingContext2D, rect: CropRect, width: number, height: number) => {
+  const sx = 1 / rect.width;
+  const sy = 1 / rect.height;
+  ctx.transform(sx, 0, 0, sy, -rect.x * width * sx, -rect.y * height * sy);
+};
@@ -0,0 +1,98 @@
+import { Shot, VoiceProfile } from "../types";
+import { generateSpeech } from "./geminiService";
+import { putMedia, resolveMediaUrl } from "./projectStore";
+import { VoiceCast, buildSpeechRequest, voiceKey } from "./voiceCasting";
+
+/**
+ * Dialogue voice clips. Each shot's line is synthesized once, stored in the
+ * media store and remembered together with the text and voice it was made
+ * with, so the preview and the export play the same cached clip until the
+ * line or its casting changes.
+ */
+
+export type ShotAudio = Pick<Shot, 'audioUrl' | 'audioText' | 'audioVoice' | 'audioDurationMs'>;
+
+// Lines in parentheses are sound or action cues, not speech
+export const isSpokenDialogue = (text?: string): text is string => !!text?.trim() && !/^[(（]/.test(text.trim());
+
+export type LineKind = 'silent' | 'cue' | 'narration' | 'dialogue';
+
+// What a shot's line is on the soundtrack: nothing, a sound/action cue, voice-over or spoken dialogue.
+export const getLineKind = (text?: string): LineKind => {
+  if (!text) return 'silent';
+  if (text.startsWith('(') || text.startsWith('（')) return 'cue';
+  if (text.includes('旁白') || text.includes('OS')) return 'narration';
+  return 'dialogue';
+};
+
+// The cached clip matches the current line and the voice it is cast to.
+export const hasCurrentAudio = (shot: Shot, cast: VoiceCast): boolean =>
+  !!shot.audioUrl && shot.audioText === shot.dialogue && shot.audioVoice === voiceKey(buildSpeechRequest(shot, cast));
+
+export const needsSpeech = (shot: Shot, cast: VoiceCast): boolean => isSpokenDialogue(shot.dialogue) && !hasCurrentAudio(shot, cast);
+
+const bufferCache = new Map<string, Promise<AudioBuffer>>();
+let decoder: OfflineAudioContext | null = null;
+
+// Decoded audio for a stored ref (voice clips and library sounds alike); AudioBuffers are not tied to a context, so one decode serves all players.
+export const loadAudioBuffer = (audioUrl: string): Promise<AudioBuffer> => {
+  let cached = bufferCache.get(audioUrl);
+  if (!cached) {
+    cached = resolveMediaUrl(audioUrl)
+      .then(url => fetch(url))
+      .then(response => response.arrayBuffer())
+      .then(data => {
+        decoder = decoder || new OfflineAudioContext(1, 1, 44100);
+        return decoder.decodeAudioData(data);
+      });
+    cached.catch(() => bufferCache.delete(audioUrl));
+    bufferCache.set(audioUrl, cached);
+  }
+  return cached;
+};
+
+export const synthesizeShotAudio = async (shot: Shot, cast: VoiceCast): Promise<ShotAudio> => {
+  if (!isSpokenDialogue(shot.dialogue)) throw new Error("Shot has no spoken dialogue");
+  const request = buildSpeechRequest(shot, cast);
+  const wav = await generateSpeech(request.text, request);
+  const audioUrl = await putMedia(new Blob([wav], { type: 'audio/wav' }));
+  const buffer = await loadAudioBuffer(audioUrl);
+  return { audioUrl, audioText: shot.dialogue, audioVoice: voiceKey(request), audioDurationMs: Math.round(buffer.duration * 1000) };
+};
+
+const previewCache = new Map<string, Promise<AudioBuffer>>();
+
+// Sample line in a voice, for casting; kept in memory only.
+export const loadVoicePreview = (text: string, voice: VoiceProfile): Promise<AudioBuffer> => {
+  const key = `${voiceKey(voice)}|${text}`;
+  let cached = previewCache.get(key);
+  if (!cached) {
+    cached = generateSpeech(text, voice).then(wav => {
+      decoder = decoder || new OfflineAudioContext(1, 1, 44100);
+      return decoder.decodeAudioData(wav);
+    });
+    cached.catch(() => previewCache.delete(key));
+    previewCache.set(key, cached);
+  }
+  return cached;
+};
+
+// Start `buffer` on `destination` right away, `offsetMs` into the clip. Null once the offset is past its end.
+export const playDialogue = (ctx: BaseAudioContext, destination: AudioNode, buffer: AudioBuffer, offsetMs = 0): AudioBufferSourceNode | null => {
+  if (offsetMs / 1000 >= buffer.duration) return null;
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(destination);
+  source.start(0, Math.max(0, offsetMs / 1000));
+  return source;
+};
+
+export const stopDialogue = (source: AudioBufferSourceNode | null) => {
+  if (!source) return;
+  try {
+    source.stop();
+  } catch {
+    // Already stopped
+  }
+  source.disconnect();
+};
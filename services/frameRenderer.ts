@@ -0,0 +1,217 @@
+import { AspectRatio, Shot } from "../types";
+import { resolveMediaUrl } from "./projectStore";
+import { getShotDuration } from "./timing";
+import { applyMotionTransform, getMotionRect, getShotMotion } from "./cameraMotion";
+import { FULL_LAYER, LayerStyle, getTransitionLayers, getTransitionState } from "./transitions";
+import { SUBTITLE_STYLE } from "./subtitles";
+
+/**
+ * Canvas compositor for the exported video: draws the timeline at a given
+ * shot and time, including camera motion, transitions and burned-in dialogue.
+ * Mirrors what the VideoEditor preview shows with DOM layers.
+ */
+
+// Export frame size for each aspect ratio at a size class (1080 gives the 1080p sizes below).
+// Both sides stay even, which H.264 requires.
+export const getExportSize = (aspectRatio: AspectRatio, resolution = 1080): { width: number; height: number } => {
+  const scale = (size: { width: number; height: number }) => ({
+    width: Math.round(size.width * resolution / 2160) * 2,
+    height: Math.round(size.height * resolution / 2160) * 2
+  });
+  switch (aspectRatio) {
+    case AspectRatio.PORTRAIT: return scale({ width: 1080, height: 1920 });
+    case AspectRatio.SQUARE: return scale({ width: 1080, height: 1080 });
+    case AspectRatio.CINEMATIC: return scale({ width: 1920, height: 816 }); // ~2.35:1
+    case AspectRatio.CLASSIC: return scale({ width: 1440, height: 1080 });
+    default: return scale({ width: 1920, height: 1080 });
+  }
+};
+
+// Loaded media of a shot; a clip takes precedence over the still.
+export interface ShotSource {
+  video: HTMLVideoElement | null;
+  image: HTMLImageElement;
+}
+
+// Helper: load a shot clip so its frames can be drawn onto the export canvas
+const loadVideoElement = (src: string): Promise<HTMLVideoElement | null> => new Promise((resolve) => {
+  const video = document.createElement('video');
+  video.crossOrigin = "anonymous";
+  video.muted = true;
+  video.playsInline = true;
+  video.loop = true;
+  video.onloadeddata = () => resolve(video);
+  video.onerror = () => resolve(null);
+  video.src = src;
+});
+
+// Load Clip (if generated) and Image; a broken image falls back to a placeholder
+export const loadShotSource = async (shot: Shot, width: number, height: number): Promise<ShotSource> => {
+  const video = shot.videoUrl ? await loadVideoElement(await resolveMediaUrl(shot.videoUrl).catch(() => '')) : null;
+  const image = new Image();
+  image.crossOrigin = "anonymous"; // CRITICAL for CORS
+  await new Promise((resolve) => {
+    image.onload = resolve;
+    image.onerror = () => {
+      console.warn(`Export: Image load failed for shot ${shot.id}`);
+      resolve(null);
+    };
+    image.src = shot.imageUrl || `https://placehold.co/${width}x${height}/222/FFF?text=Image+Load+Error`;
+  });
+  return { video, image };
+};
+
+// Helper: Text Wrapping for Canvas
+const drawWrappedText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
+  const chars = text.split('');
+  let line = '';
+  const lines = [];
+
+  for (let n = 0; n < chars.length; n++) {
+    const testLine = line + chars[n];
+    const metrics = ctx.measureText(testLine);
+    if (metrics.width > maxWidth && n > 0) {
+      lines.push(line);
+      line = chars[n];
+    } else {
+      line = testLine;
+    }
+  }
+  lines.push(line);
+
+  // Y is the starting Y for the first line; lines are drawn downwards
+  lines.forEach((l, idx) => {
+    ctx.strokeText(l, x, y + (idx * lineHeight));
+    ctx.fillText(l, x, y + (idx * lineHeight));
+  });
+};
+
+// Clip frame or image, object-cover
+const drawCover = (ctx: CanvasRenderingContext2D, { video, image }: ShotSource, width: number, height: number) => {
+  const source: HTMLVideoElement | HTMLImageElement = video || image;
+  const sourceW = video ? video.videoWidth : image.naturalWidth;
+  const sourceH = video ? video.videoHeight : image.naturalHeight;
+
+  if (sourceW > 0) {
+    const imgRatio = sourceW / sourceH;
+    const canvasRatio = width / height;
+    let drawW, drawH, offsetX, offsetY;
+
+    if (imgRatio > canvasRatio) {
+      drawH = height;
+      drawW = height * imgRatio;
+      offsetX = (width - drawW) / 2;
+      offsetY = 0;
+    } else {
+      drawW = width;
+      drawH = width / imgRatio;
+      offsetX = 0;
+      offsetY = (height - drawH) / 2;
+    }
+    ctx.drawImage(source, offsetX, offsetY, drawW, drawH);
+  } else {
+    ctx.fillStyle = "#333";
+    ctx.fillRect(0,0,width,height);
+    ctx.fillStyle = "white";
+    ctx.font = "bold 60px sans-serif";
+    ctx.textAlign = "center";
+    ctx.fillText("Missing Image", width/2, height/2);
+  }
+};
+
+const drawSubtitle = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+  // Gradient Strap
+  const strapHeight = height * 0.25;
+  const grad = ctx.createLinearGradient(0, height - strapHeight, 0, height);
+  grad.addColorStop(0, "rgba(0,0,0,0)");
+  grad.addColorStop(0.3, "rgba(0,0,0,0.6)");
+  grad.addColorStop(1, "rgba(0,0,0,0.9)");
+  ctx.fillStyle = grad;
+  ctx.fillRect(0, height - strapHeight, width, strapHeight);
+
+  // Text Config, shared with the ASS caption style
+  const fontSize = Math.floor(height * SUBTITLE_STYLE.fontSize);
+  ctx.font = `bold ${fontSize}px "${SUBTITLE_STYLE.fontFamily}", sans-serif`;
+  ctx.fillStyle = "white";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top"; // Draw downwards
+  ctx.strokeStyle = "black";
+  ctx.lineWidth = SUBTITLE_STYLE.outlineWidth;
+
+  const textX = width / 2;
+  const maxWidth = width * SUBTITLE_STYLE.maxWidth;
+  const lineHeight = fontSize * SUBTITLE_STYLE.lineHeight;
+
+  // Count lines to determine start Y (so it aligns to bottom area)
+  const chars = text.split('');
+  let line = '';
+  let lineCount = 1;
+  for (let n = 0; n < chars.length; n++) {
+    const testLine = line + chars[n];
+    if (ctx.measureText(testLine).width > maxWidth && n > 0) {
+      line = chars[n];
+      lineCount++;
+    } else {
+      line = testLine;
+    }
+  }
+
+  const totalTextH = lineCount * lineHeight;
+  const startY = height - (height * SUBTITLE_STYLE.marginBottom) - totalTextH;
+
+  drawWrappedText(ctx, text, textX, startY, maxWidth, lineHeight);
+};
+
+const drawShotLayer = (ctx: CanvasRenderingContext2D, shot: Shot, source: ShotSource | undefined, elapsedMs: number, layer: LayerStyle, width: number, height: number) => {
+  if (!source || layer.opacity <= 0) return;
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  ctx.beginPath();
+  ctx.rect(layer.clip.x * width, layer.clip.y * height, layer.clip.width * width, layer.clip.height * height);
+  ctx.clip();
+  ctx.translate(layer.shiftX * width, layer.shiftY * height);
+  if (layer.blur > 0) ctx.filter = `blur(${layer.blur * width}px)`;
+  ctx.fillStyle = "black";
+  ctx.fillRect(0, 0, width, height);
+  // Clips carry their own motion; stills get the Ken Burns move
+  if (!source.video) applyMotionTransform(ctx, getMotionRect(getShotMotion(shot), elapsedMs / getShotDuration(shot)), width, height);
+  drawCover(ctx, source, width, height);
+  ctx.restore();
+};
+
+// Draw the frame `elapsedMs` into `shots[index]`; `burnSubtitles` off leaves captions to a separate file.
+export const drawTimelineFrame = (
+  ctx: CanvasRenderingContext2D,
+  shots: Shot[],
+  index: number,
+  elapsedMs: number,
+  sources: Map<string, ShotSource>,
+  width: number,
+  height: number,
+  burnSubtitles = true
+) => {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = "black";
+  ctx.fillRect(0, 0, width, height);
+
+  const state = getTransitionState(shots, index, elapsedMs);
+  let subtitleShot = shots[index];
+  if (state) {
+    const from = shots[state.fromIndex];
+    const to = shots[state.toIndex];
+    const layers = getTransitionLayers(state.transition, state.progress);
+    drawShotLayer(ctx, from, sources.get(from.id), state.fromElapsed, layers.from, width, height);
+    drawShotLayer(ctx, to, sources.get(to.id), state.toElapsed, layers.to, width, height);
+    if (layers.overlay) {
+      ctx.globalAlpha = layers.overlay.opacity;
+      ctx.fillStyle = layers.overlay.color;
+      ctx.fillRect(0, 0, width, height);
+      ctx.globalAlpha = 1;
+    }
+    subtitleShot = state.progress < 0.5 ? from : to;
+  } else {
+    drawShotLayer(ctx, shots[index], sources.get(shots[index].id), elapsedMs, FULL_LAYER, width, height);
+  }
+
+  if (burnSubtitles && subtitleShot.dialogue) drawSubtitle(ctx, subtitleShot.dialogue, width, height);
+};
@@ -1,138 +1,345 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { VisualStyle, AspectRatio, Shot, Character, Scene, Genre, QualityMode, AISettings } from "../types";
+import { VisualStyle, AspectRatio, Shot, Character, Scene, Genre, QualityMode, AISettings, AIProvider, ModelSheetKey, SpeakingRate } from "../types";
+import { generateImage, QUALITY_CONFIG } from "./imageProviders";
+import { parsePartialJsonArray } from "./partialJson";
+import { MODEL_SHEET_ENTRIES, pickCharacterReference } from "./modelSheet";
+import { KeyedProvider, getApiKey } from "./apiKeys";
+import { toRootJsonSchema, toOpenAIResponseFormat, coerceToSchema, validateSchema } from "./aiSchema";
+
+// Receives the full text generated so far on every streamed chunk.
+export type StreamCallback = (textSoFar: string) => void;
+
+// Pulls the text increment out of one parsed stream event; may throw to surface a provider error.
+type DeltaExtractor = (event: any) => string | undefined;
 
 /**
- * Unified AI call supporting Gemini and OpenAI-compatible providers.
+ * Read a streamed response, accumulating text deltas. Handles both server-sent
+ * events (`data: {...}` lines, OpenAI/Anthropic) and bare NDJSON (Ollama).
  */
-async function callAI(prompt: string, settings: AISettings, systemInstruction?: string, responseSchema?: any): Promise<any> {
-  // Prioritize localStorage (user-entered) over process.env (build-time)
-  const apiKey = localStorage.getItem('manju_api_key') || process.env.API_KEY || "";
-  
+const readStream = async (response: Response, extract: DeltaExtractor, onChunk: StreamCallback): Promise<string> => {
+  if (!response.body) throw new Error("Streaming not supported by this response");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("event:") || trimmed.startsWith(":")) continue;
+      const payload = trimmed.startsWith("data:") ? trimmed.slice(5).trim() : trimmed;
+      if (payload === "[DONE]") return text;
+      let event: any;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        // Keep-alive or partial event
+        continue;
+      }
+      const delta = extract(event);
+      if (delta) {
+        text += delta;
+        onChunk(text);
+      }
+    }
+  }
+  return text;
+};
+
+const requireApiKey = (provider: KeyedProvider) => {
+  const apiKey = getApiKey(provider);
   if (!apiKey) {
-    throw new Error("API configuration missing. Please enter an API Key in settings.");
+    throw new Error(`API configuration missing. Please enter a ${provider} API Key in settings.`);
   }
+  return apiKey;
+};
 
-  if (settings.provider === 'gemini') {
-    const ai = new GoogleGenAI({ apiKey });
-    const config: any = {
-      systemInstruction: systemInstruction,
-    };
+// Network-level failures (CORS, server down) surface as a bare TypeError from fetch
+const fetchProvider = async (url: string, init: RequestInit, providerName: string): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (e: any) {
+    throw new Error(`Cannot reach ${providerName} at ${new URL(url).origin} (${e.message}). Check the base URL and CORS settings.`);
+  }
+};
 
-    if (responseSchema) {
-      config.responseMimeType = "application/json";
-      config.responseSchema = responseSchema;
-    }
+const stripCodeFence = (text: string) => text.replace(/```json\n?|\n?```/g, "").trim();
+
+interface CompletionRequest {
+  prompt: string;
+  settings: AISettings;
+  systemInstruction?: string;
+  responseSchema?: any;
+  onChunk?: StreamCallback;
+}
+
+// --- Google Gemini ---
+
+const requestGemini = async ({ prompt, settings, systemInstruction, responseSchema, onChunk }: CompletionRequest): Promise<string> => {
+  const ai = new GoogleGenAI({ apiKey: requireApiKey('gemini') });
+  const config: any = {
+    systemInstruction: systemInstruction,
+  };
 
-    const response = await ai.models.generateContent({
-      model: settings.modelName || "gemini-3-flash-preview",
-      contents: [{ parts: [{ text: prompt }] }],
-      config: config
-    });
+  if (responseSchema) {
+    config.responseMimeType = "application/json";
+    config.responseSchema = responseSchema;
+  }
 
-    const text = response.text;
-    if (!text) throw new Error("Empty response from AI");
+  const request = {
+    model: settings.modelName || "gemini-3-flash-preview",
+    contents: [{ parts: [{ text: prompt }] }],
+    config: config
+  };
 
-    if (responseSchema) {
-      return JSON.parse(text.replace(/```json\n?|\n?```/g, "").trim());
+  let text = "";
+  if (onChunk) {
+    for await (const chunk of await ai.models.generateContentStream(request)) {
+      if (!chunk.text) continue;
+      text += chunk.text;
+      onChunk(text);
     }
-    return text;
   } else {
-    // OpenAI-compatible Fetch
-    const url = `${settings.baseUrl || "https://api.openai.com/v1"}/chat/completions`;
+    text = (await ai.models.generateContent(request)).text || "";
+  }
+  if (!text) throw new Error("Empty response from AI");
+  return text;
+};
+
+// --- OpenAI-compatible chat completions ---
+
+type ResponseFormatMode = 'json_schema' | 'json_object' | 'none';
+
+// Structured-output modes in order of preference; servers that reject one fall back to the next.
+const RESPONSE_FORMAT_MODES: ResponseFormatMode[] = ['json_schema', 'json_object', 'none'];
+// Remembers the mode that worked per endpoint + model so later calls skip known failures.
+const responseFormatSupport = new Map<string, ResponseFormatMode>();
+
+const requestOpenAI = async ({ prompt, settings, systemInstruction, responseSchema, onChunk }: CompletionRequest): Promise<string> => {
+  const apiKey = requireApiKey('openai');
+  const baseUrl = settings.baseUrl || "https://api.openai.com/v1";
+  const model = settings.modelName || "gpt-4o";
+  const supportKey = `${baseUrl}|${model}`;
+  const modes = responseSchema
+    ? RESPONSE_FORMAT_MODES.slice(RESPONSE_FORMAT_MODES.indexOf(responseFormatSupport.get(supportKey) || 'json_schema'))
+    : ['none' as const];
+
+  for (const mode of modes) {
     const messages: any[] = [];
     if (systemInstruction) {
       messages.push({ role: "system", content: systemInstruction });
     }
-    messages.push({ role: "user", content: prompt });
+    // Without json_schema the model only sees the shape through the prompt
+    const userContent = mode === 'json_schema' || !responseSchema
+      ? prompt
+      : `${prompt}\n\nOutput MUST be raw JSON (no markdown) matching this JSON schema:\n${JSON.stringify(toRootJsonSchema(responseSchema))}`;
+    messages.push({ role: "user", content: userContent });
 
     const body: any = {
-      model: settings.modelName || "gpt-4o",
+      model,
       messages: messages,
+      stream: !!onChunk
     };
+    if (mode === 'json_schema') body.response_format = toOpenAIResponseFormat(responseSchema);
+    if (mode === 'json_object') body.response_format = { type: "json_object" };
 
-    if (responseSchema) {
-      body.response_format = { type: "json_object" };
-      // Note: Some models need an explicit mention of JSON in the prompt if response_format is used
-      body.messages[body.messages.length - 1].content += "\n\nOutput MUST be a raw JSON object string.";
-    }
-
-    const response = await fetch(url, {
+    const response = await fetchProvider(`${baseUrl}/chat/completions`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "Authorization": `Bearer ${apiKey}`
       },
       body: JSON.stringify(body)
-    });
+    }, "the AI provider");
 
     if (!response.ok) {
       const errData = await response.json().catch(() => ({}));
+      // 400/422 with a response_format usually means the server doesn't support that mode
+      if (mode !== 'none' && (response.status === 400 || response.status === 422)) {
+        console.warn(`response_format ${mode} rejected by ${baseUrl}, falling back`, errData.error?.message);
+        continue;
+      }
       throw new Error(errData.error?.message || `API request failed with status ${response.status}`);
     }
+    if (responseSchema) responseFormatSupport.set(supportKey, mode);
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+    const content = onChunk
+      ? await readStream(response, event => event.choices?.[0]?.delta?.content, onChunk)
+      : (await response.json()).choices?.[0]?.message?.content;
     if (!content) throw new Error("No content in AI response");
+    return content;
+  }
+  throw new Error("AI provider rejected every structured output mode");
+};
 
-    if (responseSchema) {
-      return JSON.parse(content.replace(/```json\n?|\n?```/g, "").trim());
-    }
+// --- Anthropic Messages API ---
+// Structured output goes through a single forced tool whose input schema is the response schema.
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_MAX_TOKENS = 8192;
+const ANTHROPIC_TOOL_NAME = "respond";
+
+const ANTHROPIC_ERRORS: Record<string, string> = {
+  authentication_error: "Anthropic rejected the API key",
+  permission_error: "This Anthropic API key has no access to the requested model",
+  not_found_error: "Anthropic model not found, check the model name",
+  rate_limit_error: "Anthropic rate limit reached, please retry shortly",
+  overloaded_error: "Anthropic is overloaded, please retry shortly"
+};
+
+const anthropicError = (error: { type?: string; message?: string } | undefined, status?: number) => {
+  const mapped = error?.type ? ANTHROPIC_ERRORS[error.type] : undefined;
+  return new Error(mapped ? `${mapped} (${error?.message})` : (error?.message || `Anthropic request failed with status ${status}`));
+};
+
+const requestAnthropic = async ({ prompt, settings, systemInstruction, responseSchema, onChunk }: CompletionRequest): Promise<string> => {
+  const baseUrl = (settings.baseUrl || "https://api.anthropic.com").replace(/\/+$/, '');
+  const body: any = {
+    model: settings.modelName || "claude-sonnet-4-5",
+    max_tokens: ANTHROPIC_MAX_TOKENS,
+    messages: [{ role: "user", content: prompt }],
+    stream: !!onChunk
+  };
+  // Anthropic takes the system prompt as a top-level field, not a message
+  if (systemInstruction) body.system = systemInstruction;
+  if (responseSchema) {
+    body.tools = [{ name: ANTHROPIC_TOOL_NAME, description: "Return the requested data.", input_schema: toRootJsonSchema(responseSchema) }];
+    body.tool_choice = { type: "tool", name: ANTHROPIC_TOOL_NAME };
+  }
+
+  const response = await fetchProvider(`${baseUrl}/v1/messages`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": requireApiKey('anthropic'),
+      "anthropic-version": ANTHROPIC_VERSION,
+      "anthropic-dangerous-direct-browser-access": "true"
+    },
+    body: JSON.stringify(body)
+  }, "Anthropic");
+
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    throw anthropicError(errData.error, response.status);
+  }
+
+  if (onChunk) {
+    const content = await readStream(response, event => {
+      if (event.type === 'error') throw anthropicError(event.error);
+      if (event.type !== 'content_block_delta') return undefined;
+      return event.delta?.text ?? event.delta?.partial_json;
+    }, onChunk);
+    if (!content) throw new Error("No content in AI response");
     return content;
   }
-}
 
-// --- Pollinations.ai Image Service ---
-
-export const QUALITY_CONFIG: Record<QualityMode, { model: string, sizes: Record<AspectRatio, { w: number, h: number }> }> = {
-  speed: {
-    model: 'flux-schnell',
-    sizes: { 
-        [AspectRatio.PORTRAIT]: { w: 576, h: 1024 }, 
-        [AspectRatio.LANDSCAPE]: { w: 1024, h: 576 }, 
-        [AspectRatio.SQUARE]: { w: 768, h: 768 },
-        [AspectRatio.CINEMATIC]: { w: 1024, h: 432 },
-        [AspectRatio.CLASSIC]: { w: 800, h: 600 }
-    }
-  },
-  balanced: {
-    model: 'flux',
-    sizes: { 
-        [AspectRatio.PORTRAIT]: { w: 768, h: 1344 }, 
-        [AspectRatio.LANDSCAPE]: { w: 1344, h: 768 }, 
-        [AspectRatio.SQUARE]: { w: 1024, h: 1024 },
-        [AspectRatio.CINEMATIC]: { w: 1280, h: 544 },
-        [AspectRatio.CLASSIC]: { w: 1024, h: 768 }
-    }
-  },
-  quality: {
-    model: 'flux-realism',
-    sizes: { 
-        [AspectRatio.PORTRAIT]: { w: 832, h: 1472 }, 
-        [AspectRatio.LANDSCAPE]: { w: 1472, h: 832 }, 
-        [AspectRatio.SQUARE]: { w: 1280, h: 1280 },
-        [AspectRatio.CINEMATIC]: { w: 1536, h: 640 },
-        [AspectRatio.CLASSIC]: { w: 1280, h: 960 }
-    }
+  const data = await response.json();
+  const blocks: any[] = data.content || [];
+  if (responseSchema) {
+    const toolUse = blocks.find(b => b.type === 'tool_use');
+    if (toolUse) return JSON.stringify(toolUse.input);
   }
+  const content = blocks.filter(b => b.type === 'text').map(b => b.text).join('');
+  if (!content) throw new Error(data.stop_reason === 'max_tokens' ? "Anthropic response was cut off (max_tokens)" : "No content in AI response");
+  return content;
 };
 
-export const getPollinationsUrl = (
-    prompt: string, 
-    width: number, 
-    height: number, 
-    seed: number, 
-    model: string = 'flux-schnell',
-    refImage?: string
-) => {
-    const encodedPrompt = encodeURIComponent(prompt.substring(0, 1000)); 
-    let url = `https://image.pollinations.ai/prompt/${encodedPrompt}?width=${width}&height=${height}&nologo=true&seed=${seed}&model=${model}&t=${Date.now()}`;
-    if (refImage && refImage.startsWith('http') && !refImage.includes('placehold')) {
-        url += `&image=${encodeURIComponent(refImage)}&strength=0.7`; 
+// --- Ollama native API ---
+
+// Ollama versions before 0.5 only accept `format: "json"`; remember which endpoints need it.
+const ollamaLegacyFormat = new Set<string>();
+
+const requestOllama = async ({ prompt, settings, systemInstruction, responseSchema, onChunk }: CompletionRequest): Promise<string> => {
+  const baseUrl = (settings.baseUrl || "http://127.0.0.1:11434").replace(/\/+$/, '');
+  const model = settings.modelName || "qwen2.5";
+  const messages: any[] = [];
+  if (systemInstruction) messages.push({ role: "system", content: systemInstruction });
+  messages.push({ role: "user", content: prompt });
+
+  const send = (format?: any) => fetchProvider(`${baseUrl}/api/chat`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model, messages, stream: !!onChunk, format })
+  }, "Ollama");
+
+  let response: Response;
+  if (!responseSchema) {
+    response = await send();
+  } else if (ollamaLegacyFormat.has(baseUrl)) {
+    response = await send("json");
+  } else {
+    response = await send(toRootJsonSchema(responseSchema));
+    if (response.status === 400) {
+      ollamaLegacyFormat.add(baseUrl);
+      response = await send("json");
     }
-    return url;
+  }
+
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    if (response.status === 404) throw new Error(`Ollama model "${model}" not found. Run \`ollama pull ${model}\` first.`);
+    throw new Error(errData.error || `Ollama request failed with status ${response.status}`);
+  }
+
+  const content = onChunk
+    ? await readStream(response, event => {
+        if (event.error) throw new Error(event.error);
+        return event.message?.content;
+      }, onChunk)
+    : (await response.json()).message?.content;
+  if (!content) throw new Error("No content in AI response");
+  return content;
+};
+
+const COMPLETION_PROVIDERS: Record<AIProvider, (request: CompletionRequest) => Promise<string>> = {
+  gemini: requestGemini,
+  openai: requestOpenAI,
+  anthropic: requestAnthropic,
+  ollama: requestOllama
 };
 
+/**
+ * Raw completion text from the configured provider.
+ * Pass `onChunk` to stream; the resolved value is the same as without streaming.
+ */
+async function requestCompletion(prompt: string, settings: AISettings, systemInstruction?: string, responseSchema?: any, onChunk?: StreamCallback): Promise<string> {
+  const request = COMPLETION_PROVIDERS[settings.provider] || requestOpenAI;
+  return request({ prompt, settings, systemInstruction, responseSchema, onChunk });
+}
+
+/**
+ * Unified AI call across Gemini, OpenAI-compatible, Anthropic and Ollama providers.
+ * With a schema the reply is parsed and validated; an invalid reply gets one
+ * repair round where the model sees its output and the problems found.
+ */
+async function callAI(prompt: string, settings: AISettings, systemInstruction?: string, responseSchema?: any, onChunk?: StreamCallback): Promise<any> {
+  const text = await requestCompletion(prompt, settings, systemInstruction, responseSchema, onChunk);
+  if (!responseSchema) return text;
+
+  const check = (raw: string): { data?: any; errors: string[] } => {
+    try {
+      const data = coerceToSchema(JSON.parse(stripCodeFence(raw)), responseSchema);
+      return { data, errors: validateSchema(data, responseSchema) };
+    } catch (e: any) {
+      return { errors: [`Invalid JSON: ${e.message}`] };
+    }
+  };
+
+  const first = check(text);
+  if (first.errors.length === 0) return first.data;
+
+  console.warn("AI response failed validation, requesting repair", first.errors);
+  const repairPrompt = `${prompt}\n\n---\nYour previous reply was:\n${text}\n\nIt is invalid:\n- ${first.errors.slice(0, 20).join('\n- ')}\n\nReturn the corrected JSON only.`;
+  const repaired = check(await requestCompletion(repairPrompt, settings, systemInstruction, responseSchema));
+  if (repaired.errors.length === 0) return repaired.data;
+  throw new Error(`AI returned malformed data: ${repaired.errors.slice(0, 3).join('; ')}`);
+}
+
 const GENRE_VIBES: Record<Genre, string> = {
   [Genre.ROMANCE_CEO]: "bright, romantic lighting, luxurious atmosphere, high fashion, k-drama vibe, soft focus, elegance",
   [Genre.REVENGE_FEMALE]: "sharp contrast, intense emotions, dramatic lighting, confident posture, power dressing, cinematic",
@@ -155,15 +362,45 @@ export const optimizePrompt = async (text: string, settings: AISettings): Promis
     return await callAI(text, settings, sys);
 };
 
-export const expandScript = async (currentScript: string, genre: Genre, settings: AISettings): Promise<string> => {
+export const expandScript = async (currentScript: string, genre: Genre, settings: AISettings, onChunk?: StreamCallback): Promise<string> => {
     const vibe = GENRE_VIBES[genre];
     const prompt = `Continue the script. Genre: ${genre}. Vibe: ${vibe}. Add vivid visual details and dialogue. Output ONLY continued script (Chinese, ~250 words).\nScript: "${currentScript}"`;
-    return await callAI(prompt, settings);
+    return await callAI(prompt, settings, undefined, undefined, onChunk);
 };
 
-export const analyzeCharacters = async (script: string, genre: Genre, settings: AISettings): Promise<Character[]> => {
+// Names a screenplay already fixes, listed for the model to keep verbatim
+const describeKnownNames = (names: string[], what: string) => names.length
+  ? `\n  The screenplay names these ${what}; return exactly one entry for each, with exactly this name:\n  ${names.join('、')}`
+  : '';
+
+const isNamed = (item: any, name: string) => String(item.name || '').trim().toLowerCase() === name.toLowerCase();
+
+/**
+ * `items` plus entries for the known names the model skipped, from a second
+ * pass that asks for only those. Names it still cannot describe are left out
+ * rather than added blank, which would send an empty prompt to image generation.
+ */
+const withKnownNames = async (items: any[], knownNames: string[], script: string, settings: AISettings, sys: string, schema: any) => {
+  const missing = knownNames.filter(name => !items.some(item => isNamed(item, name)));
+  if (missing.length === 0) return items;
+  // The first pass already succeeded, so a failed follow-up keeps what it found
+  let data: any;
+  try {
+    data = await callAI(script, settings, `${sys}
+  Describe only these, one entry each with exactly this name: ${missing.join('、')}`, schema);
+  } catch (e) {
+    console.warn(`Second pass for ${missing.join('、')} failed`, e);
+    return items;
+  }
+  const found = Array.isArray(data) ? data.filter((item: any) => item.prompt_en && missing.some(name => isNamed(item, name))) : [];
+  return [...items, ...found];
+};
+
+export const analyzeCharacters = async (script: string, genre: Genre, settings: AISettings, knownNames: string[] = []): Promise<Character[]> => {
   const vibe = GENRE_VIBES[genre];
-  const sys = `Extract main characters. Genre: ${genre}. Vibe: ${vibe}. 
+  const sys = `Extract main characters. Genre: ${genre}. Vibe: ${vibe}. ${describeKnownNames(knownNames, 'speaking characters')}
+  Return a JSON array of characters.`;
+  const retrySys = `Describe characters of this script. Genre: ${genre}. Vibe: ${vibe}.
   Return a JSON array of characters.`;
 
   const schema = {
@@ -180,16 +417,20 @@ export const analyzeCharacters = async (script: string, genre: Genre, settings:
   };
 
   const data = await callAI(script, settings, sys, schema);
-  return Array.isArray(data) ? data.map((item: any, index: number) => ({
+  if (!Array.isArray(data)) return [];
+  const items = await withKnownNames(data, knownNames, script, settings, retrySys, schema);
+  return items.map((item: any, index: number) => ({
     ...item,
     id: `char-${index}`,
     isLoading: false
-  })) : [];
+  }));
 };
 
-export const analyzeScenes = async (script: string, genre: Genre, settings: AISettings): Promise<Scene[]> => {
+export const analyzeScenes = async (script: string, genre: Genre, settings: AISettings, knownNames: string[] = []): Promise<Scene[]> => {
   const vibe = GENRE_VIBES[genre];
-  const sys = `Extract main scenes. Genre: ${genre}. Vibe: ${vibe}. 
+  const sys = `Extract main scenes. Genre: ${genre}. Vibe: ${vibe}. ${describeKnownNames(knownNames, 'locations in its scene headings')}
+  Return a JSON array of scenes.`;
+  const retrySys = `Describe locations of this script. Genre: ${genre}. Vibe: ${vibe}.
   Return a JSON array of scenes.`;
 
   const schema = {
@@ -206,65 +447,198 @@ export const analyzeScenes = async (script: string, genre: Genre, settings: AISe
   };
 
   const data = await callAI(script, settings, sys, schema);
-  return Array.isArray(data) ? data.map((item: any, index: number) => ({
+  if (!Array.isArray(data)) return [];
+  const items = await withKnownNames(data, knownNames, script, settings, retrySys, schema);
+  return items.map((item: any, index: number) => ({
     ...item,
     id: `scene-${index}`,
     isLoading: false
-  })) : [];
+  }));
+};
+
+const SHOT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    sceneId: { type: Type.STRING },
+    originalScriptSegment: { type: Type.STRING },
+    dialogue: { type: Type.STRING },
+    visualAction: { type: Type.STRING },
+    cameraAngle: { type: Type.STRING },
+    img2vidPrompt: { type: Type.STRING },
+    characterIds: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ["sceneId", "originalScriptSegment", "visualAction", "cameraAngle", "img2vidPrompt", "characterIds"]
 };
 
+const describeCharacters = (characters: Character[]) => characters.map(c => `- ${c.id}: ${c.name} (${c.description_zh})`).join('\n');
+
+/**
+ * Shots for `script`. With `screenplay` — the parsed script from
+ * `describeScreenplay` — the breakdown follows its tagged scene headings and
+ * keeps each line with the speaker the screenplay cues.
+ */
 export const analyzeScript = async (
   script: string, 
   style: VisualStyle,
   characters: Character[],
   scenes: Scene[],
-  settings: AISettings
+  settings: AISettings,
+  onShots?: (shots: Shot[]) => void,
+  screenplay?: string
 ): Promise<Shot[]> => {
+  const catalog = describeCharacters(characters);
+  const structure = screenplay ? `
+  The script is a parsed screenplay, one element per line: [SCENE id] heading, [ACTION] text, [DIALOGUE speakerId] line, [TRANSITION] text; a tag without id matched no catalog entry.
+  Use the tagged scene id as sceneId for every shot under a heading. Copy each dialogue line verbatim into dialogue, name and colon included, and set speakerId to its tagged id; never give a line to another speaker. Leave the tags out of originalScriptSegment.` : '';
   const sys = `Break script into cinematographic shots. Style: ${style}. 
-  Characters: ${characters.map(c => c.name).join(', ')}
+  Character catalog (id: name):
+  ${catalog}
+  For each shot, list in characterIds the catalog ids of every character visible in it, including ones referred to by pronoun, nickname or role.${structure}
   Return a JSON array of shots.`;
 
-  const schema = {
-    type: Type.ARRAY,
-    items: {
-      type: Type.OBJECT,
-      properties: {
-        sceneId: { type: Type.STRING },
-        originalScriptSegment: { type: Type.STRING },
-        dialogue: { type: Type.STRING },
-        visualAction: { type: Type.STRING },
-        cameraAngle: { type: Type.STRING },
-        img2vidPrompt: { type: Type.STRING }
-      },
-      required: ["sceneId", "originalScriptSegment", "visualAction", "cameraAngle", "img2vidPrompt"]
-    }
-  };
+  const shotSchema = screenplay
+    ? { ...SHOT_SCHEMA, properties: { ...SHOT_SCHEMA.properties, speakerId: { type: Type.STRING } } }
+    : SHOT_SCHEMA;
+  const schema = { type: Type.ARRAY, items: shotSchema };
 
-  const data = await callAI(script, settings, sys, schema);
-  return Array.isArray(data) ? data.map((item: any, index: number) => ({
+  // Ids are index-based so shots emitted mid-stream keep theirs in the final result
+  const runId = Date.now();
+  const knownIds = new Set(characters.map(c => c.id));
+  const toShot = (item: any, index: number): Shot => ({
     ...item,
-    id: `shot-${Date.now()}-${index}`,
+    characterIds: Array.isArray(item.characterIds) ? item.characterIds.filter((id: string) => knownIds.has(id)) : [],
+    // Unknown ids fall back to the usual detection in detectSpeaker
+    speakerId: item.speakerId || undefined,
+    id: `shot-${runId}-${index}`,
     isLoading: false,
     isError: false
-  })) : [];
+  });
+
+  let emitted = 0;
+  const onChunk: StreamCallback | undefined = onShots && ((text) => {
+    const items = parsePartialJsonArray(text);
+    if (items.length <= emitted) return;
+    emitted = items.length;
+    onShots(items.map(toShot));
+  });
+
+  const data = await callAI(screenplay || script, settings, sys, schema, onChunk);
+  return Array.isArray(data) ? data.map(toShot) : [];
 };
 
+const getCharacterSeed = (character: Character, seed: number) => seed + character.name.length * 123;
+
 export const generateCharacterImage = async (character: Character, style: VisualStyle, seed: number, refImage?: string): Promise<string> => {
-    const charSeed = seed + character.name.length * 123; 
+    const charSeed = getCharacterSeed(character, seed); 
     const prompt = `((${style})), solo, ${character.prompt_en}, high quality, detailed face`;
-    const config = QUALITY_CONFIG['speed'];
-    const size = config.sizes[AspectRatio.SQUARE];
-    return getPollinationsUrl(prompt, size.w, size.h, charSeed, config.model, refImage);
+    const size = QUALITY_CONFIG['speed'].sizes[AspectRatio.SQUARE];
+    return generateImage({ prompt, width: size.w, height: size.h, seed: charSeed, quality: 'speed', refImage });
+}
+
+// Every sheet entry shares the character seed so the design stays locked across views
+export const generateModelSheetImage = async (character: Character, key: ModelSheetKey, style: VisualStyle, seed: number): Promise<string> => {
+    const entry = MODEL_SHEET_ENTRIES.find(e => e.key === key);
+    if (!entry) throw new Error(`Unknown model sheet entry: ${key}`);
+    const prompt = `((${style})), solo, ${character.prompt_en}, ${entry.prompt}, consistent character design, model sheet`;
+    const size = QUALITY_CONFIG['speed'].sizes[AspectRatio.SQUARE];
+    const refImage = character.imageUrl && !character.imageUrl.includes('placehold') ? character.imageUrl : undefined;
+    return generateImage({ prompt, width: size.w, height: size.h, seed: getCharacterSeed(character, seed), quality: 'speed', refImage });
 }
 
 export const generateSceneImage = async (scene: Scene, style: VisualStyle, seed: number, refImage?: string): Promise<string> => {
     const sceneSeed = seed + scene.name.length * 456;
     const prompt = `((${style})), scenery, no humans, ${scene.prompt_en}, wide angle, highly detailed`;
-    const config = QUALITY_CONFIG['speed'];
-    const size = config.sizes[AspectRatio.LANDSCAPE];
-    return getPollinationsUrl(prompt, size.w, size.h, sceneSeed, config.model, refImage);
+    const size = QUALITY_CONFIG['speed'].sizes[AspectRatio.LANDSCAPE];
+    return generateImage({ prompt, width: size.w, height: size.h, seed: sceneSeed, quality: 'speed', refImage });
 }
 
+// Propose one shot to fill the gap between two neighbours (either may be missing).
+export const suggestShot = async (
+  script: string,
+  style: VisualStyle,
+  characters: Character[],
+  before: Shot | undefined,
+  after: Shot | undefined,
+  settings: AISettings
+): Promise<Omit<Shot, 'id' | 'isLoading' | 'isError'>> => {
+  const describe = (shot?: Shot) => shot
+    ? JSON.stringify({ sceneId: shot.sceneId, originalScriptSegment: shot.originalScriptSegment, dialogue: shot.dialogue, visualAction: shot.visualAction, cameraAngle: shot.cameraAngle })
+    : '(none)';
+  const sys = `You are a storyboard artist. Propose ONE new cinematographic shot that fits between the previous and next shot, bridging the story beat. Style: ${style}.
+  Character catalog (id: name):
+  ${describeCharacters(characters)}
+  Return a single JSON object.`;
+  const prompt = `Script:\n${script}\n\nPrevious shot: ${describe(before)}\nNext shot: ${describe(after)}`;
+
+  const data = await callAI(prompt, settings, sys, SHOT_SCHEMA);
+  const knownIds = new Set(characters.map(c => c.id));
+  return { ...data, characterIds: (data.characterIds || []).filter((id: string) => knownIds.has(id)) };
+};
+
+export interface SoundCueSuggestions {
+  shots: { shotId: string; ambience?: string; sfx?: string }[];
+  scenes: { sceneId: string; bgm?: string }[];
+}
+
+const SOUND_CUE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    shots: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          shotId: { type: Type.STRING },
+          ambience: { type: Type.STRING },
+          sfx: { type: Type.STRING }
+        },
+        required: ["shotId"]
+      }
+    },
+    scenes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sceneId: { type: Type.STRING },
+          bgm: { type: Type.STRING }
+        },
+        required: ["sceneId"]
+      }
+    }
+  },
+  required: ["shots", "scenes"]
+};
+
+// Ambience and a sound effect per shot and a music cue per scene, described as keywords for matching against the sound library.
+export const suggestSoundCues = async (shots: Shot[], scenes: Scene[], genre: Genre, settings: AISettings): Promise<SoundCueSuggestions> => {
+  const sys = `You are a film sound designer. Genre: ${genre}. Vibe: ${GENRE_VIBES[genre]}.
+  For every shot, describe the ambience under it and at most one sound effect on its first frame. For every scene, describe its background music.
+  A line in parentheses is a sound or action cue and usually names the effect; shots without a line rely on ambience.
+  Write each description as 2-5 short Chinese keywords separated by spaces, the way sound files are tagged (e.g. "雨夜 街道 车流", "紧张 弦乐 悬疑"). Leave a field empty when nothing fits.
+  Return a JSON object.`;
+  const prompt = JSON.stringify({
+    scenes: scenes.map(s => ({ sceneId: s.id, name: s.name, description: s.description_zh })),
+    shots: shots.map(s => ({ shotId: s.id, sceneId: s.sceneId, line: s.dialogue || '', action: s.visualAction }))
+  });
+
+  const data = await callAI(prompt, settings, sys, SOUND_CUE_SCHEMA);
+  return { shots: data.shots || [], scenes: data.scenes || [] };
+};
+
+/**
+ * Characters appearing in a shot. Uses the explicit `characterIds`; shots from
+ * before those existed fall back to matching names in the action and dialogue.
+ */
+export const getShotCharacters = (shot: Shot, allCharacters: Character[]): Character[] => {
+  if (shot.characterIds) {
+    return shot.characterIds
+      .map(id => allCharacters.find(c => c.id === id))
+      .filter((c): c is Character => !!c);
+  }
+  return allCharacters.filter(char => shot.visualAction.includes(char.name) || (shot.dialogue && shot.dialogue.includes(char.name)));
+};
+
 export const generateShotImage = async (
   shot: Shot,
   style: VisualStyle,
@@ -272,48 +646,83 @@ export const generateShotImage = async (
   allScenes: Scene[],
   allCharacters: Character[],
   seed: number,
-  qualityMode: QualityMode = 'speed'
+  qualityMode: QualityMode = 'speed',
+  signal?: AbortSignal
 ): Promise<string> => {
   const scene = allScenes.find(s => s.id === shot.sceneId);
   const scenePrompt = scene ? `background: ${scene.prompt_en}` : '';
-  let charAnchor = "";
-  let refImage: string | undefined = undefined;
-
-  allCharacters.forEach(char => {
-      const mentioned = shot.visualAction.includes(char.name) || (shot.dialogue && shot.dialogue.includes(char.name));
-      if (mentioned) {
-          charAnchor += `${char.prompt_en}, `;
-          if (!refImage && char.imageUrl && char.imageUrl.startsWith('http') && !char.imageUrl.includes('placehold')) {
-              refImage = char.imageUrl;
-          }
-      }
-  });
+  const shotCharacters = getShotCharacters(shot, allCharacters);
+  const charAnchor = shotCharacters.map(char => `${char.prompt_en}, `).join('');
+  // Closest model sheet view/expression of the first character that has one
+  const refImage = shotCharacters.map(char => pickCharacterReference(char, shot)).find(Boolean);
 
   const prompt = `((${style})), ${charAnchor} ${shot.cameraAngle}, ${shot.img2vidPrompt}, ${scenePrompt}, cinematic lighting, masterpiece, 8k`;
-  const config = QUALITY_CONFIG[qualityMode];
-  const size = config.sizes[aspectRatio] || config.sizes[AspectRatio.SQUARE];
-  return getPollinationsUrl(prompt, size.w, size.h, seed, config.model, refImage);
+  const sizes = QUALITY_CONFIG[qualityMode].sizes;
+  const size = sizes[aspectRatio] || sizes[AspectRatio.SQUARE];
+  return generateImage({ prompt, width: size.w, height: size.h, seed, quality: qualityMode, refImage, signal });
+};
+
+// Gemini TTS returns bare 16-bit PCM; a WAV header makes it decodable and storable.
+const pcmToWav = (pcm: Uint8Array, sampleRate: number): ArrayBuffer => {
+    const buffer = new ArrayBuffer(44 + pcm.length);
+    const view = new DataView(buffer);
+    const writeTag = (offset: number, tag: string) => tag.split('').forEach((ch, i) => view.setUint8(offset + i, ch.charCodeAt(0)));
+    writeTag(0, 'RIFF');
+    view.setUint32(4, 36 + pcm.length, true);
+    writeTag(8, 'WAVE');
+    writeTag(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeTag(36, 'data');
+    view.setUint32(40, pcm.length, true);
+    new Uint8Array(buffer, 44).set(pcm);
+    return buffer;
 };
 
-export const generateSpeech = async (text: string): Promise<ArrayBuffer> => {
-    // Prioritize localStorage for TTS as well
-    const apiKey = localStorage.getItem('manju_api_key') || process.env.API_KEY || "";
-    const ai = new GoogleGenAI({ apiKey });
+const RATE_DIRECTIONS: Record<SpeakingRate, string | undefined> = {
+    slow: 'slowly',
+    normal: undefined,
+    fast: 'quickly'
+};
+
+export interface SpeechOptions {
+    voiceName?: string;
+    rate?: SpeakingRate;
+    // Delivery instruction such as "in a whisper"
+    style?: string;
+}
+
+// Returns a WAV file. Pace and delivery are steered with a natural-language preamble.
+export const generateSpeech = async (text: string, { voiceName = 'Kore', rate = 'normal', style }: SpeechOptions = {}): Promise<ArrayBuffer> => {
+    // Speech is Gemini-only, whichever provider writes the text
+    const ai = new GoogleGenAI({ apiKey: getApiKey('gemini') });
+    const directions = [style?.trim(), RATE_DIRECTIONS[rate]].filter(Boolean);
+    const prompt = directions.length ? `Say ${directions.join(' and ')}: ${text}` : text;
     try {
         const response = await ai.models.generateContent({
             model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text }] }],
+            contents: [{ parts: [{ text: prompt }] }],
             config: {
                 responseModalities: ["AUDIO"],
-                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
+                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
             },
         });
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        const inlineData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+        const base64Audio = inlineData?.data;
         if (!base64Audio) throw new Error("No audio generated");
         const binaryString = atob(base64Audio);
         const bytes = new Uint8Array(binaryString.length);
         for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-        return bytes.buffer;
+        // e.g. "audio/L16;codec=pcm;rate=24000"
+        const mimeType = inlineData?.mimeType || '';
+        if (mimeType.includes('wav')) return bytes.buffer;
+        const rate = Number(/rate=(\d+)/.exec(mimeType)?.[1]) || 24000;
+        return pcmToWav(bytes, rate);
     } catch (e: any) {
         console.error("TTS Error", e);
         throw new Error("Speech generation failed.");
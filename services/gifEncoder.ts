@@ -0,0 +1,200 @@
+/**
+ * Minimal animated GIF89a encoder: each frame gets its own 256-colour palette
+ * from a median cut over a 15-bit colour histogram, pixels are LZW-compressed,
+ * and runs of identical frames collapse into one longer frame.
+ */
+
+const MAX_COLORS = 256;
+// 5 bits per channel
+const HISTOGRAM_SIZE = 1 << 15;
+
+const toBin = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+interface Quantized {
+  // RGB triplets, padded to 256 entries
+  palette: Uint8Array;
+  indices: Uint8Array;
+}
+
+// Median cut: split the box with the widest channel range at its weighted median until there are enough colours.
+const quantize = (rgba: Uint8ClampedArray): Quantized => {
+  const counts = new Uint32Array(HISTOGRAM_SIZE);
+  for (let i = 0; i < rgba.length; i += 4) counts[toBin(rgba[i], rgba[i + 1], rgba[i + 2])]++;
+
+  const bins: number[] = [];
+  for (let bin = 0; bin < HISTOGRAM_SIZE; bin++) if (counts[bin]) bins.push(bin);
+  const channel = (bin: number, c: number) => (bin >> (10 - c * 5)) & 31;
+  // Channel spans are worked out once per box
+  const makeBox = (box: number[]) => {
+    const spans = [0, 1, 2].map(c => {
+      let min = 31, max = 0;
+      for (const bin of box) {
+        const v = channel(bin, c);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+      return max - min;
+    });
+    return { bins: box, spans };
+  };
+
+  const boxes = [makeBox(bins)];
+  while (boxes.length < MAX_COLORS) {
+    let target = -1, widest = 0, axis = 0;
+    boxes.forEach(({ bins: box, spans }, i) => {
+      if (box.length < 2) return;
+      spans.forEach((span, c) => {
+        if (span > widest) { widest = span; target = i; axis = c; }
+      });
+    });
+    if (target < 0) break;
+    const box = boxes[target].bins.sort((a, b) => channel(a, axis) - channel(b, axis));
+    const total = box.reduce((sum, bin) => sum + counts[bin], 0);
+    let split = 0;
+    for (let acc = 0; split < box.length - 1 && acc + counts[box[split]] <= total / 2; split++) acc += counts[box[split]];
+    split = Math.max(1, split);
+    boxes.splice(target, 1, makeBox(box.slice(0, split)), makeBox(box.slice(split)));
+  }
+
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  const lookup = new Uint8Array(HISTOGRAM_SIZE);
+  boxes.forEach(({ bins: box }, index) => {
+    let r = 0, g = 0, b = 0, weight = 0;
+    for (const bin of box) {
+      const n = counts[bin];
+      r += channel(bin, 0) * n;
+      g += channel(bin, 1) * n;
+      b += channel(bin, 2) * n;
+      weight += n;
+      lookup[bin] = index;
+    }
+    // Bin centre back to 8 bits
+    palette[index * 3] = Math.min(255, Math.round(r / weight) * 8 + 4);
+    palette[index * 3 + 1] = Math.min(255, Math.round(g / weight) * 8 + 4);
+    palette[index * 3 + 2] = Math.min(255, Math.round(b / weight) * 8 + 4);
+  });
+
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let i = 0, p = 0; i < rgba.length; i += 4, p++) indices[p] = lookup[toBin(rgba[i], rgba[i + 1], rgba[i + 2])];
+  return { palette, indices };
+};
+
+// Variable-width LZW as GIF uses it, packed LSB first.
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let buffer = 0, bits = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const write = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>= 8;
+      bits -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      // Table full: start over
+      write(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+  write(prefix);
+  write(endCode);
+  if (bits > 0) out.push(buffer & 0xff);
+  return Uint8Array.from(out);
+};
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+};
+
+interface PendingFrame extends Quantized {
+  delayMs: number;
+}
+
+export interface GifEncoder {
+  // RGBA pixels of one frame, e.g. from `getImageData`
+  addFrame: (rgba: Uint8ClampedArray, delayMs: number) => void;
+  finish: () => Blob;
+}
+
+/** Looping animated GIF of `width` × `height` frames. */
+export const createGifEncoder = (width: number, height: number): GifEncoder => {
+  const parts: Uint8Array[] = [];
+  const u16 = (v: number) => [v & 0xff, (v >> 8) & 0xff];
+  let pending: PendingFrame | null = null;
+  // GIF delays are in centiseconds; carry the rounding so long runs keep their timing
+  let clock = 0, written = 0;
+
+  const writeFrame = ({ palette, indices, delayMs }: PendingFrame) => {
+    clock += delayMs;
+    const delay = Math.max(2, Math.round(clock / 10) - written);
+    written += delay;
+    parts.push(Uint8Array.from([
+      // Graphic control: keep the previous frame underneath, no transparency
+      0x21, 0xf9, 0x04, 0x04, ...u16(delay), 0x00, 0x00,
+      // Image descriptor with a 256-entry local colour table
+      0x2c, ...u16(0), ...u16(0), ...u16(width), ...u16(height), 0x87
+    ]));
+    parts.push(palette);
+    const data = lzwEncode(indices, 8);
+    const blocks = [8];
+    for (let i = 0; i < data.length; i += 255) {
+      const size = Math.min(255, data.length - i);
+      blocks.push(size, ...data.subarray(i, i + size));
+    }
+    blocks.push(0);
+    parts.push(Uint8Array.from(blocks));
+  };
+
+  parts.push(Uint8Array.from([
+    ...Array.from('GIF89a', ch => ch.charCodeAt(0)),
+    ...u16(width), ...u16(height), 0x00, 0x00, 0x00,
+    // NETSCAPE2.0 extension: loop forever
+    0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', ch => ch.charCodeAt(0)), 0x03, 0x01, 0x00, 0x00, 0x00
+  ]));
+
+  return {
+    addFrame: (rgba, delayMs) => {
+      const frame = quantize(rgba);
+      if (pending && sameBytes(pending.indices, frame.indices) && sameBytes(pending.palette, frame.palette)) {
+        pending.delayMs += delayMs;
+        return;
+      }
+      if (pending) writeFrame(pending);
+      pending = { ...frame, delayMs };
+    },
+    finish: () => {
+      if (pending) writeFrame(pending);
+      pending = null;
+      parts.push(Uint8Array.from([0x3b]));
+      return new Blob(parts as BlobPart[], { type: 'image/gif' });
+    }
+  };
+};
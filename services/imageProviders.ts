@@ -0,0 +1,366 @@
+import { AspectRatio, ImageProviderType, ImageSettings, QualityMode } from "../types";
+
+/**
+ * Image generation backends behind a single interface.
+ * `generateCharacterImage` / `generateSceneImage` / `generateShotImage` only build
+ * prompts and sizes; the active provider (from settings) turns them into an image URL.
+ */
+
+export interface ImageRequest {
+  prompt: string;
+  width: number;
+  height: number;
+  seed: number;
+  quality: QualityMode;
+  refImage?: string;
+  // Cancels in-flight requests and polling
+  signal?: AbortSignal;
+}
+
+export interface ImageProvider {
+  id: ImageProviderType;
+  generate: (request: ImageRequest, settings: ImageSettings) => Promise<string>;
+}
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  provider: 'pollinations',
+  baseUrl: '',
+  modelName: '',
+  concurrency: 2,
+  maxRetries: 3
+};
+
+export const getImageSettings = (): ImageSettings => {
+  const saved = localStorage.getItem('manju_image_settings');
+  if (saved) return { ...DEFAULT_IMAGE_SETTINGS, ...JSON.parse(saved) };
+  return DEFAULT_IMAGE_SETTINGS;
+};
+
+export const QUALITY_CONFIG: Record<QualityMode, { model: string, sizes: Record<AspectRatio, { w: number, h: number }> }> = {
+  speed: {
+    model: 'flux-schnell',
+    sizes: {
+        [AspectRatio.PORTRAIT]: { w: 576, h: 1024 },
+        [AspectRatio.LANDSCAPE]: { w: 1024, h: 576 },
+        [AspectRatio.SQUARE]: { w: 768, h: 768 },
+        [AspectRatio.CINEMATIC]: { w: 1024, h: 432 },
+        [AspectRatio.CLASSIC]: { w: 800, h: 600 }
+    }
+  },
+  balanced: {
+    model: 'flux',
+    sizes: {
+        [AspectRatio.PORTRAIT]: { w: 768, h: 1344 },
+        [AspectRatio.LANDSCAPE]: { w: 1344, h: 768 },
+        [AspectRatio.SQUARE]: { w: 1024, h: 1024 },
+        [AspectRatio.CINEMATIC]: { w: 1280, h: 544 },
+        [AspectRatio.CLASSIC]: { w: 1024, h: 768 }
+    }
+  },
+  quality: {
+    model: 'flux-realism',
+    sizes: {
+        [AspectRatio.PORTRAIT]: { w: 832, h: 1472 },
+        [AspectRatio.LANDSCAPE]: { w: 1472, h: 832 },
+        [AspectRatio.SQUARE]: { w: 1280, h: 1280 },
+        [AspectRatio.CINEMATIC]: { w: 1536, h: 640 },
+        [AspectRatio.CLASSIC]: { w: 1280, h: 960 }
+    }
+  }
+};
+
+// Sampling steps for self-hosted diffusion backends
+const QUALITY_STEPS: Record<QualityMode, number> = { speed: 12, balanced: 24, quality: 36 };
+
+const NEGATIVE_PROMPT = "lowres, bad anatomy, bad hands, text, watermark, signature, blurry, deformed";
+const REF_IMAGE_STRENGTH = 0.7;
+
+const isUsableRef = (url?: string): url is string => !!url && !url.includes('placehold');
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const fetchAsBlob = async (url: string, what = 'reference image', signal?: AbortSignal): Promise<Blob> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Failed to fetch ${what} (${response.status})`);
+  return response.blob();
+};
+
+const fetchAsBase64 = async (url: string, signal?: AbortSignal): Promise<string> => {
+  const dataUrl = await blobToDataUrl(await fetchAsBlob(url, 'reference image', signal));
+  return dataUrl.slice(dataUrl.indexOf(',') + 1);
+};
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  return new Error(data.error?.message || data.error || data.detail || `${fallback} (status ${response.status})`);
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// --- Pollinations.ai ---
+
+export const getPollinationsUrl = (
+    prompt: string,
+    width: number,
+    height: number,
+    seed: number,
+    model: string = 'flux-schnell',
+    refImage?: string
+) => {
+    const encodedPrompt = encodeURIComponent(prompt.substring(0, 1000));
+    let url = `https://image.pollinations.ai/prompt/${encodedPrompt}?width=${width}&height=${height}&nologo=true&seed=${seed}&model=${model}&t=${Date.now()}`;
+    if (refImage && refImage.startsWith('http') && !refImage.includes('placehold')) {
+        url += `&image=${encodeURIComponent(refImage)}&strength=${REF_IMAGE_STRENGTH}`;
+    }
+    return url;
+};
+
+const pollinationsProvider: ImageProvider = {
+  id: 'pollinations',
+  generate: async (req, settings) => {
+    const model = settings.modelName || QUALITY_CONFIG[req.quality].model;
+    return getPollinationsUrl(req.prompt, req.width, req.height, req.seed, model, req.refImage);
+  }
+};
+
+// --- Automatic1111 / Forge WebUI (launched with --api) ---
+
+const automatic1111Provider: ImageProvider = {
+  id: 'automatic1111',
+  generate: async (req, settings) => {
+    const baseUrl = trimSlash(settings.baseUrl || 'http://127.0.0.1:7860');
+    const body: any = {
+      prompt: req.prompt,
+      negative_prompt: NEGATIVE_PROMPT,
+      width: req.width,
+      height: req.height,
+      seed: req.seed,
+      steps: QUALITY_STEPS[req.quality],
+      cfg_scale: 7
+    };
+    if (settings.modelName) body.override_settings = { sd_model_checkpoint: settings.modelName };
+
+    let endpoint = 'txt2img';
+    if (isUsableRef(req.refImage)) {
+      endpoint = 'img2img';
+      body.init_images = [await fetchAsBase64(req.refImage, req.signal)];
+      body.denoising_strength = REF_IMAGE_STRENGTH;
+    }
+
+    const response = await fetch(`${baseUrl}/sdapi/v1/${endpoint}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: req.signal
+    });
+    if (!response.ok) throw await readError(response, "Automatic1111 request failed");
+    const data = await response.json();
+    const image = data.images?.[0];
+    if (!image) throw new Error("Automatic1111 returned no image");
+    return `data:image/png;base64,${image}`;
+  }
+};
+
+// --- ComfyUI (API-format workflow, polled via /history) ---
+
+const COMFY_POLL_INTERVAL = 1000;
+const COMFY_TIMEOUT = 5 * 60 * 1000;
+
+const buildComfyWorkflow = (req: ImageRequest, checkpoint: string, uploadedImage?: string) => {
+  const workflow: Record<string, any> = {
+    "3": {
+      class_type: "KSampler",
+      inputs: {
+        seed: req.seed, steps: QUALITY_STEPS[req.quality], cfg: 7, sampler_name: "euler", scheduler: "normal",
+        denoise: uploadedImage ? REF_IMAGE_STRENGTH : 1,
+        model: ["4", 0], positive: ["6", 0], negative: ["7", 0], latent_image: ["5", 0]
+      }
+    },
+    "4": { class_type: "CheckpointLoaderSimple", inputs: { ckpt_name: checkpoint } },
+    "5": { class_type: "EmptyLatentImage", inputs: { width: req.width, height: req.height, batch_size: 1 } },
+    "6": { class_type: "CLIPTextEncode", inputs: { text: req.prompt, clip: ["4", 1] } },
+    "7": { class_type: "CLIPTextEncode", inputs: { text: NEGATIVE_PROMPT, clip: ["4", 1] } },
+    "8": { class_type: "VAEDecode", inputs: { samples: ["3", 0], vae: ["4", 2] } },
+    "9": { class_type: "SaveImage", inputs: { filename_prefix: "manju", images: ["8", 0] } }
+  };
+  if (uploadedImage) {
+    workflow["10"] = { class_type: "LoadImage", inputs: { image: uploadedImage } };
+    workflow["11"] = { class_type: "VAEEncode", inputs: { pixels: ["10", 0], vae: ["4", 2] } };
+    workflow["3"].inputs.latent_image = ["11", 0];
+  }
+  return workflow;
+};
+
+const comfyUIProvider: ImageProvider = {
+  id: 'comfyui',
+  generate: async (req, settings) => {
+    const baseUrl = trimSlash(settings.baseUrl || 'http://127.0.0.1:8188');
+
+    let uploadedImage: string | undefined;
+    if (isUsableRef(req.refImage)) {
+      const form = new FormData();
+      form.append('image', await fetchAsBlob(req.refImage, 'reference image', req.signal), `manju_ref_${req.seed}.png`);
+      form.append('overwrite', 'true');
+      const upload = await fetch(`${baseUrl}/upload/image`, { method: "POST", body: form, signal: req.signal });
+      if (!upload.ok) throw await readError(upload, "ComfyUI image upload failed");
+      const uploaded = await upload.json();
+      uploadedImage = uploaded.subfolder ? `${uploaded.subfolder}/${uploaded.name}` : uploaded.name;
+    }
+
+    const workflow = buildComfyWorkflow(req, settings.modelName || 'sd_xl_base_1.0.safetensors', uploadedImage);
+    const queued = await fetch(`${baseUrl}/prompt`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ prompt: workflow, client_id: 'manju' }),
+      signal: req.signal
+    });
+    if (!queued.ok) throw await readError(queued, "ComfyUI queue request failed");
+    const { prompt_id } = await queued.json();
+
+    const deadline = Date.now() + COMFY_TIMEOUT;
+    while (Date.now() < deadline) {
+      await new Promise(r => setTimeout(r, COMFY_POLL_INTERVAL));
+      if (req.signal?.aborted) throw new Error("ComfyUI generation cancelled");
+      const historyRes = await fetch(`${baseUrl}/history/${prompt_id}`, { signal: req.signal });
+      if (!historyRes.ok) continue;
+      const entry = (await historyRes.json())[prompt_id];
+      if (!entry) continue;
+      if (entry.status?.status_str === 'error') throw new Error("ComfyUI workflow failed");
+      const image = entry.outputs?.["9"]?.images?.[0];
+      if (image) {
+        const params = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder || '', type: image.type || 'output' });
+        return `${baseUrl}/view?${params.toString()}`;
+      }
+    }
+    throw new Error("ComfyUI generation timed out");
+  }
+};
+
+// --- OpenAI-compatible /images/generations and /images/edits ---
+
+// The endpoint only renders a few fixed sizes per model family
+const OPENAI_SIZES: { pattern: RegExp; square: string; landscape: string; portrait: string }[] = [
+  { pattern: /^dall-e-2/, square: '1024x1024', landscape: '1024x1024', portrait: '1024x1024' },
+  { pattern: /^dall-e-3/, square: '1024x1024', landscape: '1792x1024', portrait: '1024x1792' },
+  { pattern: /./, square: '1024x1024', landscape: '1536x1024', portrait: '1024x1536' }
+];
+
+const getOpenAISize = (model: string, width: number, height: number) => {
+  const sizes = OPENAI_SIZES.find(entry => entry.pattern.test(model))!;
+  const ratio = width / height;
+  return ratio > 1.2 ? sizes.landscape : ratio < 0.83 ? sizes.portrait : sizes.square;
+};
+
+// Centre-crop to the requested aspect ratio and scale to the requested size
+const cropToSize = async (image: Blob, width: number, height: number): Promise<string> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.max(width / bitmap.width, height / bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(bitmap, (width - bitmap.width * scale) / 2, (height - bitmap.height * scale) / 2, bitmap.width * scale, bitmap.height * scale);
+  bitmap.close();
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Reference images go through /images/edits, which gpt-image and dall-e-2
+ * models accept; dall-e-3 has no edit endpoint and generates without them.
+ */
+const openAIImageProvider: ImageProvider = {
+  id: 'openai',
+  generate: async (req, settings) => {
+    // The text provider's key belongs to another service; never send it here
+    if (!settings.apiKey) throw new Error("The OpenAI image provider needs its own API key in settings.");
+    const baseUrl = trimSlash(settings.baseUrl || 'https://api.openai.com/v1');
+    const model = settings.modelName || 'gpt-image-1';
+    const size = getOpenAISize(model, req.width, req.height);
+    const isDallE = /^dall-e/.test(model);
+    const headers = { "Authorization": `Bearer ${settings.apiKey}` };
+
+    let response: Response;
+    if (isUsableRef(req.refImage) && !/^dall-e-3/.test(model)) {
+      const form = new FormData();
+      form.append('model', model);
+      form.append('prompt', req.prompt);
+      form.append('size', size);
+      form.append('n', '1');
+      if (isDallE) form.append('response_format', 'b64_json');
+      form.append('image', await fetchAsBlob(req.refImage, 'reference image', req.signal), 'reference.png');
+      response = await fetch(`${baseUrl}/images/edits`, { method: "POST", headers, body: form, signal: req.signal });
+    } else {
+      response = await fetch(`${baseUrl}/images/generations`, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify({ model, prompt: req.prompt, size, n: 1, ...(isDallE ? { response_format: 'b64_json' } : {}) }),
+        signal: req.signal
+      });
+    }
+    if (!response.ok) throw await readError(response, "Image request failed");
+    const data = await response.json();
+    const result = data.data?.[0];
+    const image = result?.b64_json ? `data:image/png;base64,${result.b64_json}` : result?.url;
+    if (!image) throw new Error("No image in response");
+    return cropToSize(await fetchAsBlob(image, 'generated image', req.signal), req.width, req.height);
+  }
+};
+
+// --- Offline stub (tests / demos without a GPU or network) ---
+
+const escapeXml = (text: string) => text.replace(/[<>&'"]/g, ch => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[ch] as string));
+
+const stubProvider: ImageProvider = {
+  id: 'stub',
+  generate: async (req) => {
+    const hue = req.seed % 360;
+    const label = escapeXml(req.prompt.slice(0, 80));
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${req.width}" height="${req.height}">`
+      + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},45%,25%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},45%,12%)"/></linearGradient></defs>`
+      + `<rect width="100%" height="100%" fill="url(#g)"/>`
+      + `<text x="50%" y="50%" fill="#ddd" font-family="sans-serif" font-size="${Math.round(req.height / 24)}" text-anchor="middle">${label}</text>`
+      + `<text x="50%" y="58%" fill="#999" font-family="monospace" font-size="${Math.round(req.height / 36)}" text-anchor="middle">seed ${req.seed} · ${req.width}x${req.height}</text>`
+      + `</svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+};
+
+export const IMAGE_PROVIDERS: Record<ImageProviderType, ImageProvider> = {
+  pollinations: pollinationsProvider,
+  automatic1111: automatic1111Provider,
+  comfyui: comfyUIProvider,
+  openai: openAIImageProvider,
+  stub: stubProvider
+};
+
+export const generateImage = async (request: ImageRequest, settings: ImageSettings = getImageSettings()): Promise<string> => {
+  const provider = IMAGE_PROVIDERS[settings.provider] || pollinationsProvider;
+  return provider.generate(request, settings);
+};
+
+const PRELOAD_TIMEOUT = 120000;
+
+/**
+ * Resolve once the browser has actually fetched and decoded `url`.
+ * URL-only providers (Pollinations) only fail here, so the queue preloads every result.
+ */
+export const preloadImage = (url: string, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) { reject(new Error("Image load cancelled")); return; }
+  const img = new Image();
+  const cleanup = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+    img.onload = null;
+    img.onerror = null;
+  };
+  const onAbort = () => { cleanup(); img.src = ''; reject(new Error("Image load cancelled")); };
+  const timer = setTimeout(() => { cleanup(); reject(new Error("Image load timed out")); }, PRELOAD_TIMEOUT);
+  img.onload = () => { cleanup(); resolve(); };
+  img.onerror = () => { cleanup(); reject(new Error("Image failed to load")); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  img.src = url;
+});
@@ -0,0 +1,60 @@
+import { Character, ModelSheetKey, Shot } from "../types";
+
+/**
+ * Character model sheets: turnaround views plus expression variants, all
+ * generated from the character's prompt with the same locked seed.
+ * `pickCharacterReference` chooses the entry that best fits a shot.
+ */
+
+export interface ModelSheetEntry {
+  key: ModelSheetKey;
+  label: string;
+  kind: 'view' | 'expression';
+  prompt: string;
+  // Matched (lower-cased) against the shot's action, dialogue and camera text
+  keywords: string[];
+}
+
+export const MODEL_SHEET_ENTRIES: ModelSheetEntry[] = [
+  { key: 'front', label: '正面', kind: 'view', prompt: 'full body, front view, facing the viewer, neutral expression, character turnaround, plain background', keywords: [] },
+  { key: 'side', label: '侧面', kind: 'view', prompt: 'full body, side view, profile, neutral expression, character turnaround, plain background', keywords: ['侧脸', '侧面', '侧身', '侧影', 'profile', 'side view'] },
+  { key: 'back', label: '背面', kind: 'view', prompt: 'full body, back view, seen from behind, character turnaround, plain background', keywords: ['背影', '背对', '背面', '身后', '离去', 'from behind', 'back view', 'walks away'] },
+  { key: 'smiling', label: '微笑', kind: 'expression', prompt: 'close-up portrait, smiling, happy expression, plain background', keywords: ['笑', '开心', '喜悦', 'smil', 'laugh', 'grin', 'happy'] },
+  { key: 'angry', label: '愤怒', kind: 'expression', prompt: 'close-up portrait, angry expression, furrowed brows, clenched jaw, plain background', keywords: ['怒', '生气', '愤', '瞪', 'angry', 'rage', 'furious', 'glare'] },
+  { key: 'crying', label: '哭泣', kind: 'expression', prompt: 'close-up portrait, crying, tears streaming down cheeks, plain background', keywords: ['哭', '泪', '啜泣', 'cry', 'tears', 'sob', 'weep'] },
+  { key: 'surprised', label: '惊讶', kind: 'expression', prompt: 'close-up portrait, surprised expression, wide eyes, open mouth, plain background', keywords: ['惊', '震惊', '吓', 'surprise', 'shock', 'astonish', 'gasp'] }
+];
+
+// Faces are too small to matter in wide framing, so expressions are skipped there
+const WIDE_SHOT_KEYWORDS = ['远景', '全景', '大全景', 'wide', 'establishing', 'long shot', 'aerial'];
+
+const matchScore = (text: string, keywords: string[]) => keywords.filter(k => text.includes(k)).length;
+
+const isUsable = (url?: string): url is string => !!url && !url.includes('placehold');
+
+/**
+ * Closest reference image of `character` for `shot`: a back/side view when the
+ * action says so, otherwise a matching expression (unless the shot is wide),
+ * otherwise the front view or the main character image.
+ */
+export const pickCharacterReference = (character: Character, shot: Shot): string | undefined => {
+  const sheet = character.modelSheet || {};
+  const fallback = isUsable(sheet.front) ? sheet.front : (isUsable(character.imageUrl) ? character.imageUrl : undefined);
+  const text = [shot.visualAction, shot.dialogue, shot.cameraAngle, shot.img2vidPrompt].filter(Boolean).join(' ').toLowerCase();
+
+  const best = (kind: ModelSheetEntry['kind']) => MODEL_SHEET_ENTRIES
+    .filter(e => e.kind === kind && isUsable(sheet[e.key]))
+    .map(e => ({ entry: e, score: matchScore(text, e.keywords) }))
+    .filter(m => m.score > 0)
+    .sort((a, b) => b.score - a.score)[0]?.entry;
+
+  const view = best('view');
+  if (view?.key === 'back') return sheet.back;
+
+  const isWide = WIDE_SHOT_KEYWORDS.some(k => text.includes(k));
+  const expression = isWide ? undefined : best('expression');
+  if (expression) return sheet[expression.key];
+
+  if (view) return sheet[view.key];
+  return fallback;
+};
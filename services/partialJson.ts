@@ -0,0 +1,44 @@
+/**
+ * Pull the complete object elements out of a JSON array that is still streaming,
+ * e.g. `[{"a":1},{"a":` -> [{ a: 1 }]. The first `[` marks the array start, so
+ * code fences and wrappers like `{"shots": [` are skipped.
+ */
+export const parsePartialJsonArray = (text: string): any[] => {
+  const start = text.indexOf('[');
+  if (start === -1) return [];
+
+  const items: any[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      if (depth === 0) itemStart = i;
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      // Closing bracket of the array itself
+      if (depth === 0) break;
+      depth--;
+      if (depth === 0 && itemStart !== -1) {
+        try {
+          items.push(JSON.parse(text.slice(itemStart, i + 1)));
+        } catch {
+          // Malformed element; the final full parse will report it
+        }
+        itemStart = -1;
+      }
+    }
+  }
+  return items;
+};
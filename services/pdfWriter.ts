@@ -0,0 +1,57 @@
+/**
+ * Minimal PDF writer for image-only documents: every page is one JPEG scaled
+ * to the page box. Pages are drawn on canvas beforehand, which keeps CJK text
+ * working without embedding fonts.
+ */
+
+export interface PdfPage {
+  // Baseline JPEG bytes, e.g. from `canvas.toBlob(..., 'image/jpeg')`
+  jpeg: Uint8Array;
+  // Pixel size of the image
+  width: number;
+  height: number;
+}
+
+const encoder = new TextEncoder();
+
+/** PDF with one page per image; the page box is `pageWidth` × `pageHeight` points. */
+export const createPdf = (pages: PdfPage[], pageWidth: number, pageHeight: number): Blob => {
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  // Object numbers start at 1; `offsets[n - 1]` is where object n begins
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id - 1] = length;
+    push(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      push('stream\n');
+      push(stream);
+      push('\nendstream\n');
+    }
+    push('endobj\n');
+  };
+
+  // 1 catalog, 2 page tree, then page, contents and image for each page
+  const pageId = (i: number) => 3 + i * 3;
+  push('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const contents = encoder.encode(`q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`);
+    writeObject(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+    writeObject(id + 1, `<< /Length ${contents.length} >>`, contents);
+    writeObject(id + 2, `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`, page.jpeg);
+  });
+
+  const xref = length;
+  push(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  push(offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join(''));
+  push(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,259 @@
+import JSZip from 'jszip';
+import { ProjectData, Shot, SoundCue, Genre, VisualStyle, AspectRatio } from "../types";
+import { isMediaRef, getMediaBlob, putMedia } from "./projectStore";
+
+/**
+ * .manju project archive: a zip holding `project.json` (the full project state)
+ * plus cached copies of every generated image under `images/` and locally stored
+ * media (`media:` refs such as video clips, voice clips and sound cue files) under `media/`.
+ *
+ * Version history:
+ *  0 - legacy "storyboard.zip" from 导出资产 (script.txt + shot_NN.png, no JSON)
+ *  1 - project.json manifest + cached images
+ *  2 - adds `media` entries for local media store blobs
+ */
+
+export const ARCHIVE_VERSION = 2;
+export const ARCHIVE_EXTENSION = '.manju';
+
+const MANIFEST_FILE = 'project.json';
+const IMAGE_FOLDER = 'images';
+const MEDIA_FOLDER = 'media';
+
+interface ArchiveAsset {
+  path: string;
+  sourceUrl: string;
+}
+
+interface ArchiveMedia {
+  path: string;
+  ref: string;
+  mimeType: string;
+}
+
+interface ArchiveManifest {
+  format: 'manju';
+  version: number;
+  exportedAt: number;
+  project: ProjectData;
+  assets: ArchiveAsset[];
+  media: ArchiveMedia[];
+}
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/aac': 'aac',
+  'audio/mp4': 'm4a',
+  'audio/flac': 'flac'
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSION_BY_MIME).map(([mime, ext]) => [ext, mime])
+);
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// --- Export ---
+
+export const exportProjectArchive = async (project: ProjectData): Promise<Blob> => {
+  const zip = new JSZip();
+  const assets: ArchiveAsset[] = [];
+
+  const entries: { key: string; url?: string }[] = [
+    ...project.characters.map(c => ({ key: `character_${c.id}`, url: c.imageUrl })),
+    ...project.characters.flatMap(c => Object.entries(c.modelSheet || {}).map(([sheetKey, url]) => ({ key: `character_${c.id}_${sheetKey}`, url }))),
+    ...project.scenes.map(s => ({ key: `scene_${s.id}`, url: s.imageUrl })),
+    ...project.shots.map(s => ({ key: `shot_${s.id}`, url: s.imageUrl }))
+  ];
+
+  await Promise.all(entries.map(async ({ key, url }) => {
+    if (!url) return;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const blob = await response.blob();
+      const path = `${IMAGE_FOLDER}/${key}.${EXTENSION_BY_MIME[blob.type] || 'png'}`;
+      zip.file(path, blob);
+      assets.push({ path, sourceUrl: url });
+    } catch (e) {
+      console.warn(`Archive: failed to cache image for ${key}`, e);
+    }
+  }));
+
+  const media: ArchiveMedia[] = [];
+  const mediaRefs = new Set([
+    ...project.shots.flatMap(s => [s.videoUrl, s.audioUrl, s.ambience?.url, s.sfx?.url]),
+    ...project.scenes.map(s => s.bgm?.url)
+  ].filter(isMediaRef));
+  await Promise.all([...mediaRefs].map(async (ref) => {
+    const blob = await getMediaBlob(ref);
+    if (!blob) return;
+    const mimeType = blob.type.split(';')[0] || 'application/octet-stream';
+    const path = `${MEDIA_FOLDER}/${ref.slice(ref.indexOf(':') + 1)}.${EXTENSION_BY_MIME[mimeType] || 'bin'}`;
+    zip.file(path, blob);
+    media.push({ path, ref, mimeType });
+  }));
+
+  const manifest: ArchiveManifest = {
+    format: 'manju',
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    project,
+    assets,
+    media
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: "blob", mimeType: "application/zip" });
+};
+
+// --- Import & Migration ---
+
+// Version 0 archives are the plain asset zips written by 导出资产.
+const readLegacyArchive = async (zip: JSZip): Promise<ArchiveManifest> => {
+  const scriptFile = zip.file(/(^|\/)script\.txt$/)[0];
+  if (!scriptFile) throw new Error("Unrecognized archive: missing project.json");
+  const scriptContent = await scriptFile.async('string');
+  const folder = scriptFile.name.slice(0, scriptFile.name.length - 'script.txt'.length);
+
+  const blocks = scriptContent.split(/\[Shot (\d+)\]\n/).slice(1);
+  const shots: Shot[] = [];
+  const assets: ArchiveAsset[] = [];
+  for (let i = 0; i < blocks.length; i += 2) {
+    const number = Number(blocks[i]);
+    const [dialogue, ...actionLines] = blocks[i + 1].replace(/\n+$/, '').split('\n');
+    const shot: Shot = {
+      id: `shot-legacy-${number}`,
+      originalScriptSegment: dialogue,
+      dialogue: dialogue || undefined,
+      visualAction: actionLines.join('\n'),
+      cameraAngle: '',
+      img2vidPrompt: '',
+      isLoading: false,
+      isError: false
+    };
+    const imagePath = `${folder}shot_${String(number).padStart(2, '0')}.png`;
+    if (zip.file(imagePath)) {
+      assets.push({ path: imagePath, sourceUrl: '' });
+      shot.imageUrl = imagePath;
+    }
+    shots.push(shot);
+  }
+
+  const now = Date.now();
+  return {
+    format: 'manju',
+    version: 0,
+    exportedAt: now,
+    assets,
+    media: [],
+    project: {
+      id: '',
+      name: '导入的分镜',
+      createdAt: now,
+      updatedAt: now,
+      step: 'STORYBOARD',
+      script: shots.map(s => [s.dialogue, s.visualAction].filter(Boolean).join('\n')).join('\n\n'),
+      projectSeed: Math.floor(Math.random() * 100000),
+      genre: Genre.CYBERPUNK,
+      style: VisualStyle.CINEMATIC_REALISM,
+      aspectRatio: AspectRatio.LANDSCAPE,
+      qualityMode: 'speed',
+      characters: [],
+      scenes: [],
+      shots
+    }
+  };
+};
+
+// Each migration upgrades a manifest from version N to N + 1.
+const MIGRATIONS: Record<number, (manifest: ArchiveManifest) => ArchiveManifest> = {
+  0: (manifest) => ({ ...manifest, version: 1 }),
+  1: (manifest) => ({ ...manifest, media: [], version: 2 })
+};
+
+const migrateManifest = (manifest: ArchiveManifest): ArchiveManifest => {
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${manifest.version} is newer than supported (${ARCHIVE_VERSION}). Please update the app.`);
+  }
+  let current = manifest;
+  while (current.version < ARCHIVE_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) throw new Error(`No migration for archive version ${current.version}`);
+    current = migrate(current);
+  }
+  return current;
+};
+
+/**
+ * Rebuild a project from an archive. Every image is restored from its cached
+ * copy as a data URL, remote ones included, since generated URLs can expire or
+ * render differently later; the source URL is only kept when the copy is missing.
+ */
+export const importProjectArchive = async (file: Blob): Promise<ProjectData> => {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file(MANIFEST_FILE);
+
+  let manifest: ArchiveManifest;
+  if (manifestFile) {
+    manifest = JSON.parse(await manifestFile.async('string'));
+    if (manifest.format !== 'manju') throw new Error("Not a Manju project archive");
+  } else {
+    manifest = await readLegacyArchive(zip);
+  }
+  manifest = migrateManifest(manifest);
+
+  const restoredUrls = new Map<string, string>();
+  await Promise.all(manifest.assets.map(async (asset) => {
+    const entry = zip.file(asset.path);
+    if (!entry) return;
+    const ext = asset.path.split('.').pop() || 'png';
+    const blob = new Blob([await entry.async('arraybuffer')], { type: MIME_BY_EXTENSION[ext] || 'image/png' });
+    restoredUrls.set(asset.sourceUrl || asset.path, await blobToDataUrl(blob));
+  }));
+
+  // Local media gets fresh refs in this browser's media store
+  await Promise.all(manifest.media.map(async (item) => {
+    const entry = zip.file(item.path);
+    if (!entry) return;
+    const blob = new Blob([await entry.async('arraybuffer')], { type: item.mimeType });
+    restoredUrls.set(item.ref, await putMedia(blob));
+  }));
+
+  const restore = (url?: string) => (url && restoredUrls.get(url)) || url;
+  const restoreCue = (cue?: SoundCue) => cue && { ...cue, url: restore(cue.url) };
+  const { project } = manifest;
+
+  return {
+    ...project,
+    characters: project.characters.map(c => ({
+      ...c,
+      imageUrl: restore(c.imageUrl),
+      modelSheet: c.modelSheet && Object.fromEntries(Object.entries(c.modelSheet).map(([sheetKey, url]) => [sheetKey, restore(url)])),
+      isLoading: false
+    })),
+    scenes: project.scenes.map(s => ({ ...s, imageUrl: restore(s.imageUrl), bgm: restoreCue(s.bgm), isLoading: false })),
+    shots: project.shots.map(s => ({
+      ...s,
+      imageUrl: restore(s.imageUrl),
+      videoUrl: restore(s.videoUrl),
+      audioUrl: restore(s.audioUrl),
+      ambience: restoreCue(s.ambience),
+      sfx: restoreCue(s.sfx),
+      isLoading: false
+    }))
+  };
+};
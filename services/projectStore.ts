@@ -0,0 +1,197 @@
+import { ProjectData, ProjectSummary, SoundAsset } from "../types";
+
+/**
+ * Local project persistence backed by IndexedDB.
+ * Projects are stored whole; the last opened project id lives in localStorage
+ * so a reload can reopen it without asking.
+ *
+ * Large binary assets (video clips, audio) live in a separate media store and are
+ * referenced from project state as `media:<id>` so autosaves stay small. Blobs
+ * go with the last project using them, or in a sweep at startup.
+ *
+ * The sound library is shared by all projects; its entries point at media blobs.
+ */
+
+const DB_NAME = 'manju_projects';
+const DB_VERSION = 3;
+const PROJECT_STORE = 'projects';
+const MEDIA_STORE = 'media';
+const SOUND_STORE = 'sounds';
+const MEDIA_PREFIX = 'media:';
+const LAST_PROJECT_KEY = 'manju_last_project_id';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+        db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+        db.createObjectStore(MEDIA_STORE);
+      }
+      if (!db.objectStoreNames.contains(SOUND_STORE)) {
+        db.createObjectStore(SOUND_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error("Failed to open project database"));
+    };
+  });
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>, storeName: string = PROJECT_STORE): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+};
+
+export const createProjectId = () => `proj-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Derive a readable project name from the first line of the script.
+export const deriveProjectName = (script: string) => {
+  const firstLine = script.trim().split('\n')[0] || '';
+  return firstLine.length > 24 ? `${firstLine.slice(0, 24)}…` : (firstLine || '未命名项目');
+};
+
+// Loading flags are transient UI state and must not survive a reload.
+const normalizeProject = (project: ProjectData): ProjectData => ({
+  ...project,
+  characters: project.characters.map(c => ({ ...c, isLoading: false })),
+  scenes: project.scenes.map(s => ({ ...s, isLoading: false })),
+  shots: project.shots.map(s => ({ ...s, isLoading: false }))
+});
+
+export const saveProject = async (project: ProjectData): Promise<void> => {
+  await runRequest('readwrite', store => store.put(project));
+  localStorage.setItem(LAST_PROJECT_KEY, project.id);
+};
+
+export const loadProject = async (id: string): Promise<ProjectData | null> => {
+  const project = await runRequest<ProjectData | undefined>('readonly', store => store.get(id));
+  if (!project) return null;
+  localStorage.setItem(LAST_PROJECT_KEY, project.id);
+  return normalizeProject(project);
+};
+
+export const loadLastProject = async (): Promise<ProjectData | null> => {
+  const id = localStorage.getItem(LAST_PROJECT_KEY);
+  if (!id) return null;
+  return loadProject(id);
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await runRequest<ProjectData[]>('readonly', store => store.getAll());
+  return projects
+    .map(p => ({ id: p.id, name: p.name, updatedAt: p.updatedAt, step: p.step, shotCount: p.shots.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const project = await runRequest<ProjectData | undefined>('readonly', store => store.get(id));
+  await runRequest('readwrite', store => store.delete(id));
+  if (localStorage.getItem(LAST_PROJECT_KEY) === id) {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+  if (!project) return;
+  const used = await listUsedMedia();
+  await deleteMedia(findMediaRefs(project).filter(ref => !used.has(ref)));
+};
+
+// --- Media blobs ---
+
+const objectUrlCache = new Map<string, string>();
+
+export const isMediaRef = (url?: string): url is string => !!url && url.startsWith(MEDIA_PREFIX);
+
+export const putMedia = async (blob: Blob): Promise<string> => {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  await runRequest('readwrite', store => store.put(blob, id), MEDIA_STORE);
+  return `${MEDIA_PREFIX}${id}`;
+};
+
+export const getMediaBlob = async (ref: string): Promise<Blob | null> => {
+  const blob = await runRequest<Blob | undefined>('readonly', store => store.get(ref.slice(MEDIA_PREFIX.length)), MEDIA_STORE);
+  return blob || null;
+};
+
+// Every `media:` ref anywhere in a project or sound entry
+const findMediaRefs = (value: unknown): string[] => JSON.stringify(value).match(/media:[\w-]+/g) || [];
+
+// Refs still held by a saved project or the sound library
+const listUsedMedia = async (): Promise<Set<string>> => {
+  const [projects, sounds] = await Promise.all([
+    runRequest<ProjectData[]>('readonly', store => store.getAll()),
+    runRequest<SoundAsset[]>('readonly', store => store.getAll(), SOUND_STORE)
+  ]);
+  return new Set([...projects, ...sounds].flatMap(findMediaRefs));
+};
+
+const deleteMedia = async (refs: string[]): Promise<void> => {
+  if (refs.length === 0) return;
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(MEDIA_STORE, 'readwrite');
+    const store = tx.objectStore(MEDIA_STORE);
+    refs.forEach(ref => store.delete(ref.slice(MEDIA_PREFIX.length)));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+  refs.forEach(ref => {
+    const objectUrl = objectUrlCache.get(ref);
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+    objectUrlCache.delete(ref);
+  });
+};
+
+/**
+ * Delete media that no saved project or sound uses, such as replaced clips and
+ * re-synthesized voice lines. Replacements stay during a session because undo
+ * can bring them back, so this runs at startup before anything is loaded.
+ */
+export const sweepUnusedMedia = async (): Promise<void> => {
+  const used = await listUsedMedia();
+  const keys = await runRequest<IDBValidKey[]>('readonly', store => store.getAllKeys(), MEDIA_STORE);
+  await deleteMedia(keys.map(key => `${MEDIA_PREFIX}${key}`).filter(ref => !used.has(ref)));
+};
+
+// Turn a stored reference into something <video>/<audio>/fetch can use; other URLs pass through.
+export const resolveMediaUrl = async (url: string): Promise<string> => {
+  if (!isMediaRef(url)) return url;
+  const cached = objectUrlCache.get(url);
+  if (cached) return cached;
+  const blob = await getMediaBlob(url);
+  if (!blob) throw new Error(`Media not found: ${url}`);
+  const objectUrl = URL.createObjectURL(blob);
+  objectUrlCache.set(url, objectUrl);
+  return objectUrl;
+};
+
+// --- Sound library ---
+
+export const listSounds = async (): Promise<SoundAsset[]> => {
+  const sounds = await runRequest<SoundAsset[]>('readonly', store => store.getAll(), SOUND_STORE);
+  return sounds.sort((a, b) => b.importedAt - a.importedAt);
+};
+
+export const saveSound = async (sound: SoundAsset): Promise<void> => {
+  await runRequest('readwrite', store => store.put(sound), SOUND_STORE);
+};
+
+// The file stays in the media store, since cues already placed in projects keep pointing at it.
+export const deleteSound = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id), SOUND_STORE);
+};
@@ -0,0 +1,267 @@
+import JSZip from 'jszip';
+import { Character, Scene } from "../types";
+import { NARRATOR_SPEAKER, isNarratorName, parseDialogueLine } from "./voiceCasting";
+
+/**
+ * Screenplay files as writers deliver them: Fountain, Final Draft (.fdx) and
+ * plain Word documents. Imports become Fountain text in the script box, so the
+ * writer can keep editing; analysis parses that text again into scene
+ * headings, action, character cues and dialogue. Chinese "名字：台词" lines
+ * count as dialogue too, and 内景/外景 lines as scene headings.
+ */
+
+export type ScreenplayElementType = 'heading' | 'action' | 'dialogue' | 'transition';
+
+export interface ScreenplayElement {
+  type: ScreenplayElementType;
+  text: string;
+  // Dialogue only: the speaker as cued, without extensions like (V.O.)
+  character?: string;
+  parenthetical?: string;
+}
+
+export interface Screenplay {
+  elements: ScreenplayElement[];
+  // Locations from the scene headings, in order of first appearance
+  sceneNames: string[];
+  // Speaking characters, in order of first appearance; narration excluded
+  characterNames: string[];
+}
+
+export const SCREENPLAY_FILE_ACCEPT = '.fountain,.spmd,.fdx,.docx,.txt';
+
+// --- Fountain ---
+
+const TITLE_PAGE_KEY = /^(title|credit|author|authors|source|draft date|date|contact|copyright|notes|revision)\s*:/i;
+const HEADING = /^(int\.?\s*\/\s*ext|ext\.?\s*\/\s*int|i\/e|int|ext|est)[.\s]/i;
+const CHINESE_HEADING = /^(内外景|内景|外景|场景\s*\d*\s*[：:])/;
+const TRANSITION = /^[A-Z\s]+TO:$/;
+const CHARACTER_EXTENSION = /\s*[（(][^）)]*[）)]\s*$/;
+const SCENE_NUMBER = /\s*#[^#]+#\s*$/;
+const LINE_SPEAKER = /^[^\d\s，,。.！!？?]{1,8}$/;
+
+const isBlank = (line?: string) => !line || !line.trim();
+
+// All capitals with at least one letter, e.g. "MARY (V.O.)"
+const isUpperCaseCue = (line: string) => /[A-Z]/.test(line) && !/[a-z]/.test(line.replace(CHARACTER_EXTENSION, ''));
+
+const stripCue = (line: string) => line.replace(/^@/, '').replace(/\s*\^$/, '').replace(CHARACTER_EXTENSION, '').trim();
+
+// Boneyard comments, notes and the title page carry nothing to shoot
+const stripFountainMarkup = (text: string) => {
+  let body = text.replace(/\r\n?/g, '\n').replace(/\/\*[\s\S]*?\*\//g, '').replace(/\[\[[\s\S]*?\]\]/g, '');
+  if (TITLE_PAGE_KEY.test(body.trimStart())) {
+    const end = body.search(/\n\s*\n/);
+    body = end < 0 ? '' : body.slice(end);
+  }
+  return body;
+};
+
+// Elements of a Fountain script, and the speakers named by a character cue
+const parseFountain = (text: string) => {
+  const lines = stripFountainMarkup(text).split('\n');
+  const elements: ScreenplayElement[] = [];
+  const cued = new Set<string>();
+  let action: string[] = [];
+  const flushAction = () => {
+    if (action.length) elements.push({ type: 'action', text: action.join('\n') });
+    action = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const afterBlank = isBlank(lines[i - 1]);
+    if (!line) {
+      flushAction();
+      continue;
+    }
+    // Sections, synopses and page breaks
+    if (/^(#|=)/.test(line)) continue;
+
+    if (line.startsWith('!')) {
+      action.push(line.slice(1));
+      continue;
+    }
+    if ((line.startsWith('.') && !line.startsWith('..')) || (afterBlank && (HEADING.test(line) || CHINESE_HEADING.test(line)))) {
+      flushAction();
+      elements.push({ type: 'heading', text: line.replace(/^\./, '').replace(SCENE_NUMBER, '').trim() });
+      continue;
+    }
+    if ((line.startsWith('>') && !line.endsWith('<')) || (afterBlank && isBlank(lines[i + 1]) && TRANSITION.test(line))) {
+      flushAction();
+      elements.push({ type: 'transition', text: line.replace(/^>/, '').trim() });
+      continue;
+    }
+    if (afterBlank && !isBlank(lines[i + 1]) && (line.startsWith('@') || isUpperCaseCue(line))) {
+      flushAction();
+      const character = stripCue(line);
+      const spoken: string[] = [];
+      let parenthetical: string | undefined;
+      while (!isBlank(lines[i + 1])) {
+        const next = lines[++i].trim();
+        if (/^[（(].*[）)]$/.test(next)) {
+          parenthetical = parenthetical || next.slice(1, -1).trim();
+        } else {
+          spoken.push(next);
+        }
+      }
+      elements.push({ type: 'dialogue', character, parenthetical, text: spoken.join('\n') });
+      cued.add(character.toLowerCase());
+      continue;
+    }
+
+    const labelled = parseDialogueLine(line);
+    if (labelled.speakerName && LINE_SPEAKER.test(labelled.speakerName)) {
+      flushAction();
+      elements.push({ type: 'dialogue', character: labelled.speakerName, parenthetical: labelled.direction, text: labelled.text });
+      continue;
+    }
+    // Centered text reads as action
+    action.push(line.replace(/^>\s*(.*?)\s*<$/, '$1'));
+  }
+  flushAction();
+  return { elements, cued };
+};
+
+/** Location named by a scene heading, e.g. "INT. 咖啡馆 - 日" → "咖啡馆". */
+export const getSceneName = (heading: string) => {
+  const name = heading
+    .replace(/^(int\.?\s*\/\s*ext|ext\.?\s*\/\s*int|i\/e|int|ext|est)[.\s]+/i, '')
+    .replace(/^(内外景|内景|外景)[\s.、，,：:·]*/, '')
+    .replace(/^场景\s*\d*\s*[：:]\s*/, '')
+    .replace(/\s+[-–—]+\s*[^-–—]*$/, '')
+    .replace(/[\s，,·]+(日|夜|晨|昏|黄昏|傍晚|清晨|早晨|深夜|白天|夜晚|日景|夜景)$/, '')
+    .trim();
+  return name || heading;
+};
+
+const unique = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Structured parse of `script`, or null when it reads as prose: without any
+ * scene heading or character cue there is nothing for analysis to rely on.
+ * A name only ever seen once before a colon ("时间：深夜") is not a character.
+ */
+export const parseScreenplay = (script: string): Screenplay | null => {
+  const { elements, cued } = parseFountain(script);
+  const headings = elements.filter(e => e.type === 'heading');
+  if (headings.length === 0 && cued.size === 0) return null;
+  const speakers = elements.filter(e => e.type === 'dialogue').map(e => e.character!);
+  const lineCount = (name: string) => speakers.filter(speaker => speaker.toLowerCase() === name.toLowerCase()).length;
+  const characterNames = unique(speakers).filter(name => !isNarratorName(name) && (cued.has(name.toLowerCase()) || lineCount(name) > 1));
+  const isSpeaker = (name: string) => isNarratorName(name) || characterNames.some(known => known.toLowerCase() === name.toLowerCase());
+  return {
+    // Lines like "时间：深夜" stay action, as written
+    elements: elements.map(e => e.type !== 'dialogue' || isSpeaker(e.character!) ? e : {
+      type: 'action',
+      text: `${e.character}${e.parenthetical ? `（${e.parenthetical}）` : ''}：${e.text}`
+    }),
+    sceneNames: unique(headings.map(e => getSceneName(e.text))),
+    characterNames
+  };
+};
+
+// Tags are binding for the breakdown, so only exact names resolve; 林 never stands in for 小林
+const isSameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const findSceneId = (heading: string, scenes: Scene[]) => {
+  const name = getSceneName(heading);
+  return scenes.find(s => isSameName(s.name, name))?.id;
+};
+
+const findSpeakerId = (character: string, characters: Character[]) =>
+  isNarratorName(character) ? NARRATOR_SPEAKER : characters.find(c => isSameName(c.name, character))?.id;
+
+const flatten = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+/**
+ * The screenplay as one tagged line per element for shot breakdown, with scene
+ * headings and dialogue already resolved to catalog ids, e.g.
+ * "[SCENE scene-0] INT. 咖啡馆 - 日" or "[DIALOGUE char-1] 林晚（低声）：你好".
+ * Untagged ids mean the name matched nothing in the catalog.
+ */
+export const describeScreenplay = (screenplay: Screenplay, characters: Character[], scenes: Scene[]): string =>
+  screenplay.elements.map(element => {
+    switch (element.type) {
+      case 'heading': {
+        const sceneId = findSceneId(element.text, scenes);
+        return `[SCENE${sceneId ? ` ${sceneId}` : ''}] ${element.text}`;
+      }
+      case 'dialogue': {
+        const speakerId = findSpeakerId(element.character!, characters);
+        const direction = element.parenthetical ? `（${element.parenthetical}）` : '';
+        return `[DIALOGUE${speakerId ? ` ${speakerId}` : ''}] ${element.character}${direction}：${flatten(element.text)}`;
+      }
+      case 'transition':
+        return `[TRANSITION] ${element.text}`;
+      default:
+        return `[ACTION] ${flatten(element.text)}`;
+    }
+  }).join('\n');
+
+// --- Final Draft ---
+
+const FDX_PARAGRAPH_TYPES: Record<string, (text: string) => string> = {
+  'Scene Heading': text => `\n.${text}`,
+  'Action': text => `\n${isUpperCaseCue(text) ? '!' : ''}${text}`,
+  'General': text => `\n${isUpperCaseCue(text) ? '!' : ''}${text}`,
+  'Shot': text => `\n!${text}`,
+  'Character': text => `\n@${text}`,
+  'Parenthetical': text => /^[（(]/.test(text) ? text : `(${text})`,
+  'Dialogue': text => text,
+  'Transition': text => `\n>${text}`
+};
+
+/** Fountain text for a Final Draft document; unknown paragraph types become action. */
+export const fdxToFountain = (xml: string): string => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error("Not a valid Final Draft file");
+  const content = doc.getElementsByTagName('Content')[0];
+  if (!content) throw new Error("The Final Draft file has no script content");
+  // Dual dialogue nests its paragraphs inside an outer one
+  const paragraphs = Array.from(content.getElementsByTagName('Paragraph')).filter(p => !p.getElementsByTagName('Paragraph').length);
+  const lines = paragraphs.map(paragraph => {
+    const text = Array.from(paragraph.getElementsByTagName('Text')).map(run => run.textContent || '').join('').trim();
+    if (!text) return '';
+    const format = FDX_PARAGRAPH_TYPES[paragraph.getAttribute('Type') || ''] || FDX_PARAGRAPH_TYPES['Action'];
+    return format(text);
+  }).filter(Boolean);
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+};
+
+// --- Word ---
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/** Paragraph text of a .docx, one line per paragraph. */
+export const docxToText = async (data: Blob): Promise<string> => {
+  const zip = await JSZip.loadAsync(data);
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) throw new Error("Not a Word document");
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  return Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p')).map(paragraph => {
+    let text = '';
+    paragraph.querySelectorAll('*').forEach(node => {
+      if (node.namespaceURI !== WORD_NS) return;
+      if (node.localName === 't') text += node.textContent || '';
+      else if (node.localName === 'tab') text += '\t';
+      else if (node.localName === 'br') text += '\n';
+    });
+    return text;
+  }).join('\n').trim() + '\n';
+};
+
+/** Script text for an imported file, as Fountain where the format allows. */
+export const importScreenplayFile = async (file: File): Promise<string> => {
+  if (/\.fdx$/i.test(file.name)) return fdxToFountain(await file.text());
+  if (/\.docx$/i.test(file.name)) return docxToText(file);
+  return (await file.text()).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+};
@@ -0,0 +1,118 @@
+import { Shot } from "../types";
+import { getShotDuration } from "./timing";
+import { parseDialogueLine } from "./voiceCasting";
+
+/**
+ * Pure helpers for hand-editing the shot list (insert, split, merge).
+ * Array position is the shot number everywhere (export, player), so these
+ * only ever produce shots; callers splice them into place.
+ */
+
+export const createShotId = () => `shot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createBlankShot = (template?: Shot): Shot => ({
+  id: createShotId(),
+  sceneId: template?.sceneId,
+  originalScriptSegment: '',
+  visualAction: '',
+  cameraAngle: template?.cameraAngle || 'Medium Shot',
+  img2vidPrompt: '',
+  characterIds: template?.characterIds ? [...template.characterIds] : [],
+  isLoading: false,
+  isError: false
+});
+
+const SENTENCE_BREAKS = /[。！？!?.…；;]/;
+const CLAUSE_BREAKS = /[，,、：:]/;
+
+/**
+ * Split text in two at the sentence (or failing that, clause) boundary closest
+ * to the middle; falls back to the exact middle for unpunctuated text.
+ */
+export const splitText = (text: string): [string, string] => {
+  const trimmed = text.trim();
+  if (trimmed.length < 2) return [trimmed, ''];
+  const middle = trimmed.length / 2;
+  const closestBreak = (pattern: RegExp) => {
+    let best = -1;
+    for (let i = 0; i < trimmed.length - 1; i++) {
+      if (pattern.test(trimmed[i]) && (best === -1 || Math.abs(i + 1 - middle) < Math.abs(best - middle))) best = i + 1;
+    }
+    return best;
+  };
+  let at = closestBreak(SENTENCE_BREAKS);
+  if (at === -1) at = closestBreak(CLAUSE_BREAKS);
+  if (at === -1) at = Math.round(middle);
+  return [trimmed.slice(0, at).trim(), trimmed.slice(at).trim()];
+};
+
+// CJK ideographs/punctuation and full-width forms
+const isCJK = (ch: string) => {
+  const code = ch.charCodeAt(0);
+  return (code >= 0x3000 && code <= 0x9fff) || (code >= 0xff00 && code <= 0xffef);
+};
+
+// Join two fragments, adding a space only between non-CJK text.
+export const joinText = (a?: string, b?: string): string => {
+  const left = (a || '').trim();
+  const right = (b || '').trim();
+  if (!left || !right) return left || right;
+  const needsSpace = !isCJK(left[left.length - 1]) && !isCJK(right[0]);
+  return `${left}${needsSpace ? ' ' : ''}${right}`;
+};
+
+// Both halves of a labelled line keep the "林晚（低声）：" label, so each keeps its voice
+const splitDialogue = (dialogue: string): [string, string] => {
+  const line = parseDialogueLine(dialogue);
+  if (!line.speakerName) return splitText(dialogue);
+  const label = `${line.speakerName}${line.direction ? `（${line.direction}）` : ''}：`;
+  const [a, b] = splitText(line.text);
+  return [a && `${label}${a}`, b && `${label}${b}`];
+};
+
+// The first half keeps the generated media; the second needs a new image.
+// An explicit duration is shared between the halves; voice clip lengths no longer apply.
+// Ambience carries on into the second half; the sound effect stays on the first frame.
+export const splitShot = (shot: Shot): [Shot, Shot] => {
+  const [segmentA, segmentB] = splitText(shot.originalScriptSegment);
+  const [dialogueA, dialogueB] = splitDialogue(shot.dialogue || '');
+  const durationMs = shot.durationMs ? Math.round(shot.durationMs / 2) : undefined;
+  const first: Shot = { ...shot, originalScriptSegment: segmentA, dialogue: dialogueA || undefined, durationMs, audioDurationMs: undefined };
+  const second: Shot = {
+    ...shot,
+    id: createShotId(),
+    originalScriptSegment: segmentB,
+    dialogue: dialogueB || undefined,
+    durationMs,
+    audioDurationMs: undefined,
+    sfx: undefined,
+    // The transition belongs to the cut into the original shot, not the new one mid-way
+    transition: undefined,
+    characterIds: shot.characterIds ? [...shot.characterIds] : undefined,
+    imageUrl: undefined,
+    videoUrl: undefined,
+    videoJob: undefined,
+    isLoading: false,
+    isError: false
+  };
+  return [first, second];
+};
+
+// Merge `next` into `shot`, keeping the first shot's id, framing and media.
+export const mergeShots = (shot: Shot, next: Shot): Shot => {
+  const characterIds = shot.characterIds || next.characterIds
+    ? [...new Set([...(shot.characterIds || []), ...(next.characterIds || [])])]
+    : undefined;
+  return {
+    ...shot,
+    originalScriptSegment: joinText(shot.originalScriptSegment, next.originalScriptSegment),
+    dialogue: joinText(shot.dialogue, next.dialogue) || undefined,
+    visualAction: joinText(shot.visualAction, next.visualAction),
+    img2vidPrompt: joinText(shot.img2vidPrompt, next.img2vidPrompt),
+    characterIds,
+    durationMs: shot.durationMs || next.durationMs ? getShotDuration(shot) + getShotDuration(next) : undefined,
+    audioDurationMs: undefined,
+    ambience: shot.ambience || next.ambience,
+    sfx: shot.sfx || next.sfx
+  };
+};
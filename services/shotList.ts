@@ -0,0 +1,279 @@
+import JSZip from 'jszip';
+import { Character, Scene, Shot } from "../types";
+import { clampDuration, formatSeconds, getShotDuration } from "./timing";
+import { getShotCharacters } from "./geminiService";
+
+/**
+ * Production shot list as CSV or XLSX, and the way back: a sheet edited in
+ * Excel is read again and its changes applied to the matching shots. Columns
+ * are found by header, so they may be reordered; rows match shots by the ID
+ * column, or by shot number when it is missing.
+ */
+
+type ColumnKey = 'number' | 'scene' | 'characters' | 'cameraAngle' | 'visualAction' | 'dialogue' | 'img2vidPrompt' | 'duration' | 'image' | 'status' | 'id';
+
+const COLUMNS: { key: ColumnKey; header: string; width: number }[] = [
+  { key: 'number', header: '镜号', width: 6 },
+  { key: 'scene', header: '场景', width: 14 },
+  { key: 'characters', header: '角色', width: 14 },
+  { key: 'cameraAngle', header: '镜头', width: 14 },
+  { key: 'visualAction', header: '画面内容', width: 40 },
+  { key: 'dialogue', header: '对白', width: 30 },
+  { key: 'img2vidPrompt', header: '视频提示词', width: 40 },
+  { key: 'duration', header: '时长(秒)', width: 9 },
+  { key: 'image', header: '图片文件', width: 14 },
+  { key: 'status', header: '状态', width: 10 },
+  { key: 'id', header: 'ID', width: 24 }
+];
+
+// Numeric columns are written as numbers so Excel can sum and sort them
+const NUMERIC_COLUMNS: ColumnKey[] = ['number', 'duration'];
+
+const CHARACTER_SEPARATOR = '、';
+
+// Base name of a shot's files in the asset ZIP, e.g. "shot_03"
+export const getShotFileName = (index: number) => `shot_${String(index + 1).padStart(2, '0')}`;
+
+const getShotStatus = (shot: Shot): string => {
+  if (shot.isLoading) return '出图中';
+  if (shot.isError) return '出图失败';
+  if (shot.videoUrl) return '已出视频';
+  if (shot.videoJob?.status === 'failed') return '视频失败';
+  if (shot.videoJob) return '视频生成中';
+  if (shot.imageUrl) return '已出图';
+  return '待生成';
+};
+
+const getCell = (key: ColumnKey, shot: Shot, index: number, scenes: Scene[], characters: Character[]): string => {
+  switch (key) {
+    case 'number': return String(index + 1);
+    case 'scene': return scenes.find(s => s.id === shot.sceneId)?.name || '';
+    // Shots from before explicit links name their cast in the action and dialogue
+    case 'characters': return getShotCharacters(shot, characters).map(c => c.name).join(CHARACTER_SEPARATOR);
+    case 'cameraAngle': return shot.cameraAngle || '';
+    case 'visualAction': return shot.visualAction || '';
+    case 'dialogue': return shot.dialogue || '';
+    case 'img2vidPrompt': return shot.img2vidPrompt || '';
+    case 'duration': return formatSeconds(getShotDuration(shot));
+    case 'image': return shot.imageUrl ? `${getShotFileName(index)}.png` : '';
+    case 'status': return getShotStatus(shot);
+    case 'id': return shot.id;
+  }
+};
+
+// Header row followed by one row per shot
+const getShotListRows = (shots: Shot[], scenes: Scene[], characters: Character[]): string[][] => [
+  COLUMNS.map(c => c.header),
+  ...shots.map((shot, i) => COLUMNS.map(c => getCell(c.key, shot, i, scenes, characters)))
+];
+
+// --- CSV ---
+
+const escapeCsv = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** UTF-8 CSV with a BOM so Excel picks the right encoding for Chinese text. */
+export const toShotListCsv = (shots: Shot[], scenes: Scene[], characters: Character[]): string =>
+  '\uFEFF' + getShotListRows(shots, scenes, characters).map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// --- XLSX ---
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  // Control characters are not allowed in XML
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// 0 → "A", 26 → "AA"
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  return name;
+};
+
+const columnIndex = (name: string) => name.split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/** Single-sheet workbook with a bold, frozen header row and wrapped text. */
+export const toShotListXlsx = async (shots: Shot[], scenes: Scene[], characters: Character[]): Promise<Blob> => {
+  const rows = getShotListRows(shots, scenes, characters);
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      const style = r === 0 ? 1 : 2;
+      if (r > 0 && NUMERIC_COLUMNS.includes(COLUMNS[c].key) && value !== '') return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+      return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`);
+  zip.file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="镜头表" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`);
+  // Styles: 0 default, 1 bold header, 2 wrapped top-aligned body
+  zip.file('xl/styles.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment wrapText="1" vertical="top"/></xf></cellXfs></styleSheet>`);
+  zip.file('xl/worksheets/sheet1.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><cols>${COLUMNS.map((c, i) => `<col min="${i + 1}" max="${i + 1}" width="${c.width}" customWidth="1"/>`).join('')}</cols><sheetData>${sheetRows.join('')}</sheetData></worksheet>`);
+  return zip.generateAsync({ type: 'blob', mimeType: XLSX_MIME });
+};
+
+// All text of an element, joining rich-text runs
+const textOf = (element: Element) => Array.from(element.getElementsByTagNameNS('*', 't')).map(t => t.textContent || '').join('');
+
+const parseXlsx = async (file: Blob): Promise<string[][]> => {
+  const zip = await JSZip.loadAsync(file);
+  const parser = new DOMParser();
+  const readXml = async (path: string) => {
+    const text = await zip.file(path)?.async('string');
+    return text ? parser.parseFromString(text, 'application/xml') : null;
+  };
+
+  const sharedStrings = await readXml('xl/sharedStrings.xml');
+  const strings = sharedStrings ? Array.from(sharedStrings.getElementsByTagNameNS('*', 'si')).map(textOf) : [];
+  // The first worksheet; Excel keeps the name when re-saving
+  const sheetPath = zip.file('xl/worksheets/sheet1.xml') ? 'xl/worksheets/sheet1.xml' : Object.keys(zip.files).find(p => /^xl\/worksheets\/[^/]+\.xml$/.test(p));
+  const sheet = sheetPath ? await readXml(sheetPath) : null;
+  if (!sheet) throw new Error("No worksheet found");
+
+  return Array.from(sheet.getElementsByTagNameNS('*', 'row')).map(row => {
+    const values: string[] = [];
+    Array.from(row.getElementsByTagNameNS('*', 'c')).forEach((cell, i) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref.replace(/\d+$/, '')) : i;
+      const type = cell.getAttribute('t');
+      const raw = cell.getElementsByTagNameNS('*', 'v')[0]?.textContent || '';
+      values[index] = type === 's' ? strings[Number(raw)] || ''
+        : type === 'inlineStr' ? textOf(cell)
+        : raw;
+    });
+    return Array.from(values, v => v || '');
+  });
+};
+
+/** Rows of a CSV or XLSX shot list, picked by file extension. */
+export const readShotListFile = async (file: File): Promise<string[][]> =>
+  /\.xlsx$/i.test(file.name) ? parseXlsx(file) : parseCsv(await file.text());
+
+// --- Import ---
+
+export interface ShotListImport {
+  // Changed fields per shot id
+  updates: Record<string, Partial<Shot>>;
+  // Rows that matched no shot
+  skipped: number;
+}
+
+const splitNames = (value: string) => value.split(/[、,，;；/]/).map(name => name.trim()).filter(Boolean);
+
+const sameIds = (a: string[] = [], b: string[] = []) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/**
+ * Changes a sheet makes to `shots`. Only fields that differ are returned;
+ * unknown scene or character names are ignored, and a duration that still reads
+ * as the shot's current one leaves an estimated duration estimated. Image file
+ * and status columns are informational.
+ */
+export const applyShotList = (rows: string[][], shots: Shot[], scenes: Scene[], characters: Character[]): ShotListImport => {
+  const [header, ...body] = rows;
+  if (!header) throw new Error("The sheet is empty");
+  const positions = new Map<ColumnKey, number>();
+  COLUMNS.forEach(({ key, header: title }) => {
+    const index = header.findIndex(cell => cell.trim() === title);
+    if (index >= 0) positions.set(key, index);
+  });
+  if (!positions.has('id') && !positions.has('number')) throw new Error("The sheet needs an ID or 镜号 column");
+
+  const updates: Record<string, Partial<Shot>> = {};
+  let skipped = 0;
+  body.forEach(row => {
+    if (row.every(cell => !cell.trim())) return;
+    const read = (key: ColumnKey) => positions.has(key) ? (row[positions.get(key)!] ?? '').trim() : undefined;
+
+    const id = read('id');
+    const number = Number(read('number'));
+    const shot = (id && shots.find(s => s.id === id)) || (Number.isInteger(number) ? shots[number - 1] : undefined);
+    if (!shot) {
+      skipped++;
+      return;
+    }
+
+    const changes: Partial<Shot> = {};
+    (['cameraAngle', 'visualAction', 'img2vidPrompt'] as const).forEach(key => {
+      const value = read(key);
+      if (value !== undefined && value !== (shot[key] || '')) changes[key] = value;
+    });
+    const dialogue = read('dialogue');
+    if (dialogue !== undefined && dialogue !== (shot.dialogue || '')) changes.dialogue = dialogue || undefined;
+
+    const sceneName = read('scene');
+    if (sceneName !== undefined) {
+      const sceneId = sceneName ? scenes.find(s => s.name === sceneName)?.id : undefined;
+      if ((sceneId || !sceneName) && sceneId !== shot.sceneId) changes.sceneId = sceneId;
+    }
+
+    const characterNames = read('characters');
+    if (characterNames !== undefined) {
+      const characterIds = splitNames(characterNames)
+        .map(name => characters.find(c => c.name === name)?.id)
+        .filter((id): id is string => !!id);
+      if (!sameIds(characterIds, getShotCharacters(shot, characters).map(c => c.id))) changes.characterIds = characterIds;
+    }
+
+    const duration = read('duration');
+    if (duration !== undefined) {
+      const seconds = parseFloat(duration);
+      // A cleared cell goes back to the estimate
+      if (!duration) {
+        if (shot.durationMs !== undefined) changes.durationMs = undefined;
+      } else if (Number.isFinite(seconds) && formatSeconds(seconds * 1000) !== formatSeconds(getShotDuration(shot))) {
+        changes.durationMs = clampDuration(seconds * 1000);
+      }
+    }
+
+    if (Object.keys(changes).length) updates[shot.id] = changes;
+  });
+  return { updates, skipped };
+};
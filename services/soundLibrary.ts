@@ -0,0 +1,60 @@
+import { SoundAsset, SoundCue, SoundTrack } from "../types";
+import { putMedia } from "./projectStore";
+import { loadAudioBuffer } from "./dialogueAudio";
+
+/**
+ * Local sound library: music, ambience and effect files imported once and
+ * reused across projects, and matching of cue descriptions (keywords such as
+ * "雨夜 街道") against their names and tags.
+ */
+
+export const TRACK_OPTIONS: { value: SoundTrack; label: string }[] = [
+  { value: 'bgm', label: '配乐' },
+  { value: 'ambience', label: '环境音' },
+  { value: 'sfx', label: '音效' }
+];
+
+const createSoundId = () => `sound-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Keywords in a file name or description: "rain_night-city 01" → rain, night, city
+export const toKeywords = (text: string): string[] =>
+  text.toLowerCase().split(/[\s_\-.,，、。;；/|()（）[\]【】]+/).filter(word => word && !/^\d+$/.test(word));
+
+export const importSoundFile = async (file: File, track: SoundTrack): Promise<SoundAsset> => {
+  if (file.type && !file.type.startsWith('audio/')) throw new Error(`不是音频文件：${file.name}`);
+  const url = await putMedia(file);
+  const buffer = await loadAudioBuffer(url);
+  const name = file.name.replace(/\.[^.]+$/, '');
+  return { id: createSoundId(), name, track, url, durationMs: Math.round(buffer.duration * 1000), tags: toKeywords(name), importedAt: Date.now() };
+};
+
+// Characters of the description's keywords found in the sound's name or tags (or the other way round).
+export const matchScore = (description: string, sound: SoundAsset): number => {
+  const labels = [sound.name.toLowerCase(), ...sound.tags.map(tag => tag.toLowerCase())];
+  return toKeywords(description)
+    .filter(word => labels.some(label => label.includes(word) || word.includes(label)))
+    .reduce((score, word) => score + word.length, 0);
+};
+
+// Best-matching library sound on the track, if any keyword hits.
+export const matchSound = (description: string, track: SoundTrack, library: SoundAsset[]): SoundAsset | undefined => {
+  let best: SoundAsset | undefined;
+  let bestScore = 0;
+  library.filter(sound => sound.track === track).forEach(sound => {
+    const score = matchScore(description, sound);
+    if (score > bestScore) {
+      best = sound;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// Point a cue at a library sound, or clear its file when `sound` is undefined.
+export const assignSound = (cue: SoundCue, sound?: SoundAsset): SoundCue => sound
+  ? { ...cue, assetId: sound.id, url: sound.url, name: sound.name, durationMs: sound.durationMs }
+  : { description: cue.description, volume: cue.volume };
+
+// A cue for the description, with the best library match already picked.
+export const suggestCue = (description: string, track: SoundTrack, library: SoundAsset[]): SoundCue =>
+  assignSound({ description }, matchSound(description, track, library));
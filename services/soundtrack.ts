@@ -0,0 +1,230 @@
+import { AudioMix, Scene, Shot, SoundCue, SoundTrack } from "../types";
+import { getShotOffsets } from "./timing";
+import { hasCurrentAudio, loadAudioBuffer } from "./dialogueAudio";
+import { VoiceCast } from "./voiceCasting";
+
+/**
+ * The mixed soundtrack shared by the preview player and the export: dialogue
+ * clips, scene music, shot ambience and effects laid out on the timeline, each
+ * on its own level, with music and ambience ducked while someone speaks.
+ */
+
+export type MixTrack = 'dialogue' | SoundTrack;
+
+export const MIX_TRACKS: { value: MixTrack; label: string }[] = [
+  { value: 'dialogue', label: '对白' },
+  { value: 'bgm', label: '配乐' },
+  { value: 'ambience', label: '环境音' },
+  { value: 'sfx', label: '音效' }
+];
+
+export const DEFAULT_AUDIO_MIX: AudioMix = { dialogue: 1, bgm: 0.5, ambience: 0.6, sfx: 0.8, ducking: 0.3 };
+
+const DUCKED_TRACKS: MixTrack[] = ['bgm', 'ambience'];
+const DUCK_ATTACK = 200;
+const DUCK_RELEASE = 600;
+const BGM_FADE = 1500;
+const AMBIENCE_FADE = 400;
+
+export interface SoundtrackClip {
+  track: MixTrack;
+  // Stored audio ref
+  url: string;
+  // Timeline span; looping clips repeat to fill it, the others stop at its end or their own
+  startMs: number;
+  endMs: number;
+  loop: boolean;
+  volume: number;
+  // Fade in and out at the span's edges
+  fadeMs: number;
+}
+
+export interface Soundtrack {
+  clips: SoundtrackClip[];
+  // Timeline spans where a voice clip is playing
+  speech: [number, number][];
+}
+
+interface CueRun {
+  cue: SoundCue;
+  startMs: number;
+  endMs: number;
+}
+
+// Consecutive shots carrying the same file become one run, so the sound plays on across the cut.
+const mergeRuns = (shots: Shot[], offsets: number[], getCue: (shot: Shot) => SoundCue | undefined): CueRun[] => {
+  const runs: CueRun[] = [];
+  shots.forEach((shot, i) => {
+    const cue = getCue(shot);
+    if (!cue?.url) return;
+    const last = runs[runs.length - 1];
+    if (last && last.endMs === offsets[i] && last.cue.url === cue.url) last.endMs = offsets[i + 1];
+    else runs.push({ cue, startMs: offsets[i], endMs: offsets[i + 1] });
+  });
+  return runs;
+};
+
+export const buildSoundtrack = (shots: Shot[], scenes: Scene[], cast: VoiceCast): Soundtrack => {
+  const offsets = getShotOffsets(shots);
+  const totalMs = offsets[shots.length];
+  const clips: SoundtrackClip[] = [];
+  const speech: [number, number][] = [];
+
+  shots.forEach((shot, i) => {
+    // Each line starts on its shot's cut and is cut off by the next one
+    if (hasCurrentAudio(shot, cast)) {
+      clips.push({ track: 'dialogue', url: shot.audioUrl!, startMs: offsets[i], endMs: offsets[i + 1], loop: false, volume: 1, fadeMs: 0 });
+      speech.push([offsets[i], Math.min(offsets[i + 1], offsets[i] + (shot.audioDurationMs || Infinity))]);
+    }
+    // Effects ring out past the cut
+    if (shot.sfx?.url) {
+      const endMs = Math.min(totalMs, offsets[i] + (shot.sfx.durationMs || offsets[i + 1] - offsets[i]));
+      clips.push({ track: 'sfx', url: shot.sfx.url, startMs: offsets[i], endMs, loop: false, volume: shot.sfx.volume ?? 1, fadeMs: 0 });
+    }
+  });
+
+  const sceneMusic = (shot: Shot) => scenes.find(scene => scene.id === shot.sceneId)?.bgm;
+  mergeRuns(shots, offsets, sceneMusic).forEach(({ cue, startMs, endMs }) =>
+    clips.push({ track: 'bgm', url: cue.url!, startMs, endMs, loop: true, volume: cue.volume ?? 1, fadeMs: BGM_FADE }));
+  mergeRuns(shots, offsets, shot => shot.ambience).forEach(({ cue, startMs, endMs }) =>
+    clips.push({ track: 'ambience', url: cue.url!, startMs, endMs, loop: true, volume: cue.volume ?? 1, fadeMs: AMBIENCE_FADE }));
+
+  return { clips, speech };
+};
+
+// Decoded audio for every clip; a file that fails to load is left out rather than silencing the rest.
+export const loadSoundtrackBuffers = async (soundtrack: Soundtrack): Promise<Map<string, AudioBuffer>> => {
+  const buffers = new Map<string, AudioBuffer>();
+  await Promise.all([...new Set(soundtrack.clips.map(clip => clip.url))].map(async url => {
+    try {
+      buffers.set(url, await loadAudioBuffer(url));
+    } catch (e) {
+      console.warn(`Soundtrack: failed to load ${url}`, e);
+    }
+  }));
+  return buffers;
+};
+
+type Envelope = [number, number][];
+
+// Gain breakpoints (timeline ms, gain) for ducked tracks: 1, dipping to `level` around each speech span.
+export const getDuckingEnvelope = (speech: [number, number][], level: number): Envelope => {
+  const spans: [number, number][] = [];
+  [...speech].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    const last = spans[spans.length - 1];
+    // Stay down through short pauses between lines
+    if (last && start - last[1] < DUCK_ATTACK + DUCK_RELEASE) last[1] = Math.max(last[1], end);
+    else spans.push([start, end]);
+  });
+  const points: Envelope = [[0, 1]];
+  spans.forEach(([start, end]) => points.push([Math.max(0, start - DUCK_ATTACK), 1], [start, level], [end, level], [end + DUCK_RELEASE, 1]));
+  return points;
+};
+
+const envelopeAt = (points: Envelope, ms: number): number => {
+  let i = 0;
+  while (i < points.length - 1 && points[i + 1][0] <= ms) i++;
+  const [t0, v0] = points[i];
+  const next = points[i + 1];
+  if (!next || next[0] === t0) return v0;
+  return v0 + (next[1] - v0) * (ms - t0) / (next[0] - t0);
+};
+
+// Automate `param` along the envelope from timeline position `fromMs`, which plays at context time `at(fromMs)`.
+const scheduleEnvelope = (param: AudioParam, points: Envelope, fromMs: number, at: (ms: number) => number) => {
+  param.setValueAtTime(envelopeAt(points, fromMs), at(fromMs));
+  points.filter(([ms]) => ms > fromMs).forEach(([ms, value]) => param.linearRampToValueAtTime(value, at(ms)));
+};
+
+export interface SoundtrackPlayer {
+  // Apply new levels without restarting playback
+  setMix: (mix: AudioMix) => void;
+  stop: () => void;
+}
+
+/**
+ * Play the soundtrack into `destination` from timeline position `fromMs`, starting
+ * now. Works on realtime and offline contexts alike.
+ */
+export const startSoundtrack = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  soundtrack: Soundtrack,
+  buffers: Map<string, AudioBuffer>,
+  mix: AudioMix,
+  fromMs = 0
+): SoundtrackPlayer => {
+  const startTime = ctx.currentTime;
+  const at = (ms: number) => startTime + Math.max(0, ms - fromMs) / 1000;
+  const playheadMs = () => fromMs + (ctx.currentTime - startTime) * 1000;
+
+  const levels = {} as Record<MixTrack, GainNode>;
+  MIX_TRACKS.forEach(({ value }) => {
+    const gain = ctx.createGain();
+    gain.gain.value = mix[value];
+    gain.connect(destination);
+    levels[value] = gain;
+  });
+
+  // Music and ambience pass through a ducker ahead of their level
+  const duckers = new Map<MixTrack, GainNode>();
+  const scheduleDucking = (level: number, from: number) => {
+    const envelope = getDuckingEnvelope(soundtrack.speech, level);
+    duckers.forEach(ducker => {
+      ducker.gain.cancelScheduledValues(ctx.currentTime);
+      scheduleEnvelope(ducker.gain, envelope, from, at);
+    });
+  };
+  DUCKED_TRACKS.forEach(track => {
+    const ducker = ctx.createGain();
+    ducker.connect(levels[track]);
+    duckers.set(track, ducker);
+  });
+  scheduleDucking(mix.ducking, fromMs);
+
+  const sources: AudioBufferSourceNode[] = [];
+  soundtrack.clips.forEach(clip => {
+    const buffer = buffers.get(clip.url);
+    if (!buffer || clip.endMs <= fromMs) return;
+    const into = Math.max(0, fromMs - clip.startMs) / 1000;
+    if (!clip.loop && into >= buffer.duration) return;
+
+    const gain = ctx.createGain();
+    const fade = Math.min(clip.fadeMs, (clip.endMs - clip.startMs) / 2);
+    const fadeEnvelope: Envelope = fade > 0
+      ? [[clip.startMs, 0], [clip.startMs + fade, clip.volume], [clip.endMs - fade, clip.volume], [clip.endMs, 0]]
+      : [[clip.startMs, clip.volume]];
+    scheduleEnvelope(gain.gain, fadeEnvelope, Math.max(fromMs, clip.startMs), at);
+    gain.connect(duckers.get(clip.track) || levels[clip.track]);
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = clip.loop;
+    source.connect(gain);
+    source.start(at(clip.startMs), clip.loop ? into % buffer.duration : into);
+    source.stop(at(clip.endMs));
+    sources.push(source);
+  });
+
+  let ducking = mix.ducking;
+  return {
+    setMix: (next) => {
+      MIX_TRACKS.forEach(({ value }) => levels[value].gain.setValueAtTime(next[value], ctx.currentTime));
+      if (next.ducking !== ducking) {
+        ducking = next.ducking;
+        scheduleDucking(ducking, playheadMs());
+      }
+    },
+    stop: () => {
+      sources.forEach(source => {
+        try {
+          source.stop();
+        } catch {
+          // Not started yet or already stopped
+        }
+        source.disconnect();
+      });
+      Object.values(levels).forEach(gain => gain.disconnect());
+    }
+  };
+};
@@ -0,0 +1,342 @@
+import { AspectRatio, Character, Genre, Scene, Shot, VisualStyle } from "../types";
+import { resolveMediaUrl } from "./projectStore";
+import { getShotDuration, getTotalDuration, formatRuntime, formatSeconds } from "./timing";
+import { getExportSize } from "./frameRenderer";
+import { PdfPage, createPdf } from "./pdfWriter";
+
+/**
+ * Printable storyboard: A4 sheets with a panel grid per page (shot number,
+ * thumbnail, camera angle, action, dialogue, duration), a project header and
+ * page numbers, optionally preceded by character and scene reference pages.
+ * Pages are drawn on canvas and packed into a PDF as images.
+ */
+
+export type PdfGrid = '2x2' | '2x3' | '3x4' | '3x2' | '4x3';
+
+export const PDF_GRID_OPTIONS: { value: PdfGrid; label: string; columns: number; rows: number }[] = [
+  { value: '2x2', label: '2 × 2 (纵向)', columns: 2, rows: 2 },
+  { value: '2x3', label: '2 × 3 (纵向)', columns: 2, rows: 3 },
+  { value: '3x4', label: '3 × 4 (纵向)', columns: 3, rows: 4 },
+  { value: '3x2', label: '3 × 2 (横向)', columns: 3, rows: 2 },
+  { value: '4x3', label: '4 × 3 (横向)', columns: 4, rows: 3 }
+];
+
+export interface StoryboardPdfOptions {
+  grid: PdfGrid;
+  // Character and scene sheets before the shots
+  includeReferences: boolean;
+}
+
+export const DEFAULT_PDF_OPTIONS: StoryboardPdfOptions = { grid: '2x3', includeReferences: true };
+
+export interface StoryboardPdfProject {
+  title: string;
+  genre: Genre;
+  style: VisualStyle;
+  aspectRatio: AspectRatio;
+  characters: Character[];
+  scenes: Scene[];
+  shots: Shot[];
+}
+
+// A4 in points
+const A4_SHORT = 595;
+const A4_LONG = 842;
+// Canvas pixels per point (~144 dpi)
+const RENDER_SCALE = 2;
+const JPEG_QUALITY = 0.88;
+
+// Page layout in points
+const MARGIN = 32;
+const HEADER_HEIGHT = 46;
+const FOOTER_HEIGHT = 22;
+const GUTTER = 12;
+
+const FONT_FAMILY = '"Noto Sans SC", sans-serif';
+const INK = '#111111';
+const MUTED = '#666666';
+const RULE = '#cccccc';
+
+const font = (size: number, bold = false) => `${bold ? 'bold ' : ''}${size}px ${FONT_FAMILY}`;
+
+// Lines of `text` that fit `maxWidth`, broken per character; the last kept line ends in an ellipsis when cut short.
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const ch of paragraph) {
+      if (line && ctx.measureText(line + ch).width > maxWidth) {
+        lines.push(line);
+        line = ch.trim() ? ch : '';
+      } else {
+        line += ch;
+      }
+    }
+    lines.push(line);
+  }
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last && ctx.measureText(last + '…').width > maxWidth) last = last.slice(0, -1);
+  kept[maxLines - 1] = last + '…';
+  return kept;
+};
+
+const drawLines = (ctx: CanvasRenderingContext2D, lines: string[], x: number, y: number, lineHeight: number) => {
+  lines.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+  return y + lines.length * lineHeight;
+};
+
+const loadImage = async (url?: string): Promise<HTMLImageElement | null> => {
+  if (!url) return null;
+  const src = await resolveMediaUrl(url).catch(() => '');
+  if (!src) return null;
+  return new Promise(resolve => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = src;
+  });
+};
+
+// Image scaled to cover the box, or a grey placeholder when missing
+const drawThumbnail = (ctx: CanvasRenderingContext2D, image: HTMLImageElement | null, x: number, y: number, width: number, height: number) => {
+  ctx.save();
+  ctx.fillStyle = '#e5e5e5';
+  ctx.fillRect(x, y, width, height);
+  if (image) {
+    const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+    const sw = width / scale;
+    const sh = height / scale;
+    ctx.drawImage(image, (image.naturalWidth - sw) / 2, (image.naturalHeight - sh) / 2, sw, sh, x, y, width, height);
+  } else {
+    ctx.fillStyle = '#999999';
+    ctx.font = font(9);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('无画面', x + width / 2, y + height / 2);
+  }
+  ctx.strokeStyle = RULE;
+  ctx.lineWidth = 0.5;
+  ctx.strokeRect(x, y, width, height);
+  ctx.restore();
+};
+
+interface PageFrame {
+  width: number;
+  height: number;
+  // Content box below the header and above the footer
+  top: number;
+  bottom: number;
+}
+
+const drawPageFrame = (ctx: CanvasRenderingContext2D, project: StoryboardPdfProject, heading: string, pageNumber: number, pageCount: number, page: PageFrame) => {
+  const { width, height } = page;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.textBaseline = 'alphabetic';
+  ctx.textAlign = 'left';
+
+  ctx.fillStyle = INK;
+  ctx.font = font(15, true);
+  ctx.fillText(project.title, MARGIN, MARGIN + 12);
+  ctx.textAlign = 'right';
+  ctx.font = font(10, true);
+  ctx.fillText(heading, width - MARGIN, MARGIN + 12);
+
+  ctx.textAlign = 'left';
+  ctx.fillStyle = MUTED;
+  ctx.font = font(8);
+  const meta = [
+    project.genre,
+    project.style,
+    project.aspectRatio,
+    `${project.shots.length} 个镜头 · ${formatRuntime(getTotalDuration(project.shots))}`,
+    new Date().toLocaleDateString('zh-CN')
+  ].join('  ·  ');
+  ctx.fillText(meta, MARGIN, MARGIN + 28, width - MARGIN * 2);
+
+  ctx.strokeStyle = RULE;
+  ctx.lineWidth = 0.75;
+  ctx.beginPath();
+  ctx.moveTo(MARGIN, MARGIN + HEADER_HEIGHT - 8);
+  ctx.lineTo(width - MARGIN, MARGIN + HEADER_HEIGHT - 8);
+  ctx.stroke();
+
+  ctx.textAlign = 'center';
+  ctx.font = font(8);
+  ctx.fillText(`第 ${pageNumber} / ${pageCount} 页`, width / 2, height - MARGIN + 8);
+};
+
+// Card layout shared by shot panels and reference sheets: image on top, text below.
+interface Cell {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const getCells = (page: PageFrame, columns: number, rows: number): Cell[] => {
+  const cellWidth = (page.width - MARGIN * 2 - GUTTER * (columns - 1)) / columns;
+  const cellHeight = (page.bottom - page.top - GUTTER * (rows - 1)) / rows;
+  const cells: Cell[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      cells.push({ x: MARGIN + column * (cellWidth + GUTTER), y: page.top + row * (cellHeight + GUTTER), width: cellWidth, height: cellHeight });
+    }
+  }
+  return cells;
+};
+
+// Image box at `aspect` (width / height) that leaves at least `textShare` of the cell for text
+const getImageBox = (cell: Cell, aspect: number, textShare: number) => {
+  const height = Math.min(cell.width / aspect, cell.height * (1 - textShare));
+  const width = height * aspect;
+  return { x: cell.x + (cell.width - width) / 2, y: cell.y, width, height };
+};
+
+const drawShotPanel = (ctx: CanvasRenderingContext2D, shot: Shot, index: number, image: HTMLImageElement | null, cell: Cell, aspect: number) => {
+  const box = getImageBox(cell, aspect, 0.35);
+  drawThumbnail(ctx, image, box.x, box.y, box.width, box.height);
+
+  const fontSize = Math.max(7, Math.min(9, cell.width / 28));
+  const lineHeight = fontSize * 1.4;
+  let y = box.y + box.height + fontSize + 4;
+  const maxLines = (cell.y + cell.height - y) / lineHeight;
+
+  ctx.textAlign = 'left';
+  ctx.fillStyle = INK;
+  ctx.font = font(fontSize + 1, true);
+  const number = `#${String(index + 1).padStart(2, '0')}`;
+  ctx.fillText(number, cell.x, y);
+  const numberWidth = ctx.measureText(number).width + 6;
+  ctx.textAlign = 'right';
+  ctx.fillStyle = MUTED;
+  ctx.font = font(fontSize);
+  const duration = `${formatSeconds(getShotDuration(shot))}s`;
+  ctx.fillText(duration, cell.x + cell.width, y);
+  const durationWidth = ctx.measureText(duration).width + 6;
+  ctx.textAlign = 'left';
+  ctx.fillText(wrapLines(ctx, shot.cameraAngle || '', cell.width - numberWidth - durationWidth, 1)[0], cell.x + numberWidth, y);
+  y += lineHeight;
+
+  const dialogue = (shot.dialogue || '').trim();
+  const dialogueLines = dialogue ? Math.min(2, Math.max(1, Math.floor(maxLines / 3))) : 0;
+  const actionLines = Math.max(1, Math.floor(maxLines) - 1 - dialogueLines);
+  ctx.fillStyle = INK;
+  y = drawLines(ctx, wrapLines(ctx, shot.visualAction || '', cell.width, actionLines), cell.x, y, lineHeight);
+  if (dialogue) {
+    ctx.fillStyle = '#1d4ed8';
+    ctx.font = font(fontSize, true);
+    drawLines(ctx, wrapLines(ctx, `“${dialogue}”`, cell.width, dialogueLines), cell.x, y, lineHeight);
+  }
+};
+
+const drawReferenceCard = (ctx: CanvasRenderingContext2D, name: string, description: string, image: HTMLImageElement | null, cell: Cell, aspect: number) => {
+  const box = getImageBox(cell, aspect, 0.25);
+  drawThumbnail(ctx, image, box.x, box.y, box.width, box.height);
+  const lineHeight = 12;
+  let y = box.y + box.height + 14;
+  ctx.textAlign = 'left';
+  ctx.fillStyle = INK;
+  ctx.font = font(10, true);
+  ctx.fillText(name, cell.x, y, cell.width);
+  y += lineHeight + 2;
+  ctx.fillStyle = MUTED;
+  ctx.font = font(8);
+  drawLines(ctx, wrapLines(ctx, description, cell.width, Math.max(1, Math.floor((cell.y + cell.height - y) / lineHeight) + 1)), cell.x, y, lineHeight);
+};
+
+interface PlannedPage {
+  heading: string;
+  draw: (ctx: CanvasRenderingContext2D, page: PageFrame) => Promise<void>;
+}
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Uint8Array> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (!blob) return reject(new Error("Failed to encode page"));
+    blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+  }, 'image/jpeg', JPEG_QUALITY);
+});
+
+/**
+ * Lay out and render the storyboard PDF. The panel grid sets the orientation of
+ * every page; `onProgress` gets (done, total) pages.
+ */
+export const buildStoryboardPdf = async (
+  project: StoryboardPdfProject,
+  options: StoryboardPdfOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const grid = PDF_GRID_OPTIONS.find(o => o.value === options.grid) || PDF_GRID_OPTIONS[0];
+  const orientation = grid.columns > grid.rows ? 'landscape' : 'portrait';
+  const { width: frameWidth, height: frameHeight } = getExportSize(project.aspectRatio);
+  const shotAspect = frameWidth / frameHeight;
+  const planned: PlannedPage[] = [];
+
+  if (options.includeReferences) {
+    const referenceColumns = orientation === 'portrait' ? 3 : 4;
+    const characters = project.characters;
+    chunk(characters, referenceColumns * 2).forEach(group => planned.push({
+      heading: '角色设定',
+      draw: async (ctx, page) => {
+        const cells = getCells(page, referenceColumns, 2);
+        const images = await Promise.all(group.map(c => loadImage(c.imageUrl || c.modelSheet?.front)));
+        group.forEach((c, i) => drawReferenceCard(ctx, c.name, c.description_zh, images[i], cells[i], 3 / 4));
+      }
+    }));
+    const sceneColumns = orientation === 'portrait' ? 2 : 3;
+    chunk(project.scenes, sceneColumns * 3).forEach(group => planned.push({
+      heading: '场景设定',
+      draw: async (ctx, page) => {
+        const cells = getCells(page, sceneColumns, 3);
+        const images = await Promise.all(group.map(s => loadImage(s.imageUrl)));
+        group.forEach((s, i) => drawReferenceCard(ctx, s.name, s.description_zh, images[i], cells[i], 16 / 9));
+      }
+    }));
+  }
+
+  const perPage = grid.columns * grid.rows;
+  chunk(project.shots.map((shot, index) => ({ shot, index })), perPage).forEach(group => planned.push({
+    heading: `分镜 ${group[0].index + 1}–${group[group.length - 1].index + 1}`,
+    draw: async (ctx, page) => {
+      const cells = getCells(page, grid.columns, grid.rows);
+      const images = await Promise.all(group.map(({ shot }) => loadImage(shot.imageUrl)));
+      group.forEach(({ shot, index }, i) => drawShotPanel(ctx, shot, index, images[i], cells[i], shotAspect));
+    }
+  }));
+
+  if (planned.length === 0) throw new Error("Nothing to print");
+
+  const pageWidth = orientation === 'portrait' ? A4_SHORT : A4_LONG;
+  const pageHeight = orientation === 'portrait' ? A4_LONG : A4_SHORT;
+  const canvas = document.createElement('canvas');
+  canvas.width = pageWidth * RENDER_SCALE;
+  canvas.height = pageHeight * RENDER_SCALE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Failed to create canvas context");
+  const frame: PageFrame = {
+    width: pageWidth,
+    height: pageHeight,
+    top: MARGIN + HEADER_HEIGHT,
+    bottom: pageHeight - MARGIN - FOOTER_HEIGHT
+  };
+
+  const pages: PdfPage[] = [];
+  for (let i = 0; i < planned.length; i++) {
+    onProgress?.(i, planned.length);
+    ctx.setTransform(RENDER_SCALE, 0, 0, RENDER_SCALE, 0, 0);
+    drawPageFrame(ctx, project, planned[i].heading, i + 1, planned.length, frame);
+    await planned[i].draw(ctx, frame);
+    pages.push({ jpeg: await canvasToJpeg(canvas), width: canvas.width, height: canvas.height });
+  }
+  onProgress?.(planned.length, planned.length);
+  return createPdf(pages, pageWidth, pageHeight);
+};
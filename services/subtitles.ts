@@ -0,0 +1,120 @@
+import { Shot } from "../types";
+import { getShotOffsets } from "./timing";
+
+/**
+ * Caption files (SRT, WebVTT, ASS) from the shot dialogue and timings, plus the
+ * burned-in subtitle style they share with the export compositor. A shot's
+ * line is on screen from its cut to the next one, which is also when the
+ * burned-in text switches (mid-transition).
+ */
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export const SUBTITLE_FORMATS: { value: SubtitleFormat; label: string; mimeType: string }[] = [
+  { value: 'srt', label: 'SRT', mimeType: 'application/x-subrip' },
+  { value: 'vtt', label: 'WebVTT', mimeType: 'text/vtt' },
+  { value: 'ass', label: 'ASS (带样式)', mimeType: 'text/x-ssa' }
+];
+
+// Burned-in look; sizes are fractions of the frame so it scales with the export resolution
+export const SUBTITLE_STYLE = {
+  fontFamily: 'Noto Sans SC',
+  // Font size as a fraction of frame height
+  fontSize: 0.04,
+  // Stroke width in pixels; half of it shows outside the glyphs
+  outlineWidth: 3,
+  // Distance of the last line from the bottom edge, fraction of frame height
+  marginBottom: 0.08,
+  // Widest line, fraction of frame width
+  maxWidth: 0.85,
+  lineHeight: 1.35
+};
+
+export interface SubtitleCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export const getSubtitleCues = (shots: Shot[]): SubtitleCue[] => {
+  const offsets = getShotOffsets(shots);
+  return shots
+    .map((shot, i) => ({ startMs: offsets[i], endMs: offsets[i + 1], text: (shot.dialogue || '').trim() }))
+    .filter(cue => cue.text);
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// "HH:MM:SS" plus milliseconds after `separator`
+const formatTimestamp = (ms: number, separator: string) => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+// "H:MM:SS.cc", ASS keeps centiseconds
+const formatAssTimestamp = (ms: number) => {
+  const total = Math.max(0, Math.round(ms / 10));
+  const hours = Math.floor(total / 360000);
+  const minutes = Math.floor(total / 6000) % 60;
+  const seconds = Math.floor(total / 100) % 60;
+  return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(total % 100)}`;
+};
+
+// Blank lines would end the cue early in SRT and WebVTT
+const collapseLines = (text: string) => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).join('\n');
+
+export const toSrt = (cues: SubtitleCue[]): string =>
+  cues.map((cue, i) => `${i + 1}\n${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}\n${collapseLines(cue.text)}\n`).join('\n');
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toVtt = (cues: SubtitleCue[]): string =>
+  ['WEBVTT\n', ...cues.map(cue => `${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')} line:-1\n${escapeVtt(collapseLines(cue.text))}\n`)].join('\n');
+
+// Braces open override blocks in ASS, so they are swapped for parentheses
+const escapeAss = (text: string) => collapseLines(text).replace(/[{}]/g, ch => ch === '{' ? '(' : ')').replace(/\n/g, '\\N');
+
+// ASS colours are &HAABBGGRR
+const ASS_WHITE = '&H00FFFFFF';
+const ASS_BLACK = '&H00000000';
+
+/**
+ * Styled ASS script at the export resolution: bold, white, black outline, bottom
+ * centered with the burned-in margins, so players that render it match the video.
+ */
+export const toAss = (cues: SubtitleCue[], width: number, height: number, title = 'Manju'): string => {
+  const style = SUBTITLE_STYLE;
+  const fontSize = Math.floor(height * style.fontSize);
+  const sideMargin = Math.round(width * (1 - style.maxWidth) / 2);
+  const bottomMargin = Math.round(height * style.marginBottom);
+  return [
+    '[Script Info]',
+    `Title: ${title}`,
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Default,${style.fontFamily},${fontSize},${ASS_WHITE},${ASS_WHITE},${ASS_BLACK},${ASS_BLACK},-1,0,0,0,100,100,0,0,1,${style.outlineWidth / 2},0,2,${sideMargin},${sideMargin},${bottomMargin},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...cues.map(cue => `Dialogue: 0,${formatAssTimestamp(cue.startMs)},${formatAssTimestamp(cue.endMs)},Default,,0,0,0,,${escapeAss(cue.text)}`),
+    ''
+  ].join('\n');
+};
+
+export const buildSubtitleFile = (format: SubtitleFormat, shots: Shot[], width: number, height: number): string => {
+  const cues = getSubtitleCues(shots);
+  switch (format) {
+    case 'srt': return toSrt(cues);
+    case 'vtt': return toVtt(cues);
+    case 'ass': return toAss(cues, width, height);
+  }
+};
@@ -0,0 +1,297 @@
+import { Scene, Shot } from "../types";
+import { getShotOffsets } from "./timing";
+
+/**
+ * Editable timelines of the cut for NLEs: FCPXML (Final Cut, DaVinci), CMX3600
+ * EDL (Premiere, Avid, DaVinci) and OpenTimelineIO. One clip per shot at its
+ * screen time, dialogue as captions or markers and a marker where each scene
+ * starts. Media is referenced by file name next to the timeline, as packed in
+ * the asset ZIP. Transitions are left out: the editor re-cuts them with handles.
+ * A clip shorter than its shot is repeated back to back, as playback loops it.
+ */
+
+export type TimelineFormat = 'fcpxml' | 'edl' | 'otio';
+
+export const TIMELINE_FORMATS: { value: TimelineFormat; label: string; extension: string }[] = [
+  { value: 'fcpxml', label: 'Final Cut Pro XML', extension: 'fcpxml' },
+  { value: 'edl', label: 'CMX3600 EDL', extension: 'edl' },
+  { value: 'otio', label: 'OpenTimelineIO', extension: 'otio' }
+];
+
+// Editors' timelines run at a whole frame rate; matches the video export
+export const TIMELINE_FRAME_RATE = 30;
+
+export interface TimelineMedia {
+  // File name beside the timeline
+  path: string;
+  // Still image rather than a clip
+  isStill: boolean;
+  // Length of a clip; unknown lengths are taken to cover the shot
+  durationMs?: number;
+}
+
+export interface TimelineClip {
+  name: string;
+  // Shots without any media become gaps
+  media?: TimelineMedia;
+  startFrame: number;
+  durationFrames: number;
+  // Length of the clip file, when it may be shorter than the shot
+  sourceFrames?: number;
+  dialogue?: string;
+  // Set on the first shot of each scene
+  sceneName?: string;
+}
+
+export interface TimelineSequence {
+  title: string;
+  width: number;
+  height: number;
+  clips: TimelineClip[];
+  durationFrames: number;
+}
+
+const toFrames = (ms: number) => Math.round(ms / 1000 * TIMELINE_FRAME_RATE);
+
+// Single line for marker and EDL text
+const flatten = (text: string) => text.replace(/\s*\r?\n\s*/g, ' ').trim();
+
+/**
+ * Clips for `shots`, with cuts snapped to frames from the running offsets so
+ * rounding never accumulates. `media` is keyed by shot id.
+ */
+export const buildTimelineSequence = (
+  title: string,
+  shots: Shot[],
+  scenes: Scene[],
+  media: Record<string, TimelineMedia | undefined>,
+  width: number,
+  height: number
+): TimelineSequence => {
+  const offsets = getShotOffsets(shots).map(toFrames);
+  const clips = shots.map((shot, i): TimelineClip => {
+    const sceneStarts = !!shot.sceneId && shot.sceneId !== shots[i - 1]?.sceneId;
+    const shotMedia = media[shot.id];
+    return {
+      name: `Shot ${String(i + 1).padStart(2, '0')}`,
+      media: shotMedia,
+      sourceFrames: shotMedia && !shotMedia.isStill && shotMedia.durationMs ? Math.max(1, toFrames(shotMedia.durationMs)) : undefined,
+      startFrame: offsets[i],
+      durationFrames: Math.max(1, offsets[i + 1] - offsets[i]),
+      dialogue: flatten(shot.dialogue || '') || undefined,
+      sceneName: sceneStarts ? scenes.find(s => s.id === shot.sceneId)?.name : undefined
+    };
+  });
+  return { title, width, height, clips, durationFrames: offsets[shots.length] };
+};
+
+// Successive plays of the clip's media filling the shot; one for stills and gaps
+const getPlays = (clip: TimelineClip) => {
+  const length = clip.sourceFrames;
+  if (!length || length >= clip.durationFrames) return [{ offset: 0, durationFrames: clip.durationFrames }];
+  const plays: { offset: number; durationFrames: number }[] = [];
+  for (let offset = 0; offset < clip.durationFrames; offset += length) {
+    plays.push({ offset, durationFrames: Math.min(length, clip.durationFrames - offset) });
+  }
+  return plays;
+};
+
+/**
+ * Length of a video file from its metadata. MediaRecorder WebM carries no
+ * duration until the browser has seeked to the end, so that is forced first.
+ */
+export const readVideoDuration = (blob: Blob): Promise<number | undefined> => new Promise(resolve => {
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(blob);
+  const done = (ms?: number) => {
+    URL.revokeObjectURL(url);
+    video.removeAttribute('src');
+    resolve(ms);
+  };
+  video.preload = 'metadata';
+  video.onerror = () => done();
+  video.onloadedmetadata = () => {
+    if (Number.isFinite(video.duration)) return done(video.duration * 1000);
+    video.ontimeupdate = () => {
+      video.ontimeupdate = null;
+      done(Number.isFinite(video.duration) ? video.duration * 1000 : undefined);
+    };
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  };
+  video.src = url;
+});
+
+// --- FCPXML ---
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Rational seconds, e.g. "90/30s"
+const fcpTime = (frames: number) => frames === 0 ? '0s' : `${frames}/${TIMELINE_FRAME_RATE}s`;
+
+export const toFcpxml = (sequence: TimelineSequence): string => {
+  const { title, width, height, clips } = sequence;
+  const assets: string[] = [];
+  const spine: string[] = [];
+  const escapedTitle = escapeXml(title);
+
+  clips.forEach((clip, i) => {
+    const duration = fcpTime(clip.durationFrames);
+    const children: string[] = [];
+    if (clip.sceneName) children.push(`<marker start="0s" duration="${fcpTime(1)}" value="${escapeXml(`场景：${clip.sceneName}`)}"/>`);
+    if (clip.dialogue) {
+      const styleId = `ts${i + 1}`;
+      children.push(
+        `<caption lane="1" offset="0s" name="${escapeXml(clip.dialogue)}" start="0s" duration="${duration}" role="iTT?captionFormat=ITT.zh">`,
+        `  <text placement="bottom"><text-style ref="${styleId}">${escapeXml(clip.dialogue)}</text-style></text>`,
+        `  <text-style-def id="${styleId}"><text-style font="PingFang SC" fontSize="13" fontFace="Regular" fontColor="1 1 1 1" backgroundColor="0 0 0 1"/></text-style-def>`,
+        `</caption>`
+      );
+    }
+    const body = children.map(line => `              ${line}`).join('\n');
+    const open = (tag: string, attributes: string) => children.length
+      ? `            <${tag} ${attributes}>\n${body}\n            </${tag}>`
+      : `            <${tag} ${attributes}/>`;
+
+    const offset = fcpTime(clip.startFrame);
+    const name = escapeXml(clip.name);
+    if (!clip.media) {
+      spine.push(open('gap', `name="${name}" offset="${offset}" start="0s" duration="${duration}"`));
+      return;
+    }
+    const assetId = `r${i + 2}`;
+    // Stills are zero-length assets that any clip duration can use
+    const assetDuration = clip.media.isStill ? '0s' : fcpTime(clip.sourceFrames || clip.durationFrames);
+    assets.push(`    <asset id="${assetId}" name="${escapeXml(clip.media.path)}" start="0s" duration="${assetDuration}" hasVideo="1" format="r1">
+      <media-rep kind="original-media" src="./${encodeURI(clip.media.path)}"/>
+    </asset>`);
+    const tag = clip.media.isStill ? 'video' : 'asset-clip';
+    // Markers and the caption ride on the first play; the caption spans the whole shot
+    getPlays(clip).forEach((play, p) => {
+      const attributes = `ref="${assetId}" name="${name}" offset="${fcpTime(clip.startFrame + play.offset)}" start="0s" duration="${fcpTime(play.durationFrames)}"`;
+      spine.push(p === 0 ? open(tag, attributes) : `            <${tag} ${attributes}/>`);
+    });
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.9">
+  <resources>
+    <format id="r1" frameDuration="${fcpTime(1)}" width="${width}" height="${height}"/>
+${assets.join('\n')}
+  </resources>
+  <library>
+    <event name="${escapedTitle}">
+      <project name="${escapedTitle}">
+        <sequence format="r1" duration="${fcpTime(sequence.durationFrames)}" tcStart="0s" tcFormat="NDF">
+          <spine>
+${spine.join('\n')}
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`;
+};
+
+// --- EDL ---
+
+// Record side starts at the customary hour mark
+const EDL_RECORD_START = 3600 * TIMELINE_FRAME_RATE;
+
+const timecode = (frames: number) => {
+  const fps = TIMELINE_FRAME_RATE;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const seconds = Math.floor(frames / fps);
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}:${pad(frames % fps)}`;
+};
+
+/** CMX3600 events with clip names for relinking and locators for scenes and dialogue. */
+export const toEdl = (sequence: TimelineSequence): string => {
+  const lines = [`TITLE: ${flatten(sequence.title)}`, 'FCM: NON-DROP FRAME', ''];
+  let event = 0;
+  sequence.clips.forEach(clip => {
+    const shotIn = EDL_RECORD_START + clip.startFrame;
+    // AX is an auxiliary source resolved by clip name; BL is black
+    const reel = clip.media ? 'AX' : 'BL';
+    getPlays(clip).forEach((play, p) => {
+      const recordIn = shotIn + play.offset;
+      lines.push(`${String(++event).padStart(3, '0')}  ${reel.padEnd(8)} V     C        ${timecode(0)} ${timecode(play.durationFrames)} ${timecode(recordIn)} ${timecode(recordIn + play.durationFrames)}`);
+      if (clip.media) lines.push(`* FROM CLIP NAME: ${clip.media.path}`);
+      if (p === 0 && clip.sceneName) lines.push(`* LOC: ${timecode(recordIn)} RED     ${flatten(`场景：${clip.sceneName}`)}`);
+      if (p === 0 && clip.dialogue) lines.push(`* LOC: ${timecode(recordIn)} YELLOW  ${clip.dialogue}`);
+      lines.push('');
+    });
+  });
+  return lines.join('\n');
+};
+
+// --- OpenTimelineIO ---
+
+const rationalTime = (frames: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate: TIMELINE_FRAME_RATE, value: frames });
+
+const timeRange = (start: number, duration: number) => ({ OTIO_SCHEMA: 'TimeRange.1', start_time: rationalTime(start), duration: rationalTime(duration) });
+
+const marker = (name: string, color: string, start: number, duration: number) =>
+  ({ OTIO_SCHEMA: 'Marker.2', name, color, marked_range: timeRange(start, duration), metadata: {} });
+
+export const toOtio = (sequence: TimelineSequence): string => {
+  const children = sequence.clips.flatMap((clip): object[] => {
+    if (!clip.media) return [{ OTIO_SCHEMA: 'Gap.1', name: clip.name, source_range: timeRange(0, clip.durationFrames), effects: [], markers: [], metadata: {} }];
+    const media = clip.media;
+    const availableRange = clip.sourceFrames ? timeRange(0, clip.sourceFrames) : null;
+    return getPlays(clip).map((play, p) => ({
+      OTIO_SCHEMA: 'Clip.2',
+      name: clip.name,
+      source_range: timeRange(0, play.durationFrames),
+      media_references: {
+        DEFAULT_MEDIA: { OTIO_SCHEMA: 'ExternalReference.1', name: media.path, target_url: media.path, available_range: availableRange, metadata: {} }
+      },
+      active_media_reference_key: 'DEFAULT_MEDIA',
+      effects: [],
+      markers: p === 0 && clip.dialogue ? [marker(clip.dialogue, 'YELLOW', 0, play.durationFrames)] : [],
+      metadata: {}
+    }));
+  });
+  const sceneMarkers = sequence.clips
+    .filter(clip => clip.sceneName)
+    .map(clip => marker(`场景：${clip.sceneName}`, 'RED', clip.startFrame, 1));
+
+  const timeline = {
+    OTIO_SCHEMA: 'Timeline.1',
+    name: sequence.title,
+    global_start_time: null,
+    metadata: {},
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      source_range: null,
+      effects: [],
+      markers: [],
+      metadata: {},
+      children: [{
+        OTIO_SCHEMA: 'Track.1',
+        name: 'V1',
+        kind: 'Video',
+        source_range: null,
+        effects: [],
+        markers: sceneMarkers,
+        metadata: {},
+        children
+      }]
+    }
+  };
+  return JSON.stringify(timeline, null, 2);
+};
+
+export const buildTimelineFile = (format: TimelineFormat, sequence: TimelineSequence): string => {
+  switch (format) {
+    case 'fcpxml': return toFcpxml(sequence);
+    case 'edl': return toEdl(sequence);
+    case 'otio': return toOtio(sequence);
+  }
+};
@@ -0,0 +1,61 @@
+import { Shot } from '../types';
+
+/**
+ * Shot timing shared by the editor preview and the exported video, so both
+ * hold every shot for exactly the same length.
+ */
+
+export const MIN_SHOT_DURATION = 500;
+export const MAX_SHOT_DURATION = 60000;
+
+// Silent shots and the bounds of the dialogue-based estimate
+const SILENT_SHOT_DURATION = 3000;
+const MIN_ESTIMATED_DURATION = 2000;
+const MAX_ESTIMATED_DURATION = 15000;
+// Reading speed for subtitles: CJK characters and Latin words per second
+const CJK_CHARS_PER_SECOND = 4;
+const WORDS_PER_SECOND = 2.5;
+// Breathing room after the last word before cutting away
+const TAIL_PADDING = 800;
+
+const CJK_PATTERN = /[\u3000-\u9fff\uff00-\uffef]/g;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clampDuration = (ms: number) => Math.round(clamp(ms, MIN_SHOT_DURATION, MAX_SHOT_DURATION));
+
+// How long the dialogue takes to read, ignoring any explicit duration.
+export const estimateShotDuration = (shot: Shot): number => {
+  if (shot.audioDurationMs) return clampDuration(shot.audioDurationMs + TAIL_PADDING);
+  const text = shot.dialogue?.trim();
+  if (!text) return SILENT_SHOT_DURATION;
+  const cjkCount = text.match(CJK_PATTERN)?.length || 0;
+  const wordCount = text.replace(CJK_PATTERN, ' ').split(/\s+/).filter(word => /\w/.test(word)).length;
+  const readingMs = (cjkCount / CJK_CHARS_PER_SECOND + wordCount / WORDS_PER_SECOND) * 1000;
+  return Math.round(clamp(readingMs + TAIL_PADDING, MIN_ESTIMATED_DURATION, MAX_ESTIMATED_DURATION));
+};
+
+// An explicit `durationMs` wins over the estimate.
+export const getShotDuration = (shot: Shot): number =>
+  shot.durationMs ? clampDuration(shot.durationMs) : estimateShotDuration(shot);
+
+export const getTotalDuration = (shots: Shot[]): number =>
+  shots.reduce((total, shot) => total + getShotDuration(shot), 0);
+
+// Start time of every shot on the timeline, plus the end of the last one.
+export const getShotOffsets = (shots: Shot[]): number[] => {
+  const offsets = [0];
+  shots.forEach(shot => offsets.push(offsets[offsets.length - 1] + getShotDuration(shot)));
+  return offsets;
+};
+
+// "1:05" style runtime readout
+export const formatRuntime = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+// Seconds with one decimal, as shown in the duration inputs
+export const formatSeconds = (ms: number): string => (ms / 1000).toFixed(1);
@@ -0,0 +1,172 @@
+import { CropRect, Shot, ShotTransition, TransitionDirection, TransitionType } from "../types";
+import { getShotDuration } from "./timing";
+import { FULL_FRAME } from "./cameraMotion";
+
+/**
+ * Shot boundary transitions. A transition is stored on the incoming shot and
+ * straddles the cut (half before, half after), so it never changes the total
+ * runtime. `getTransitionLayers` describes each frame of it as layer styles
+ * that the preview applies with CSS and the export with canvas operations.
+ */
+
+export const DEFAULT_TRANSITION_DURATION = 600;
+export const MAX_TRANSITION_DURATION = 3000;
+
+export const TRANSITION_OPTIONS: { value: TransitionType; label: string }[] = [
+  { value: 'cut', label: '硬切' },
+  { value: 'crossfade', label: '叠化' },
+  { value: 'dipBlack', label: '黑场过渡' },
+  { value: 'dipWhite', label: '白场过渡' },
+  { value: 'wipe', label: '划像' },
+  { value: 'whipPan', label: '甩镜' }
+];
+
+export const DIRECTION_OPTIONS: { value: TransitionDirection; label: string }[] = [
+  { value: 'left', label: '向左' },
+  { value: 'right', label: '向右' },
+  { value: 'up', label: '向上' },
+  { value: 'down', label: '向下' }
+];
+
+export const hasDirection = (type: TransitionType) => type === 'wipe' || type === 'whipPan';
+
+// Strongest whip pan blur, as a fraction of the frame width
+const WHIP_BLUR = 0.02;
+
+/**
+ * Effective transition into `shots[index]`, or undefined for a hard cut. The
+ * duration is capped by both neighbours so the halves of consecutive
+ * transitions never overlap.
+ */
+export const getTransition = (shots: Shot[], index: number): ShotTransition | undefined => {
+  const transition = shots[index]?.transition;
+  if (index <= 0 || !transition || transition.type === 'cut') return undefined;
+  const limit = Math.min(getShotDuration(shots[index - 1]), getShotDuration(shots[index]), MAX_TRANSITION_DURATION);
+  const durationMs = Math.min(transition.durationMs || DEFAULT_TRANSITION_DURATION, limit);
+  return durationMs > 0 ? { ...transition, durationMs } : undefined;
+};
+
+export interface TransitionState {
+  transition: ShotTransition;
+  fromIndex: number;
+  toIndex: number;
+  // 0..1 through the transition
+  progress: number;
+  // Time into each shot; can run past either end of it while the transition straddles the cut
+  fromElapsed: number;
+  toElapsed: number;
+}
+
+// The transition in progress `elapsedMs` into `shots[index]`, if any.
+export const getTransitionState = (shots: Shot[], index: number, elapsedMs: number): TransitionState | null => {
+  const incoming = getTransition(shots, index);
+  if (incoming && elapsedMs < incoming.durationMs / 2) {
+    return {
+      transition: incoming,
+      fromIndex: index - 1,
+      toIndex: index,
+      progress: (elapsedMs + incoming.durationMs / 2) / incoming.durationMs,
+      fromElapsed: getShotDuration(shots[index - 1]) + elapsedMs,
+      toElapsed: elapsedMs
+    };
+  }
+  const outgoing = getTransition(shots, index + 1);
+  const duration = getShotDuration(shots[index]);
+  if (outgoing && elapsedMs > duration - outgoing.durationMs / 2) {
+    return {
+      transition: outgoing,
+      fromIndex: index,
+      toIndex: index + 1,
+      progress: (elapsedMs - (duration - outgoing.durationMs / 2)) / outgoing.durationMs,
+      fromElapsed: elapsedMs,
+      toElapsed: elapsedMs - duration
+    };
+  }
+  return null;
+};
+
+export interface LayerStyle {
+  opacity: number;
+  // Visible region of the frame
+  clip: CropRect;
+  // Offset as a fraction of the frame size
+  shiftX: number;
+  shiftY: number;
+  // Blur radius as a fraction of the frame width
+  blur: number;
+}
+
+export interface TransitionLayers {
+  from: LayerStyle;
+  to: LayerStyle;
+  // Solid color drawn over both layers (dips)
+  overlay?: { color: string; opacity: number };
+}
+
+export const FULL_LAYER: LayerStyle = { opacity: 1, clip: FULL_FRAME, shiftX: 0, shiftY: 0, blur: 0 };
+
+const HIDDEN_LAYER: LayerStyle = { ...FULL_LAYER, opacity: 0 };
+
+const DIRECTION_VECTORS: Record<TransitionDirection, [number, number]> = {
+  left: [-1, 0],
+  right: [1, 0],
+  up: [0, -1],
+  down: [0, 1]
+};
+
+// Region of the incoming shot a wipe travelling `direction` has uncovered.
+const wipeRegion = (direction: TransitionDirection, p: number): CropRect => {
+  switch (direction) {
+    case 'left': return { x: 1 - p, y: 0, width: p, height: 1 };
+    case 'right': return { x: 0, y: 0, width: p, height: 1 };
+    case 'up': return { x: 0, y: 1 - p, width: 1, height: p };
+    case 'down': return { x: 0, y: 0, width: 1, height: p };
+  }
+};
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2);
+
+export const getTransitionLayers = (transition: ShotTransition, progress: number): TransitionLayers => {
+  const p = Math.min(1, Math.max(0, progress));
+  const direction = transition.direction || 'left';
+  switch (transition.type) {
+    case 'crossfade':
+      return { from: FULL_LAYER, to: { ...FULL_LAYER, opacity: p } };
+    case 'dipBlack':
+    case 'dipWhite': {
+      const color = transition.type === 'dipBlack' ? '#000000' : '#ffffff';
+      return p < 0.5
+        ? { from: FULL_LAYER, to: HIDDEN_LAYER, overlay: { color, opacity: p * 2 } }
+        : { from: HIDDEN_LAYER, to: FULL_LAYER, overlay: { color, opacity: (1 - p) * 2 } };
+    }
+    case 'wipe':
+      return { from: FULL_LAYER, to: { ...FULL_LAYER, clip: wipeRegion(direction, p) } };
+    case 'whipPan': {
+      // Both frames slide together in the travel direction, blurred hardest mid-move
+      const [dx, dy] = DIRECTION_VECTORS[direction];
+      const k = easeInOut(p);
+      const blur = Math.sin(Math.PI * p) * WHIP_BLUR;
+      return {
+        from: { ...FULL_LAYER, shiftX: dx * k, shiftY: dy * k, blur },
+        to: { ...FULL_LAYER, shiftX: -dx * (1 - k), shiftY: -dy * (1 - k), blur }
+      };
+    }
+    default:
+      return { from: p < 0.5 ? FULL_LAYER : HIDDEN_LAYER, to: p < 0.5 ? HIDDEN_LAYER : FULL_LAYER };
+  }
+};
+
+/**
+ * Suggested transition into every shot: a crossfade where the scene changes,
+ * a hard cut within a scene. Shots without a scene are treated as continuing it.
+ */
+export const suggestTransitions = (shots: Shot[]): Record<string, ShotTransition | undefined> => {
+  const result: Record<string, ShotTransition | undefined> = {};
+  let previousScene: string | undefined;
+  shots.forEach((shot, index) => {
+    const sceneChanged = index > 0 && !!shot.sceneId && !!previousScene && shot.sceneId !== previousScene;
+    result[shot.id] = sceneChanged ? { type: 'crossfade', durationMs: 800 } : undefined;
+    if (shot.sceneId) previousScene = shot.sceneId;
+  });
+  return result;
+};
@@ -0,0 +1,455 @@
+import { ArrayBufferTarget as WebmTarget, Muxer as WebmMuxer } from 'webm-muxer';
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from 'mp4-muxer';
+import { AspectRatio, AudioMix, Shot } from "../types";
+import { getShotDuration, getShotOffsets } from "./timing";
+import { getTransition, getTransitionState } from "./transitions";
+import { ShotSource, drawTimelineFrame, getExportSize, loadShotSource } from "./frameRenderer";
+import { Soundtrack, loadSoundtrackBuffers, startSoundtrack } from "./soundtrack";
+import { createGifEncoder } from "./gifEncoder";
+
+/**
+ * Video export to MP4, WebM or an animated GIF. The offline path steps a fixed
+ * frame clock, draws each frame with the compositor and encodes it with
+ * WebCodecs; it runs faster than real time, is immune to background-tab timer
+ * throttling and gives the same file every time. Browsers without the needed
+ * encoders fall back to recording the canvas in real time with MediaRecorder.
+ * GIFs are silent and encoded in script, so they always render offline.
+ */
+
+export type ExportFormat = 'mp4' | 'webm' | 'gif';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // Size class, see `getExportSize`
+  resolution: number;
+  // Video bits per second; GIF ignores it
+  bitrate: number;
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: 'mp4', label: 'MP4 (H.264/AAC)', extension: 'mp4' },
+  { value: 'webm', label: 'WebM (VP9/Opus)', extension: 'webm' },
+  { value: 'gif', label: 'GIF 动图 (无声预览)', extension: 'gif' }
+];
+
+export const RESOLUTION_OPTIONS: { value: number; label: string }[] = [
+  { value: 480, label: '480p' },
+  { value: 720, label: '720p' },
+  { value: 1080, label: '1080p' }
+];
+
+export const BITRATE_OPTIONS: { value: number; label: string }[] = [
+  { value: 2000000, label: '2 Mbps' },
+  { value: 5000000, label: '5 Mbps' },
+  { value: 8000000, label: '8 Mbps' },
+  { value: 16000000, label: '16 Mbps' }
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { format: 'mp4', resolution: 1080, bitrate: 5000000 };
+
+// GIFs are quick previews for chat: small frames at a low frame rate keep the file shareable
+const GIF_MAX_RESOLUTION = 480;
+const GIF_FRAME_RATE = 10;
+
+// Frame size of the exported file
+export const getOutputSize = (aspectRatio: AspectRatio, { format, resolution }: ExportSettings) =>
+  getExportSize(aspectRatio, format === 'gif' ? Math.min(resolution, GIF_MAX_RESOLUTION) : resolution);
+
+export interface ExportJob {
+  shots: Shot[];
+  soundtrack: Soundtrack;
+  mix: AudioMix;
+  format: ExportFormat;
+  width: number;
+  height: number;
+  bitrate: number;
+  burnSubtitles: boolean;
+  // 0..1
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const FRAME_RATE = 30;
+const AUDIO_BITRATE = 128000;
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+// A keyframe every two seconds keeps the file seekable
+const KEYFRAME_INTERVAL = FRAME_RATE * 2;
+// Frames allowed to wait in the encoder before drawing the next one
+const MAX_ENCODE_QUEUE = 8;
+// Share of the progress bar taken by mixing and encoding the audio
+const AUDIO_PROGRESS = 0.05;
+
+interface VideoContainer {
+  mimeType: string;
+  // WebCodecs codec string and the muxer's name for it, in order of preference
+  videoCodecs: { codec: string; muxer: string }[];
+  audioCodec: string;
+  // MediaRecorder types for the real-time fallback, in order of preference
+  recorderTypes: string[];
+}
+
+const CONTAINERS: Record<Exclude<ExportFormat, 'gif'>, VideoContainer> = {
+  mp4: {
+    mimeType: 'video/mp4',
+    // High, Main, then Baseline profile
+    videoCodecs: [
+      { codec: 'avc1.640028', muxer: 'avc' },
+      { codec: 'avc1.4d0028', muxer: 'avc' },
+      { codec: 'avc1.42001f', muxer: 'avc' }
+    ],
+    audioCodec: 'mp4a.40.2',
+    recorderTypes: ['video/mp4; codecs=avc1,mp4a.40.2', 'video/mp4']
+  },
+  webm: {
+    mimeType: 'video/webm',
+    videoCodecs: [
+      { codec: 'vp09.00.40.08', muxer: 'V_VP9' },
+      { codec: 'vp8', muxer: 'V_VP8' }
+    ],
+    audioCodec: 'opus',
+    // Try standard webm/vp9 with opus, fallback to default
+    recorderTypes: ['video/webm; codecs=vp9,opus', 'video/webm; codecs=vp8,opus', 'video/webm']
+  }
+};
+
+const getAudioConfig = (container: VideoContainer): AudioEncoderConfig =>
+  ({ codec: container.audioCodec, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS, bitrate: AUDIO_BITRATE });
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException("Export cancelled", 'AbortError');
+};
+
+const pickVideoCodec = async (container: VideoContainer, width: number, height: number, bitrate: number) => {
+  for (const option of container.videoCodecs) {
+    const { supported } = await VideoEncoder.isConfigSupported({ codec: option.codec, width, height, bitrate, framerate: FRAME_RATE });
+    if (supported) return option;
+  }
+  return null;
+};
+
+// Whether this browser has the WebCodecs encoders for the offline path.
+const canRenderOffline = async (container: VideoContainer, width: number, height: number, bitrate: number): Promise<boolean> => {
+  if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined' || typeof VideoFrame === 'undefined') return false;
+  try {
+    const [video, audio] = await Promise.all([
+      pickVideoCodec(container, width, height, bitrate),
+      AudioEncoder.isConfigSupported(getAudioConfig(container))
+    ]);
+    return !!video && !!audio.supported;
+  } catch {
+    return false;
+  }
+};
+
+interface ChunkMuxer {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  // Close the file and return it
+  finalize: () => Blob;
+}
+
+const createMuxer = (format: Exclude<ExportFormat, 'gif'>, videoCodec: string, width: number, height: number): ChunkMuxer => {
+  const audio = { numberOfChannels: AUDIO_CHANNELS, sampleRate: AUDIO_SAMPLE_RATE };
+  if (format === 'mp4') {
+    const muxer = new Mp4Muxer({
+      target: new Mp4Target(),
+      video: { codec: 'avc', width, height, frameRate: FRAME_RATE },
+      audio: { codec: 'aac', ...audio },
+      // Index up front so players and upload checks can start before the whole file is read
+      fastStart: 'in-memory'
+    });
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return new Blob([muxer.target.buffer], { type: CONTAINERS.mp4.mimeType });
+      }
+    };
+  }
+  const muxer = new WebmMuxer({
+    target: new WebmTarget(),
+    video: { codec: videoCodec, width, height, frameRate: FRAME_RATE },
+    audio: { codec: 'A_OPUS', ...audio }
+  });
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: CONTAINERS.webm.mimeType });
+    }
+  };
+};
+
+// Loaded media around the shot being drawn; the next shot is kept ready so transitions can blend it in.
+const createSourceCache = (shots: Shot[], width: number, height: number) => {
+  const sources = new Map<string, ShotSource>();
+  return {
+    sources,
+    prepare: async (index: number) => {
+      for (const shot of [shots[index], shots[index + 1]]) {
+        if (shot && !sources.has(shot.id)) sources.set(shot.id, await loadShotSource(shot, width, height));
+      }
+      const stale = shots[index - 2];
+      if (stale) {
+        sources.get(stale.id)?.video?.pause();
+        sources.delete(stale.id);
+      }
+    },
+    dispose: () => {
+      sources.forEach(source => source.video?.pause());
+      sources.clear();
+    }
+  };
+};
+
+const createCanvas = (width: number, height: number, willReadFrequently = false) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently });
+  if (!ctx) throw new Error("Failed to create canvas context");
+  return { canvas, ctx };
+};
+
+// --- Offline render ---
+
+// Time into a shot's clip; clips start rolling when the transition into their shot begins.
+const getClipTime = (shots: Shot[], index: number, elapsedMs: number) =>
+  elapsedMs + (getTransition(shots, index)?.durationMs || 0) / 2;
+
+// Seek a (paused) clip so the next draw shows the frame at `ms`, looping like playback does.
+const seekVideo = (video: HTMLVideoElement, ms: number): Promise<void> => {
+  const target = Number.isFinite(video.duration) && video.duration > 0 ? (ms / 1000) % video.duration : ms / 1000;
+  if (Math.abs(video.currentTime - target) < 0.001) return Promise.resolve();
+  return new Promise(resolve => {
+    video.addEventListener('seeked', () => resolve(), { once: true });
+    video.addEventListener('error', () => resolve(), { once: true });
+    video.currentTime = target;
+  });
+};
+
+const renderSoundtrack = async (soundtrack: Soundtrack, mix: AudioMix, durationMs: number): Promise<AudioBuffer> => {
+  const length = Math.max(1, Math.ceil(durationMs / 1000 * AUDIO_SAMPLE_RATE));
+  const ctx = new OfflineAudioContext(AUDIO_CHANNELS, length, AUDIO_SAMPLE_RATE);
+  startSoundtrack(ctx, ctx.destination, soundtrack, await loadSoundtrackBuffers(soundtrack), mix);
+  return ctx.startRendering();
+};
+
+// Throws on an encoder failure rather than finishing with a short or missing audio track
+const encodeAudio = async (audio: AudioBuffer, container: VideoContainer, muxer: ChunkMuxer) => {
+  let encodeError: DOMException | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: (e) => { encodeError = e; }
+  });
+  encoder.configure(getAudioConfig(container));
+  // 100 ms per AudioData
+  const blockSize = AUDIO_SAMPLE_RATE / 10;
+  for (let offset = 0; offset < audio.length; offset += blockSize) {
+    if (encodeError) throw encodeError;
+    const frames = Math.min(blockSize, audio.length - offset);
+    const data = new Float32Array(frames * AUDIO_CHANNELS);
+    for (let channel = 0; channel < AUDIO_CHANNELS; channel++) {
+      data.set(audio.getChannelData(Math.min(channel, audio.numberOfChannels - 1)).subarray(offset, offset + frames), channel * frames);
+    }
+    const block = new AudioData({
+      format: 'f32-planar',
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfFrames: frames,
+      numberOfChannels: AUDIO_CHANNELS,
+      timestamp: Math.round(offset / AUDIO_SAMPLE_RATE * 1e6),
+      data
+    });
+    encoder.encode(block);
+    block.close();
+  }
+  try {
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (encodeError) throw encodeError;
+};
+
+/**
+ * Step the timeline on a fixed frame clock: frame `n` always shows timeline time
+ * `n / frameRate`, with clips seeked to the matching frame. `onFrame` takes each
+ * frame once it is drawn on `ctx`; progress runs from `progressFrom` to 1.
+ */
+const renderFrames = async (
+  { shots, width, height, burnSubtitles, onProgress, signal }: ExportJob,
+  ctx: CanvasRenderingContext2D,
+  frameRate: number,
+  progressFrom: number,
+  onFrame: (frame: number) => Promise<void> | void
+) => {
+  const offsets = getShotOffsets(shots);
+  const totalFrames = Math.max(1, Math.ceil(offsets[shots.length] / 1000 * frameRate));
+  const cache = createSourceCache(shots, width, height);
+  try {
+    let index = 0;
+    for (let frame = 0; frame < totalFrames; frame++) {
+      throwIfAborted(signal);
+      const time = frame * 1000 / frameRate;
+      while (index < shots.length - 1 && time >= offsets[index + 1]) index++;
+      const elapsed = time - offsets[index];
+      await cache.prepare(index);
+
+      // Every clip on screen (both sides of a transition) shows its frame for this instant
+      const state = getTransitionState(shots, index, elapsed);
+      const visible = state
+        ? [{ shotIndex: state.fromIndex, elapsedMs: state.fromElapsed }, { shotIndex: state.toIndex, elapsedMs: state.toElapsed }]
+        : [{ shotIndex: index, elapsedMs: elapsed }];
+      await Promise.all(visible.map(({ shotIndex, elapsedMs }) => {
+        const video = cache.sources.get(shots[shotIndex].id)?.video;
+        return video ? seekVideo(video, getClipTime(shots, shotIndex, elapsedMs)) : undefined;
+      }));
+
+      drawTimelineFrame(ctx, shots, index, elapsed, cache.sources, width, height, burnSubtitles);
+      await onFrame(frame);
+      onProgress?.(progressFrom + (1 - progressFrom) * (frame + 1) / totalFrames);
+    }
+  } finally {
+    cache.dispose();
+  }
+};
+
+// Offline render through WebCodecs into MP4 or WebM.
+const renderVideo = async (job: ExportJob, container: VideoContainer, format: Exclude<ExportFormat, 'gif'>): Promise<Blob> => {
+  const { shots, soundtrack, mix, width, height, bitrate, onProgress, signal } = job;
+  const videoCodec = await pickVideoCodec(container, width, height, bitrate);
+  if (!videoCodec) throw new Error("No supported WebCodecs video encoder");
+  const muxer = createMuxer(format, videoCodec.muxer, width, height);
+
+  // Audio first: the whole mix renders in one pass
+  onProgress?.(0);
+  const audio = await renderSoundtrack(soundtrack, mix, getShotOffsets(shots)[shots.length]);
+  await encodeAudio(audio, container, muxer);
+  throwIfAborted(signal);
+  onProgress?.(AUDIO_PROGRESS);
+
+  let encodeError: DOMException | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (e) => { encodeError = e; }
+  });
+  encoder.configure({ codec: videoCodec.codec, width, height, bitrate, framerate: FRAME_RATE });
+
+  const { canvas, ctx } = createCanvas(width, height);
+  try {
+    await renderFrames(job, ctx, FRAME_RATE, AUDIO_PROGRESS, async (frame) => {
+      if (encodeError) throw encodeError;
+      const videoFrame = new VideoFrame(canvas, { timestamp: Math.round(frame * 1e6 / FRAME_RATE), duration: Math.round(1e6 / FRAME_RATE) });
+      encoder.encode(videoFrame, { keyFrame: frame % KEYFRAME_INTERVAL === 0 });
+      videoFrame.close();
+      // Backpressure without timers, which background tabs throttle
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+    });
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  return muxer.finalize();
+};
+
+// Silent looping GIF at a low frame rate.
+const renderGif = async (job: ExportJob): Promise<Blob> => {
+  const { width, height } = job;
+  const { ctx } = createCanvas(width, height, true);
+  const gif = createGifEncoder(width, height);
+  await renderFrames(job, ctx, GIF_FRAME_RATE, 0, () => {
+    gif.addFrame(ctx.getImageData(0, 0, width, height).data, 1000 / GIF_FRAME_RATE);
+  });
+  return gif.finish();
+};
+
+// --- Real-time recording (fallback) ---
+
+/**
+ * Play the timeline onto a canvas and record it, with the soundtrack, through
+ * MediaRecorder. Takes as long as the video runs.
+ */
+const recordVideo = async (
+  { shots, soundtrack, mix, width, height, bitrate, burnSubtitles, onProgress, signal }: ExportJob,
+  container: VideoContainer
+): Promise<Blob> => {
+  const mimeType = container.recorderTypes.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error(`This browser cannot record ${container.mimeType}`);
+  const { canvas, ctx } = createCanvas(width, height);
+  const audioCtx = new AudioContext();
+  try {
+    await audioCtx.resume();
+    const audioDestination = audioCtx.createMediaStreamDestination();
+    const buffers = await loadSoundtrackBuffers(soundtrack);
+
+    const stream = new MediaStream([
+      ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+      ...audioDestination.stream.getAudioTracks()
+    ]);
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: bitrate });
+    const chunks: BlobPart[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    recorder.start();
+    const soundtrackPlayer = startSoundtrack(audioCtx, audioDestination, soundtrack, buffers, mix);
+    const clockStart = Date.now();
+    const offsets = getShotOffsets(shots);
+    const cache = createSourceCache(shots, width, height);
+    // Clips start when their shot (or the transition into it) first appears
+    const startClip = (index: number) => {
+      const video = cache.sources.get(shots[index]?.id)?.video;
+      if (video && video.paused) {
+        video.currentTime = 0;
+        video.play().catch(() => {});
+      }
+    };
+
+    try {
+      for (let i = 0; i < shots.length; i++) {
+        onProgress?.(i / shots.length);
+        await cache.prepare(i);
+        startClip(i);
+
+        // Keep redrawing for the shot's duration while clips play and the camera moves.
+        // Shots keep to the soundtrack's clock: time spent loading comes out of the shot instead of delaying the rest.
+        const start = clockStart + offsets[i];
+        const shotDuration = getShotDuration(shots[i]);
+        while (Date.now() - start < shotDuration) {
+          throwIfAborted(signal);
+          const elapsed = Date.now() - start;
+          const state = getTransitionState(shots, i, elapsed);
+          if (state) startClip(state.toIndex);
+          drawTimelineFrame(ctx, shots, i, elapsed, cache.sources, width, height, burnSubtitles);
+          await new Promise(r => requestAnimationFrame(r));
+        }
+      }
+    } finally {
+      cache.dispose();
+      soundtrackPlayer.stop();
+      recorder.stop();
+      await stopped;
+    }
+    return new Blob(chunks, { type: container.mimeType });
+  } finally {
+    audioCtx.close();
+  }
+};
+
+/** Render the timeline to a file in `job.format`. Rejects with an AbortError when `job.signal` fires. */
+export const exportVideo = async (job: ExportJob): Promise<Blob> => {
+  if (job.format === 'gif') return renderGif(job);
+  const container = CONTAINERS[job.format];
+  return await canRenderOffline(container, job.width, job.height, job.bitrate)
+    ? renderVideo(job, container, job.format)
+    : recordVideo(job, container);
+};
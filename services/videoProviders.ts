@@ -0,0 +1,243 @@
+import { GoogleGenAI, GenerateVideosOperation } from "@google/genai";
+import { AspectRatio, VideoProviderType, VideoSettings } from "../types";
+import { getApiKey } from "./apiKeys";
+
+/**
+ * Image-to-video backends. Generation is a long-running operation:
+ * `submit` returns an operation id that is persisted on the shot, and `poll`
+ * is called until the clip is ready, so jobs survive a page reload.
+ */
+
+export interface VideoRequest {
+  imageUrl: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  durationSeconds: number;
+}
+
+export type VideoPollResult =
+  | { status: 'running'; progress?: number }
+  | { status: 'succeeded'; video: Blob }
+  | { status: 'failed'; error: string };
+
+export interface VideoProvider {
+  id: VideoProviderType;
+  submit: (request: VideoRequest, settings: VideoSettings) => Promise<string>;
+  poll: (operationId: string, settings: VideoSettings) => Promise<VideoPollResult>;
+}
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  provider: 'veo',
+  baseUrl: '',
+  modelName: ''
+};
+
+export const VIDEO_POLL_INTERVAL: Record<VideoProviderType, number> = {
+  veo: 10000,
+  http: 3000,
+  stub: 500
+};
+
+export const getVideoSettings = (): VideoSettings => {
+  const saved = localStorage.getItem('manju_video_settings');
+  if (saved) return { ...DEFAULT_VIDEO_SETTINGS, ...JSON.parse(saved) };
+  return DEFAULT_VIDEO_SETTINGS;
+};
+
+const loadImageAsBase64 = async (url: string): Promise<{ data: string; mimeType: string }> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load shot image (${response.status})`);
+  const blob = await response.blob();
+  const dataUrl: string = await new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return { data: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: blob.type || 'image/png' };
+};
+
+// --- Google Veo (Gemini API) ---
+
+const veoProvider: VideoProvider = {
+  id: 'veo',
+  submit: async (req, settings) => {
+    const ai = new GoogleGenAI({ apiKey: getApiKey('gemini') });
+    const image = await loadImageAsBase64(req.imageUrl);
+    const operation = await ai.models.generateVideos({
+      model: settings.modelName || 'veo-2.0-generate-001',
+      prompt: req.prompt,
+      image: { imageBytes: image.data, mimeType: image.mimeType },
+      config: {
+        numberOfVideos: 1,
+        durationSeconds: req.durationSeconds,
+        // Veo only renders 16:9 and 9:16
+        aspectRatio: req.aspectRatio === AspectRatio.PORTRAIT ? '9:16' : '16:9'
+      }
+    });
+    if (!operation.name) throw new Error("Veo did not return an operation id");
+    return operation.name;
+  },
+  poll: async (operationId) => {
+    const apiKey = getApiKey('gemini');
+    const ai = new GoogleGenAI({ apiKey });
+    const pending = new GenerateVideosOperation();
+    pending.name = operationId;
+    const operation = await ai.operations.getVideosOperation({ operation: pending });
+    if (!operation.done) return { status: 'running' };
+    if (operation.error) return { status: 'failed', error: String(operation.error.message || "Veo generation failed") };
+
+    const video = operation.response?.generatedVideos?.[0]?.video;
+    if (video?.videoBytes) {
+      const bytes = Uint8Array.from(atob(video.videoBytes), c => c.charCodeAt(0));
+      return { status: 'succeeded', video: new Blob([bytes], { type: video.mimeType || 'video/mp4' }) };
+    }
+    if (!video?.uri) return { status: 'failed', error: "Veo returned no video (possibly filtered)" };
+    const response = await fetch(`${video.uri}${video.uri.includes('?') ? '&' : '?'}key=${apiKey}`);
+    if (!response.ok) return { status: 'failed', error: `Video download failed (${response.status})` };
+    return { status: 'succeeded', video: await response.blob() };
+  }
+};
+
+// --- Self-hosted HTTP job endpoint ---
+// POST {baseUrl}/jobs        { image, mime_type, prompt, duration, aspect_ratio } -> { id }
+// GET  {baseUrl}/jobs/{id}   -> { status: queued|running|succeeded|failed, progress?, video_url?, error? }
+
+const httpProvider: VideoProvider = {
+  id: 'http',
+  submit: async (req, settings) => {
+    const baseUrl = (settings.baseUrl || 'http://127.0.0.1:8000').replace(/\/+$/, '');
+    const image = await loadImageAsBase64(req.imageUrl);
+    const response = await fetch(`${baseUrl}/jobs`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        image: image.data,
+        mime_type: image.mimeType,
+        prompt: req.prompt,
+        duration: req.durationSeconds,
+        aspect_ratio: req.aspectRatio,
+        model: settings.modelName || undefined
+      })
+    });
+    if (!response.ok) throw new Error(`Video job submission failed with status ${response.status}`);
+    const data = await response.json();
+    if (!data.id) throw new Error("Video backend returned no job id");
+    return String(data.id);
+  },
+  poll: async (operationId, settings) => {
+    const baseUrl = (settings.baseUrl || 'http://127.0.0.1:8000').replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/jobs/${encodeURIComponent(operationId)}`);
+    if (!response.ok) return { status: 'failed', error: `Job lookup failed with status ${response.status}` };
+    const job = await response.json();
+    if (job.status === 'failed') return { status: 'failed', error: job.error || "Video job failed" };
+    if (job.status !== 'succeeded') return { status: 'running', progress: job.progress };
+    const videoUrl = new URL(job.video_url, `${baseUrl}/`).toString();
+    const video = await fetch(videoUrl);
+    if (!video.ok) return { status: 'failed', error: `Video download failed (${video.status})` };
+    return { status: 'succeeded', video: await video.blob() };
+  }
+};
+
+// --- Offline stub: records a slow push-in on the shot image with MediaRecorder ---
+
+const stubJobs = new Map<string, { progress: number; result?: Blob; error?: string }>();
+
+const renderStubClip = async (req: VideoRequest, job: { progress: number }): Promise<Blob> => {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  await new Promise((resolve, reject) => {
+    img.onload = resolve;
+    img.onerror = () => reject(new Error("Stub: image load failed"));
+    img.src = req.imageUrl;
+  });
+
+  const width = 640;
+  const height = Math.round(width * img.naturalHeight / img.naturalWidth) || 360;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Stub: canvas unavailable");
+
+  const recorder = new MediaRecorder(canvas.captureStream(24), { mimeType: 'video/webm' });
+  const chunks: BlobPart[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const durationMs = Math.min(req.durationSeconds, 4) * 1000;
+  const start = performance.now();
+  recorder.start();
+  await new Promise<void>(resolve => {
+    const draw = () => {
+      const t = Math.min((performance.now() - start) / durationMs, 1);
+      const scale = 1 + 0.12 * t;
+      ctx.drawImage(img, (width - width * scale) / 2, (height - height * scale) / 2, width * scale, height * scale);
+      job.progress = Math.round(t * 100);
+      if (t < 1) requestAnimationFrame(draw);
+      else resolve();
+    };
+    draw();
+  });
+  recorder.stop();
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+const stubProvider: VideoProvider = {
+  id: 'stub',
+  submit: async (req) => {
+    const operationId = `stub-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const job: { progress: number; result?: Blob; error?: string } = { progress: 0 };
+    stubJobs.set(operationId, job);
+    renderStubClip(req, job)
+      .then(blob => { job.result = blob; })
+      .catch(e => { job.error = e.message || "Stub render failed"; });
+    return operationId;
+  },
+  poll: async (operationId) => {
+    const job = stubJobs.get(operationId);
+    if (!job) return { status: 'failed', error: "Stub job expired (page was reloaded)" };
+    if (job.error) return { status: 'failed', error: job.error };
+    if (!job.result) return { status: 'running', progress: job.progress };
+    stubJobs.delete(operationId);
+    return { status: 'succeeded', video: job.result };
+  }
+};
+
+export const VIDEO_PROVIDERS: Record<VideoProviderType, VideoProvider> = {
+  veo: veoProvider,
+  http: httpProvider,
+  stub: stubProvider
+};
+
+export const submitVideoJob = async (request: VideoRequest, settings: VideoSettings = getVideoSettings()): Promise<string> => {
+  return VIDEO_PROVIDERS[settings.provider].submit(request, settings);
+};
+
+/**
+ * Poll an operation until it finishes. Resolves with the clip, rejects on failure
+ * or when `signal` is aborted.
+ */
+export const waitForVideo = async (
+  provider: VideoProviderType,
+  operationId: string,
+  onProgress: (progress?: number) => void,
+  signal?: AbortSignal,
+  settings: VideoSettings = getVideoSettings()
+): Promise<Blob> => {
+  const backend = VIDEO_PROVIDERS[provider];
+  const interval = VIDEO_POLL_INTERVAL[provider];
+  const effectiveSettings = { ...settings, provider };
+  while (true) {
+    if (signal?.aborted) throw new Error("Video job cancelled");
+    const result = await backend.poll(operationId, effectiveSettings);
+    if (result.status === 'succeeded') return result.video;
+    if (result.status === 'failed') throw new Error(result.error);
+    onProgress(result.progress);
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, interval);
+      signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+    });
+  }
+};
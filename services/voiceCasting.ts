@@ -0,0 +1,154 @@
+import { Character, Shot, SpeakingRate, VoiceProfile } from "../types";
+import { getShotCharacters } from "./geminiService";
+
+/**
+ * Voice casting for dialogue TTS: which prebuilt voice, pace and delivery each
+ * character (and the narrator) gets, and who speaks a given shot's line.
+ */
+
+export interface VoiceOption {
+  name: string;
+  label: string;
+  gender: 'female' | 'male';
+}
+
+// Gemini prebuilt TTS voices
+export const VOICE_OPTIONS: VoiceOption[] = [
+  { name: 'Kore', label: '坚定女声', gender: 'female' },
+  { name: 'Aoede', label: '轻快女声', gender: 'female' },
+  { name: 'Leda', label: '青春女声', gender: 'female' },
+  { name: 'Zephyr', label: '明亮女声', gender: 'female' },
+  { name: 'Despina', label: '柔和女声', gender: 'female' },
+  { name: 'Achernar', label: '轻柔女声', gender: 'female' },
+  { name: 'Gacrux', label: '成熟女声', gender: 'female' },
+  { name: 'Vindemiatrix', label: '温婉女声', gender: 'female' },
+  { name: 'Charon', label: '沉稳男声', gender: 'male' },
+  { name: 'Puck', label: '活泼男声', gender: 'male' },
+  { name: 'Fenrir', label: '激昂男声', gender: 'male' },
+  { name: 'Orus', label: '坚毅男声', gender: 'male' },
+  { name: 'Iapetus', label: '清朗男声', gender: 'male' },
+  { name: 'Algenib', label: '沙哑男声', gender: 'male' },
+  { name: 'Alnilam', label: '威严男声', gender: 'male' },
+  { name: 'Sadaltager', label: '儒雅男声', gender: 'male' }
+];
+
+export const RATE_OPTIONS: { value: SpeakingRate; label: string }[] = [
+  { value: 'slow', label: '慢速' },
+  { value: 'normal', label: '正常' },
+  { value: 'fast', label: '快速' }
+];
+
+// Phrased to follow "Say ...", see generateSpeech
+export const STYLE_PRESETS: { label: string; instruction: string }[] = [
+  { label: '耳语', instruction: 'in a whisper' },
+  { label: '愤怒', instruction: 'angrily' },
+  { label: '温柔', instruction: 'gently and warmly' },
+  { label: '冷漠', instruction: 'coldly' },
+  { label: '兴奋', instruction: 'excitedly' },
+  { label: '悲伤', instruction: 'sadly, holding back tears' },
+  { label: '霸气', instruction: 'with commanding authority' }
+];
+
+export const NARRATOR_SPEAKER = 'narrator';
+
+export const DEFAULT_NARRATOR_VOICE: VoiceProfile = { voiceName: 'Charon', rate: 'normal' };
+
+export interface VoiceCast {
+  characters: Character[];
+  narrator: VoiceProfile;
+}
+
+const FEMALE_KEYWORDS = ['女', '她', '姐', '妹', '娘', '妃', '后', 'woman', 'girl', 'female', 'she'];
+const MALE_KEYWORDS = ['男', '他', '哥', '弟', '爷', '王', '帝', 'man', 'boy', 'male', 'he'];
+
+const hashId = (id: string) => [...id].reduce((hash, ch) => (hash * 31 + ch.charCodeAt(0)) >>> 0, 7);
+
+// The character's own voice, or a stable default matching the gender in its description.
+export const getCharacterVoice = (character: Character): VoiceProfile => {
+  if (character.voice) return character.voice;
+  const text = `${character.description_zh} ${character.prompt_en}`.toLowerCase();
+  const words = text.split(/[^a-z]+/);
+  const count = (keywords: string[]) => keywords.filter(k => /^[a-z]+$/.test(k) ? words.includes(k) : text.includes(k)).length;
+  const gender = count(FEMALE_KEYWORDS) >= count(MALE_KEYWORDS) ? 'female' : 'male';
+  const pool = VOICE_OPTIONS.filter(v => v.gender === gender);
+  return { voiceName: pool[hashId(character.id) % pool.length].name, rate: 'normal' };
+};
+
+export interface DialogueLine {
+  // Name before the colon in "林晚（低声）：你好"
+  speakerName?: string;
+  // Parenthetical direction after the name
+  direction?: string;
+  text: string;
+}
+
+const LINE_PATTERN = /^\s*([^：:（()）\s][^：:（()）]{0,15}?)\s*(?:[（(]([^）)]*)[）)])?\s*[：:]\s*([\s\S]+)$/;
+const NARRATOR_NAMES = ['旁白', 'os', 'o.s.', 'v.o.', 'vo', 'narrator'];
+
+// Labels that mean voice-over rather than a character
+export const isNarratorName = (name: string) => NARRATOR_NAMES.includes(name.trim().toLowerCase());
+
+export const parseDialogueLine = (dialogue: string): DialogueLine => {
+  const match = LINE_PATTERN.exec(dialogue);
+  if (!match) return { text: dialogue.trim() };
+  return { speakerName: match[1].trim(), direction: match[2]?.trim() || undefined, text: match[3].trim() };
+};
+
+/**
+ * Speaker id named by the line's label, if the label is a known character or a
+ * narrator tag. A label that only starts a name counts when exactly one
+ * character's name starts with it ("MARY" for "Mary Jane"); overlapping names
+ * such as 林 and 林晚 are never guessed between.
+ */
+const matchSpeakerLabel = (line: DialogueLine, characters: Character[]): string | undefined => {
+  const name = line.speakerName?.toLowerCase();
+  if (!name) return undefined;
+  if (isNarratorName(name)) return NARRATOR_SPEAKER;
+  const named = characters.find(c => c.name.toLowerCase() === name);
+  if (named) return named.id;
+  const prefixed = characters.filter(c => c.name.toLowerCase().startsWith(name));
+  return prefixed.length === 1 ? prefixed[0].id : undefined;
+};
+
+/**
+ * Speaker of the shot's line: the explicit `speakerId`, else the name before the
+ * colon, else the narrator when the line is marked as voice-over, else the only
+ * character in frame, else the narrator.
+ */
+export const detectSpeaker = (shot: Shot, characters: Character[]): string => {
+  if (shot.speakerId === NARRATOR_SPEAKER || characters.some(c => c.id === shot.speakerId)) return shot.speakerId!;
+  const labelled = matchSpeakerLabel(parseDialogueLine(shot.dialogue || ''), characters);
+  if (labelled) return labelled;
+  if (/旁白|画外音|(^|[^a-z])(v\.?o|o\.?s)\.?([^a-z]|$)/i.test(shot.dialogue || '')) return NARRATOR_SPEAKER;
+  const inFrame = getShotCharacters(shot, characters);
+  return inFrame.length === 1 ? inFrame[0].id : NARRATOR_SPEAKER;
+};
+
+export interface SpeechRequest {
+  text: string;
+  voiceName: string;
+  rate: SpeakingRate;
+  style?: string;
+}
+
+// What to send to TTS for the shot's line: the spoken text without the speaker label, in the speaker's voice.
+export const buildSpeechRequest = (shot: Shot, cast: VoiceCast): SpeechRequest => {
+  const speakerId = detectSpeaker(shot, cast.characters);
+  const speaker = cast.characters.find(c => c.id === speakerId);
+  const voice = speaker ? getCharacterVoice(speaker) : cast.narrator;
+  const dialogue = shot.dialogue || '';
+  // Only a recognised label is stripped; "今天：晴" stays as written
+  const parsed = parseDialogueLine(dialogue);
+  const line = matchSpeakerLabel(parsed, cast.characters) ? parsed : { text: dialogue.trim(), direction: undefined };
+  return {
+    text: line.text,
+    voiceName: voice.voiceName,
+    rate: voice.rate,
+    // A direction written into the line wins over the voice's default delivery
+    style: line.direction || voice.style
+  };
+};
+
+// Identifies the voice settings a clip was made with, so recasting invalidates it.
+export const voiceKey = ({ voiceName, rate, style }: Pick<SpeechRequest, 'voiceName' | 'rate' | 'style'>) =>
+  [voiceName, rate, style || ''].join('|');
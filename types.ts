@@ -27,7 +27,7 @@ export enum AspectRatio {
 
 export type QualityMode = 'speed' | 'balanced' | 'quality';
 
-export type AIProvider = 'gemini' | 'openai';
+export type AIProvider = 'gemini' | 'openai' | 'anthropic' | 'ollama';
 
 export interface AISettings {
   provider: AIProvider;
@@ -35,24 +35,138 @@ export interface AISettings {
   modelName: string;
 }
 
+export type ImageProviderType = 'pollinations' | 'automatic1111' | 'comfyui' | 'openai' | 'stub';
+
+export interface ImageSettings {
+  provider: ImageProviderType;
+  baseUrl: string;
+  modelName: string;
+  apiKey?: string;
+  // Shot generation queue
+  concurrency: number;
+  maxRetries: number;
+}
+
+export type VideoProviderType = 'veo' | 'http' | 'stub';
+
+export interface VideoSettings {
+  provider: VideoProviderType;
+  baseUrl: string;
+  modelName: string;
+}
+
+export type VideoJobStatus = 'queued' | 'running' | 'failed';
+
+// A long-running image-to-video operation; cleared once the clip is stored on the shot.
+export interface VideoJob {
+  provider: VideoProviderType;
+  operationId: string;
+  status: VideoJobStatus;
+  progress?: number;
+  error?: string;
+  submittedAt: number;
+}
+
+export type ModelSheetView = 'front' | 'side' | 'back';
+export type ModelSheetExpression = 'smiling' | 'angry' | 'crying' | 'surprised';
+export type ModelSheetKey = ModelSheetView | ModelSheetExpression;
+
+export type SpeakingRate = 'slow' | 'normal' | 'fast';
+
+// TTS casting for a character or the narrator
+export interface VoiceProfile {
+  voiceName: string;
+  rate: SpeakingRate;
+  // Delivery instruction, e.g. "in a whisper" or "angrily"
+  style?: string;
+}
+
 export interface Character {
   id: string;
   name: string;
   description_zh: string; 
   prompt_en: string;      
   imageUrl?: string;
+  // Turnaround views and expressions, used as shot reference images
+  modelSheet?: Partial<Record<ModelSheetKey, string>>;
+  // Unset means a default voice picked from the description
+  voice?: VoiceProfile;
   isLoading?: boolean;
 }
 
+export type SoundTrack = 'bgm' | 'ambience' | 'sfx';
+
+// Audio file imported into the local sound library
+export interface SoundAsset {
+  id: string;
+  name: string;
+  track: SoundTrack;
+  // `media:` ref of the file
+  url: string;
+  durationMs: number;
+  // Keywords matched against cue descriptions
+  tags: string[];
+  importedAt: number;
+}
+
+// A sound placed on the timeline. The description says what it should be; the asset fields are copied from the library once a file is picked.
+export interface SoundCue {
+  description: string;
+  assetId?: string;
+  url?: string;
+  name?: string;
+  durationMs?: number;
+  // Gain within its track, 0..1; unset is 1
+  volume?: number;
+}
+
+// Track levels, 0..1, plus the level music and ambience drop to under dialogue
+export interface AudioMix {
+  dialogue: number;
+  bgm: number;
+  ambience: number;
+  sfx: number;
+  ducking: number;
+}
+
 export interface Scene {
   id: string;
   name: string;
   description_zh: string; 
   prompt_en: string;      
   imageUrl?: string;
+  // Music under every shot of the scene
+  bgm?: SoundCue;
   isLoading?: boolean;
 }
 
+// Region of the cover-fitted frame, normalized to 0..1; width and height are kept equal so the aspect never changes
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type MotionEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+// Ken Burns move from `start` to `end` over the shot's duration
+export interface CameraMotion {
+  start: CropRect;
+  end: CropRect;
+  easing: MotionEasing;
+}
+
+export type TransitionType = 'cut' | 'crossfade' | 'dipBlack' | 'dipWhite' | 'wipe' | 'whipPan';
+export type TransitionDirection = 'left' | 'right' | 'up' | 'down';
+
+export interface ShotTransition {
+  type: TransitionType;
+  durationMs: number;
+  // Travel direction for wipes and whip pans
+  direction?: TransitionDirection;
+}
+
 export interface Shot {
   id: string;
   sceneId?: string; 
@@ -61,8 +175,28 @@ export interface Shot {
   visualAction: string;
   cameraAngle: string;
   img2vidPrompt: string;
+  // Catalog ids of the characters in frame; undefined on shots planned before explicit linkage
+  characterIds?: string[];
+  // Explicit screen time; unset means estimated from the dialogue (see services/timing)
+  durationMs?: number;
+  // Who speaks the line: a character id or 'narrator'; unset means detected from the line
+  speakerId?: string;
+  // Synthesized dialogue clip (`media:` ref), plus the dialogue text and voice it was made with
+  audioUrl?: string;
+  audioText?: string;
+  audioVoice?: string;
+  // Length of the last synthesized dialogue clip, preferred over the reading-speed estimate
+  audioDurationMs?: number;
+  // Hand-tuned camera move; unset means derived from `cameraAngle` (see services/cameraMotion)
+  cameraMotion?: CameraMotion;
+  // Transition from the previous shot into this one, centered on the cut; unset is a hard cut
+  transition?: ShotTransition;
+  // Room tone looped under the shot, and a one-off effect from its first frame
+  ambience?: SoundCue;
+  sfx?: SoundCue;
   imageUrl?: string;
   videoUrl?: string;
+  videoJob?: VideoJob;
   isLoading: boolean;
   isError: boolean;
 }
@@ -76,4 +210,30 @@ export type AppStep = 'IDLE' | 'PRE_PRODUCTION' | 'STORYBOARD' | 'VIDEO_PREVIEW'
 export interface GenerationConfig {
   style: VisualStyle;
   aspectRatio: AspectRatio;
-}
\ No newline at end of file
+}
+export interface ProjectData {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  step: AppStep;
+  script: string;
+  projectSeed: number;
+  genre: Genre;
+  style: VisualStyle;
+  aspectRatio: AspectRatio;
+  qualityMode: QualityMode;
+  narratorVoice?: VoiceProfile;
+  audioMix?: AudioMix;
+  characters: Character[];
+  scenes: Scene[];
+  shots: Shot[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  step: AppStep;
+  shotCount: number;
+}